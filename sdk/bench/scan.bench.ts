@@ -0,0 +1,99 @@
+/**
+ * Announcement check throughput: multi-step path vs single-pass matcher
+ *
+ * Run with `npm run bench`. Most announcements a scanner sees belong to
+ * someone else and fail the view tag, so both cases are measured.
+ */
+
+import { bench, describe } from 'vitest';
+import { AnnouncementMatcher } from '../src/matcher.js';
+import { getScheme } from '../src/schemes.js';
+import {
+  checkViewTag,
+  createMetaAddress,
+  deriveStealthPrivateKey,
+  generateStealthAddress,
+  verifyStealthAddress,
+} from '../src/stealth.js';
+import type { Announcement, StealthMetaAddress } from '../src/types.js';
+
+const FACTORY = '0x2';
+const CLASS_HASH = '0x1234';
+const ANNOUNCEMENTS = 16;
+// Curve operations take milliseconds: fewer, longer samples
+const OPTIONS = { iterations: 20, time: 0 };
+
+const spendingKey = 0x1d2e3f4a5b6c7d8e9fn;
+const viewingKey = 0x2c3d4e5f6a7b8c9d0en;
+const recipient = createMetaAddress(spendingKey, viewingKey);
+const someoneElse = createMetaAddress(0x77n, 0x88n);
+
+function announce(meta: StealthMetaAddress, index: number): Announcement {
+  const payment = generateStealthAddress(meta, FACTORY, CLASS_HASH);
+  return {
+    schemeId: meta.schemeId,
+    ephemeralPubkeyX: payment.ephemeralPubkey.x,
+    ephemeralPubkeyY: payment.ephemeralPubkey.y,
+    viewTag: payment.viewTag,
+    stealthAddress: payment.stealthAddress,
+    metadata: 0n,
+    index,
+  };
+}
+
+/** What StealthScanner.checkAnnouncement did before the matcher */
+function checkMultiStep(announcement: Announcement): bigint | null {
+  const scheme = getScheme(announcement.schemeId);
+  const ephemeralPubkey = scheme.decodeAnnouncementKey(
+    announcement.ephemeralPubkeyX,
+    announcement.ephemeralPubkeyY
+  );
+  if (!checkViewTag(viewingKey, ephemeralPubkey, announcement.viewTag, scheme)) {
+    return null;
+  }
+  const sharedSecret = verifyStealthAddress(
+    recipient.spendingKey,
+    viewingKey,
+    ephemeralPubkey,
+    announcement.stealthAddress,
+    FACTORY,
+    CLASS_HASH,
+    scheme
+  );
+  return sharedSecret ? deriveStealthPrivateKey(spendingKey, sharedSecret) : null;
+}
+
+function checkSinglePass(announcements: Announcement[]): void {
+  // One matcher per scan, as StealthScanner does
+  const matcher = new AnnouncementMatcher(
+    {
+      spendingPubkey: recipient.spendingKey,
+      viewingPrivKey: viewingKey,
+      spendingPrivKey: spendingKey,
+    },
+    FACTORY,
+    CLASS_HASH
+  );
+  for (const announcement of announcements) {
+    matcher.check(announcement);
+  }
+}
+
+for (const [name, meta] of [
+  ['payments to someone else', someoneElse],
+  ['our payments', recipient],
+] as const) {
+  const announcements = Array.from({ length: ANNOUNCEMENTS }, (_, i) => announce(meta, i));
+
+  describe(`check ${ANNOUNCEMENTS} ${name}`, () => {
+    bench('multi-step (checkViewTag + verifyStealthAddress + derive)', () => {
+      for (const announcement of announcements) {
+        checkMultiStep(announcement);
+      }
+    }, OPTIONS);
+
+    bench('single-pass AnnouncementMatcher', () => {
+      checkSinglePass(announcements);
+    }, OPTIONS);
+  });
+}
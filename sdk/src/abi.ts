@@ -0,0 +1,512 @@
+/**
+ * Contract ABIs
+ *
+ * Sierra ABIs of the StealthRegistry, StealthAccountFactory and
+ * StealthAccount contracts (as in `target/dev/*.contract_class.json`), so
+ * consumers do not need the build output to talk to the contracts.
+ *
+ * Keep these in sync with src/interfaces and src/contracts when the
+ * contracts change.
+ */
+
+const FELT = 'core::felt252';
+const U8 = 'core::integer::u8';
+const U32 = 'core::integer::u32';
+const U64 = 'core::integer::u64';
+const BOOL = 'core::bool';
+const CONTRACT_ADDRESS = 'core::starknet::contract_address::ContractAddress';
+const CLASS_HASH = 'core::starknet::class_hash::ClassHash';
+
+const BOOL_ENUM = {
+  type: 'enum',
+  name: BOOL,
+  variants: [
+    { name: 'False', type: '()' },
+    { name: 'True', type: '()' },
+  ],
+} as const;
+
+const REGISTRY = 'starknet_stealth_addresses::contracts::stealth_registry::StealthRegistry';
+const META_ADDRESS = 'starknet_stealth_addresses::types::meta_address::StealthMetaAddress';
+
+const META_ADDRESS_INPUTS = [
+  { name: 'spending_pubkey_x', type: FELT },
+  { name: 'spending_pubkey_y', type: FELT },
+  { name: 'viewing_pubkey_x', type: FELT },
+  { name: 'viewing_pubkey_y', type: FELT },
+  { name: 'scheme_id', type: U8 },
+] as const;
+
+const META_ADDRESS_EVENT_MEMBERS = [
+  { name: 'user', type: CONTRACT_ADDRESS, kind: 'key' },
+  { name: 'scheme_id', type: U8, kind: 'data' },
+  { name: 'spending_pubkey_x', type: FELT, kind: 'data' },
+  { name: 'spending_pubkey_y', type: FELT, kind: 'data' },
+  { name: 'viewing_pubkey_x', type: FELT, kind: 'data' },
+  { name: 'viewing_pubkey_y', type: FELT, kind: 'data' },
+] as const;
+
+/**
+ * StealthRegistry ABI (IStealthRegistry, IStealthRegistryAdmin and events)
+ */
+export const STEALTH_REGISTRY_ABI = [
+  {
+    type: 'impl',
+    name: 'StealthRegistryImpl',
+    interface_name: 'starknet_stealth_addresses::interfaces::i_stealth_registry::IStealthRegistry',
+  },
+  {
+    type: 'struct',
+    name: META_ADDRESS,
+    members: [
+      { name: 'scheme_id', type: U8 },
+      { name: 'spending_pubkey_x', type: FELT },
+      { name: 'spending_pubkey_y', type: FELT },
+      { name: 'viewing_pubkey_x', type: FELT },
+      { name: 'viewing_pubkey_y', type: FELT },
+    ],
+  },
+  BOOL_ENUM,
+  {
+    type: 'interface',
+    name: 'starknet_stealth_addresses::interfaces::i_stealth_registry::IStealthRegistry',
+    items: [
+      {
+        type: 'function',
+        name: 'register_stealth_meta_address',
+        inputs: META_ADDRESS_INPUTS,
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'update_stealth_meta_address',
+        inputs: META_ADDRESS_INPUTS,
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'get_stealth_meta_address',
+        inputs: [{ name: 'user', type: CONTRACT_ADDRESS }],
+        outputs: [{ type: META_ADDRESS }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'has_meta_address',
+        inputs: [{ name: 'user', type: CONTRACT_ADDRESS }],
+        outputs: [{ type: BOOL }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'announce',
+        inputs: [
+          { name: 'scheme_id', type: U8 },
+          { name: 'ephemeral_pubkey_x', type: FELT },
+          { name: 'ephemeral_pubkey_y', type: FELT },
+          { name: 'stealth_address', type: CONTRACT_ADDRESS },
+          { name: 'view_tag', type: U8 },
+          { name: 'metadata', type: FELT },
+        ],
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'get_announcement_count',
+        inputs: [],
+        outputs: [{ type: U64 }],
+        state_mutability: 'view',
+      },
+    ],
+  },
+  {
+    type: 'impl',
+    name: 'StealthRegistryAdminImpl',
+    interface_name:
+      'starknet_stealth_addresses::interfaces::i_stealth_registry_admin::IStealthRegistryAdmin',
+  },
+  {
+    type: 'interface',
+    name: 'starknet_stealth_addresses::interfaces::i_stealth_registry_admin::IStealthRegistryAdmin',
+    items: [
+      {
+        type: 'function',
+        name: 'set_min_announce_block_gap',
+        inputs: [{ name: 'min_gap', type: U64 }],
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'get_min_announce_block_gap',
+        inputs: [],
+        outputs: [{ type: U64 }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'get_owner',
+        inputs: [],
+        outputs: [{ type: CONTRACT_ADDRESS }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'get_pending_owner',
+        inputs: [],
+        outputs: [{ type: CONTRACT_ADDRESS }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'transfer_ownership',
+        inputs: [{ name: 'new_owner', type: CONTRACT_ADDRESS }],
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'accept_ownership',
+        inputs: [],
+        outputs: [],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'cancel_ownership_transfer',
+        inputs: [],
+        outputs: [],
+        state_mutability: 'external',
+      },
+    ],
+  },
+  {
+    type: 'constructor',
+    name: 'constructor',
+    inputs: [{ name: 'owner', type: CONTRACT_ADDRESS }],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::MetaAddressRegistered`,
+    kind: 'struct',
+    members: META_ADDRESS_EVENT_MEMBERS,
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::MetaAddressUpdated`,
+    kind: 'struct',
+    members: META_ADDRESS_EVENT_MEMBERS,
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::Announcement`,
+    kind: 'struct',
+    members: [
+      { name: 'scheme_id', type: U8, kind: 'key' },
+      { name: 'ephemeral_pubkey_x', type: FELT, kind: 'data' },
+      { name: 'ephemeral_pubkey_y', type: FELT, kind: 'data' },
+      { name: 'stealth_address', type: CONTRACT_ADDRESS, kind: 'data' },
+      { name: 'view_tag', type: U8, kind: 'key' },
+      { name: 'metadata', type: FELT, kind: 'data' },
+      { name: 'index', type: U64, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::MinAnnounceBlockGapUpdated`,
+    kind: 'struct',
+    members: [
+      { name: 'old_gap', type: U64, kind: 'data' },
+      { name: 'new_gap', type: U64, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::OwnershipTransferStarted`,
+    kind: 'struct',
+    members: [
+      { name: 'previous_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+      { name: 'new_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::OwnershipTransferCanceled`,
+    kind: 'struct',
+    members: [
+      { name: 'previous_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+      { name: 'canceled_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::OwnershipTransferred`,
+    kind: 'struct',
+    members: [
+      { name: 'previous_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+      { name: 'new_owner', type: CONTRACT_ADDRESS, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${REGISTRY}::Event`,
+    kind: 'enum',
+    variants: [
+      {
+        name: 'MetaAddressRegistered',
+        type: `${REGISTRY}::MetaAddressRegistered`,
+        kind: 'nested',
+      },
+      { name: 'MetaAddressUpdated', type: `${REGISTRY}::MetaAddressUpdated`, kind: 'nested' },
+      { name: 'Announcement', type: `${REGISTRY}::Announcement`, kind: 'nested' },
+      {
+        name: 'MinAnnounceBlockGapUpdated',
+        type: `${REGISTRY}::MinAnnounceBlockGapUpdated`,
+        kind: 'nested',
+      },
+      {
+        name: 'OwnershipTransferStarted',
+        type: `${REGISTRY}::OwnershipTransferStarted`,
+        kind: 'nested',
+      },
+      {
+        name: 'OwnershipTransferCanceled',
+        type: `${REGISTRY}::OwnershipTransferCanceled`,
+        kind: 'nested',
+      },
+      {
+        name: 'OwnershipTransferred',
+        type: `${REGISTRY}::OwnershipTransferred`,
+        kind: 'nested',
+      },
+    ],
+  },
+] as const;
+
+const FACTORY =
+  'starknet_stealth_addresses::contracts::stealth_account_factory::StealthAccountFactory';
+
+/**
+ * StealthAccountFactory ABI (IStealthAccountFactory and events)
+ */
+export const STEALTH_ACCOUNT_FACTORY_ABI = [
+  {
+    type: 'impl',
+    name: 'StealthAccountFactoryImpl',
+    interface_name:
+      'starknet_stealth_addresses::interfaces::i_stealth_account_factory::IStealthAccountFactory',
+  },
+  {
+    type: 'interface',
+    name: 'starknet_stealth_addresses::interfaces::i_stealth_account_factory::IStealthAccountFactory',
+    items: [
+      {
+        type: 'function',
+        name: 'deploy_stealth_account',
+        inputs: [
+          { name: 'stealth_pubkey_x', type: FELT },
+          { name: 'stealth_pubkey_y', type: FELT },
+          { name: 'salt', type: FELT },
+        ],
+        outputs: [{ type: CONTRACT_ADDRESS }],
+        state_mutability: 'external',
+      },
+      {
+        type: 'function',
+        name: 'compute_stealth_address',
+        inputs: [
+          { name: 'stealth_pubkey_x', type: FELT },
+          { name: 'stealth_pubkey_y', type: FELT },
+          { name: 'salt', type: FELT },
+        ],
+        outputs: [{ type: CONTRACT_ADDRESS }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'get_account_class_hash',
+        inputs: [],
+        outputs: [{ type: CLASS_HASH }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'get_deployment_count',
+        inputs: [],
+        outputs: [{ type: U64 }],
+        state_mutability: 'view',
+      },
+    ],
+  },
+  {
+    type: 'constructor',
+    name: 'constructor',
+    inputs: [{ name: 'account_class_hash', type: CLASS_HASH }],
+  },
+  {
+    type: 'event',
+    name: `${FACTORY}::StealthAccountDeployed`,
+    kind: 'struct',
+    members: [{ name: 'stealth_address', type: CONTRACT_ADDRESS, kind: 'key' }],
+  },
+  {
+    type: 'event',
+    name: `${FACTORY}::Event`,
+    kind: 'enum',
+    variants: [
+      {
+        name: 'StealthAccountDeployed',
+        type: `${FACTORY}::StealthAccountDeployed`,
+        kind: 'nested',
+      },
+    ],
+  },
+] as const;
+
+const ACCOUNT = 'starknet_stealth_addresses::contracts::stealth_account::StealthAccount';
+const SRC5_EVENT = 'openzeppelin_introspection::src5::SRC5Component::Event';
+
+/**
+ * StealthAccount ABI (SRC-5, SRC-6, IStealthAccount and events)
+ */
+export const STEALTH_ACCOUNT_ABI = [
+  {
+    type: 'impl',
+    name: 'SRC5Impl',
+    interface_name: 'openzeppelin_introspection::interface::ISRC5',
+  },
+  BOOL_ENUM,
+  {
+    type: 'interface',
+    name: 'openzeppelin_introspection::interface::ISRC5',
+    items: [
+      {
+        type: 'function',
+        name: 'supports_interface',
+        inputs: [{ name: 'interface_id', type: FELT }],
+        outputs: [{ type: BOOL }],
+        state_mutability: 'view',
+      },
+    ],
+  },
+  {
+    type: 'impl',
+    name: 'SRC6Impl',
+    interface_name: 'openzeppelin_account::interface::ISRC6',
+  },
+  {
+    type: 'struct',
+    name: 'core::array::Span::<core::felt252>',
+    members: [{ name: 'snapshot', type: '@core::array::Array::<core::felt252>' }],
+  },
+  {
+    type: 'struct',
+    name: 'core::starknet::account::Call',
+    members: [
+      { name: 'to', type: CONTRACT_ADDRESS },
+      { name: 'selector', type: FELT },
+      { name: 'calldata', type: 'core::array::Span::<core::felt252>' },
+    ],
+  },
+  {
+    type: 'interface',
+    name: 'openzeppelin_account::interface::ISRC6',
+    items: [
+      {
+        type: 'function',
+        name: '__execute__',
+        inputs: [{ name: 'calls', type: 'core::array::Array::<core::starknet::account::Call>' }],
+        outputs: [{ type: 'core::array::Array::<core::array::Span::<core::felt252>>' }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: '__validate__',
+        inputs: [{ name: 'calls', type: 'core::array::Array::<core::starknet::account::Call>' }],
+        outputs: [{ type: FELT }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'is_valid_signature',
+        inputs: [
+          { name: 'hash', type: FELT },
+          { name: 'signature', type: 'core::array::Array::<core::felt252>' },
+        ],
+        outputs: [{ type: FELT }],
+        state_mutability: 'view',
+      },
+    ],
+  },
+  {
+    type: 'impl',
+    name: 'StealthAccountImpl',
+    interface_name: 'starknet_stealth_addresses::interfaces::i_stealth_account::IStealthAccount',
+  },
+  {
+    type: 'interface',
+    name: 'starknet_stealth_addresses::interfaces::i_stealth_account::IStealthAccount',
+    items: [
+      {
+        type: 'function',
+        name: 'get_stealth_public_key',
+        inputs: [],
+        outputs: [{ type: `(${FELT}, ${FELT})` }],
+        state_mutability: 'view',
+      },
+      {
+        type: 'function',
+        name: 'get_public_key',
+        inputs: [],
+        outputs: [{ type: FELT }],
+        state_mutability: 'view',
+      },
+    ],
+  },
+  {
+    type: 'constructor',
+    name: 'constructor',
+    inputs: [
+      { name: 'pubkey_x', type: FELT },
+      { name: 'pubkey_y', type: FELT },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${ACCOUNT}::AccountInitialized`,
+    kind: 'struct',
+    members: [
+      { name: 'account', type: CONTRACT_ADDRESS, kind: 'key' },
+      { name: 'pubkey_x', type: FELT, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: `${ACCOUNT}::TransactionExecuted`,
+    kind: 'struct',
+    members: [
+      { name: 'account', type: CONTRACT_ADDRESS, kind: 'key' },
+      { name: 'tx_hash', type: FELT, kind: 'data' },
+      { name: 'num_calls', type: U32, kind: 'data' },
+    ],
+  },
+  {
+    type: 'event',
+    name: SRC5_EVENT,
+    kind: 'enum',
+    variants: [],
+  },
+  {
+    type: 'event',
+    name: `${ACCOUNT}::Event`,
+    kind: 'enum',
+    variants: [
+      { name: 'AccountInitialized', type: `${ACCOUNT}::AccountInitialized`, kind: 'nested' },
+      { name: 'TransactionExecuted', type: `${ACCOUNT}::TransactionExecuted`, kind: 'nested' },
+      { name: 'SRC5Event', type: SRC5_EVENT, kind: 'flat' },
+    ],
+  },
+] as const;
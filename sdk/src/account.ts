@@ -0,0 +1,150 @@
+/**
+ * Stealth Account Access
+ *
+ * Turns a scan result into a starknet.js Account for the stealth address, so
+ * the recipient can spend from it. The signer holds the derived stealth key:
+ * the raw key of a full scan, or a StealthKeyring handle for keyring scans.
+ *
+ * StealthAccount checks ECDSA signatures against the x coordinate of its
+ * stored key only, so any STARK curve signature by the derived key verifies;
+ * no extra binding of y is needed (or possible) on the signing side.
+ *
+ * Payments may arrive before the account exists (`deploy: false` senders).
+ * The account is then deployed through the factory, with the announcement's
+ * ephemeral key as salt, before it is handed out.
+ *
+ * Usage:
+ * ```typescript
+ * const [result] = await scanner.scan(keys);
+ * const account = await openStealthAccount(result, provider, {
+ *   factoryAddress: FACTORY_ADDRESS,
+ *   deployer: fundingAccount,
+ * });
+ * await account.execute(transferCall);
+ * ```
+ */
+
+import { Account, num, Signer } from 'starknet';
+import type { AccountInterface, ProviderInterface, SignerInterface } from 'starknet';
+import type { Point, ScanResult } from './types.js';
+import { StealthFactoryClient } from './factory.js';
+import { StealthKeyringSigner } from './keyring.js';
+import type { StealthKeyring } from './keyring.js';
+import { getScheme } from './schemes.js';
+
+/**
+ * Options for openStealthAccount
+ */
+export interface OpenStealthAccountOptions {
+  /** StealthAccountFactory address (needed to deploy) */
+  factoryAddress?: string;
+  /** Account that sends the factory deployment if the stealth account is not deployed */
+  deployer?: AccountInterface;
+  /** Keyring holding the result's keyHandle (keyring scans) */
+  keyring?: StealthKeyring;
+  /** Check the address against the factory before deploying (default: false) */
+  strict?: boolean;
+}
+
+/** Schemes StealthAccount verifies signatures for (STARK curve ECDSA) */
+const ACCOUNT_SCHEME_IDS = [0, 1];
+
+// starknet_getClassHashAt error for addresses without a contract
+const CONTRACT_NOT_FOUND = 20;
+
+async function isDeployed(provider: ProviderInterface, address: string): Promise<boolean> {
+  try {
+    await provider.getClassHashAt(address);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (
+      (error as { code?: unknown })?.code === CONTRACT_NOT_FOUND ||
+      /contract not found/i.test(message)
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function createSigner(
+  result: ScanResult,
+  options: OpenStealthAccountOptions
+): { signer: SignerInterface; stealthPubkey: Point } {
+  if (result.keyHandle) {
+    if (!options.keyring) {
+      throw new Error('Pass the keyring that holds the scan result key');
+    }
+    return {
+      signer: new StealthKeyringSigner(options.keyring, result.keyHandle),
+      stealthPubkey: result.keyHandle.stealthPubkey,
+    };
+  }
+  if (result.spendingKey === undefined) {
+    throw new Error('Scan result has no stealth key: scan with the spending key or a keyring');
+  }
+
+  const scheme = getScheme(result.announcement!.schemeId);
+  const stealthPubkey = scheme.getPublicKey(result.spendingKey);
+  if (result.stealthPubkey && result.stealthPubkey.x !== stealthPubkey.x) {
+    throw new Error('Scan result key does not match its stealth public key');
+  }
+  return { signer: new Signer(num.toHex(result.spendingKey)), stealthPubkey };
+}
+
+/**
+ * Open the stealth account of a scan result, deploying it if needed
+ *
+ * @param result - A scan result that is ours
+ * @param provider - Provider for the returned Account
+ * @param options - Keyring, and the factory and deployer for undeployed accounts
+ * @returns An Account for the stealth address, signing with the derived key
+ * @throws if the result is not ours, has no key, or is not deployed and
+ *   cannot be deployed (including a reverted deployment)
+ */
+export async function openStealthAccount(
+  result: ScanResult,
+  provider: ProviderInterface,
+  options: OpenStealthAccountOptions = {}
+): Promise<Account> {
+  const { announcement, stealthAddress } = result;
+  if (!result.isOurs || !announcement || !stealthAddress) {
+    throw new Error('Scan result is not a payment to us');
+  }
+  if (!ACCOUNT_SCHEME_IDS.includes(announcement.schemeId)) {
+    throw new Error(`Cannot open scheme_id ${announcement.schemeId} stealth accounts`);
+  }
+  const { signer, stealthPubkey } = createSigner(result, options);
+
+  if (!(await isDeployed(provider, stealthAddress))) {
+    if (!options.factoryAddress || !options.deployer) {
+      throw new Error(
+        `Stealth account ${stealthAddress} is not deployed: pass factoryAddress and a deployer`
+      );
+    }
+    const scheme = getScheme(announcement.schemeId);
+    const salt = scheme.computeSalt(
+      scheme.decodeAnnouncementKey(announcement.ephemeralPubkeyX, announcement.ephemeralPubkeyY)
+    );
+    const factory = new StealthFactoryClient(options.factoryAddress, options.deployer, {
+      strict: options.strict,
+    });
+    const { transaction_hash } = await factory.deployStealthAccount({
+      stealthAddress,
+      stealthPubkey,
+      salt,
+    });
+    const receipt = await provider.waitForTransaction(transaction_hash);
+    const { execution_status, revert_reason } = receipt as {
+      execution_status?: string;
+      revert_reason?: string;
+    };
+    if (execution_status === 'REVERTED') {
+      const reason = revert_reason ?? 'unknown reason';
+      throw new Error(`Stealth account ${stealthAddress} deployment reverted: ${reason}`);
+    }
+  }
+
+  return new Account(provider, stealthAddress, signer, '1');
+}
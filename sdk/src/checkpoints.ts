@@ -0,0 +1,221 @@
+/**
+ * Scan Checkpoint Stores
+ *
+ * Persist incremental scanning progress (see StealthScanner options):
+ *
+ * - MemoryCheckpointStore: per-process, for tests and short-lived services
+ * - JsonFileCheckpointStore: a JSON file on disk (Node)
+ * - IndexedDbCheckpointStore: browser storage
+ *
+ * Checkpoints contain public announcement data only. They still reveal which
+ * stealth addresses are yours, so keep them as private as the wallet itself.
+ */
+
+import type { ScanCheckpoint, ScanCheckpointStore } from './types.js';
+import { deserializeAnnouncement, serializeAnnouncement } from './sources.js';
+import type { SerializedAnnouncement } from './sources.js';
+
+/** JSON form of a ScanCheckpoint */
+interface SerializedCheckpoint extends Omit<ScanCheckpoint, 'matches'> {
+  matches: SerializedAnnouncement[];
+}
+
+function serializeCheckpoint(checkpoint: ScanCheckpoint): SerializedCheckpoint {
+  return { ...checkpoint, matches: checkpoint.matches.map(serializeAnnouncement) };
+}
+
+function deserializeCheckpoint(serialized: SerializedCheckpoint): ScanCheckpoint {
+  return { ...serialized, matches: serialized.matches.map(deserializeAnnouncement) };
+}
+
+function copyCheckpoint(checkpoint: ScanCheckpoint): ScanCheckpoint {
+  return deserializeCheckpoint(serializeCheckpoint(checkpoint));
+}
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+/**
+ * MemoryCheckpointStore - Checkpoints that live as long as the process
+ */
+export class MemoryCheckpointStore implements ScanCheckpointStore {
+  private checkpoints = new Map<string, ScanCheckpoint>();
+
+  async load(key: string): Promise<ScanCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(key);
+    return checkpoint ? copyCheckpoint(checkpoint) : null;
+  }
+
+  async save(key: string, checkpoint: ScanCheckpoint): Promise<void> {
+    this.checkpoints.set(key, copyCheckpoint(checkpoint));
+  }
+
+  async clear(key: string): Promise<void> {
+    this.checkpoints.delete(key);
+  }
+}
+
+// ============================================================================
+// JSON file (Node)
+// ============================================================================
+
+/**
+ * JsonFileCheckpointStore - All checkpoints in one JSON file
+ *
+ * Writes go to a temporary file that is renamed over the original, so a
+ * crash never leaves a truncated file. Node only.
+ */
+export class JsonFileCheckpointStore implements ScanCheckpointStore {
+  private path: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(key: string): Promise<ScanCheckpoint | null> {
+    const file = await this.read();
+    return file[key] ? deserializeCheckpoint(file[key]) : null;
+  }
+
+  async save(key: string, checkpoint: ScanCheckpoint): Promise<void> {
+    await this.update((file) => {
+      file[key] = serializeCheckpoint(checkpoint);
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.update((file) => {
+      delete file[key];
+    });
+  }
+
+  private async read(): Promise<Record<string, SerializedCheckpoint>> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private update(mutate: (file: Record<string, SerializedCheckpoint>) => void): Promise<void> {
+    // Serialize read-modify-write cycles within this process
+    const next = this.pending.then(async () => {
+      const { rename, writeFile } = await import('node:fs/promises');
+      const file = await this.read();
+      mutate(file);
+      const tmp = `${this.path}.tmp`;
+      await writeFile(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(tmp, this.path);
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============================================================================
+// IndexedDB (browser)
+// ============================================================================
+
+/** Subset of the IndexedDB API used by IndexedDbCheckpointStore */
+interface IdbRequest<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IdbOpenRequest extends IdbRequest<IdbDatabase> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IdbObjectStore {
+  get(key: string): IdbRequest<unknown>;
+  put(value: unknown, key: string): IdbRequest<unknown>;
+  delete(key: string): IdbRequest<unknown>;
+}
+
+interface IdbDatabase {
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(storeName: string, mode: 'readonly' | 'readwrite'): {
+    objectStore(name: string): IdbObjectStore;
+  };
+}
+
+/**
+ * IndexedDB factory (`window.indexedDB` or a compatible implementation)
+ */
+export interface IdbFactoryLike {
+  open(name: string, version?: number): IdbOpenRequest;
+}
+
+function requestToPromise<T>(request: IdbRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDbCheckpointStore - Checkpoints in browser storage
+ */
+export class IndexedDbCheckpointStore implements ScanCheckpointStore {
+  private factory: IdbFactoryLike;
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IdbDatabase> | null = null;
+
+  /**
+   * @param options.indexedDB - IndexedDB factory (default: globalThis.indexedDB)
+   * @param options.databaseName - Database name (default: starknet-stealth)
+   * @param options.storeName - Object store name (default: scan-checkpoints)
+   */
+  constructor(
+    options: { indexedDB?: IdbFactoryLike; databaseName?: string; storeName?: string } = {}
+  ) {
+    const factory =
+      options.indexedDB ?? (globalThis as { indexedDB?: IdbFactoryLike }).indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+    this.factory = factory;
+    this.databaseName = options.databaseName ?? 'starknet-stealth';
+    this.storeName = options.storeName ?? 'scan-checkpoints';
+  }
+
+  async load(key: string): Promise<ScanCheckpoint | null> {
+    const store = await this.objectStore('readonly');
+    const value = await requestToPromise(store.get(key));
+    return value ? deserializeCheckpoint(value as SerializedCheckpoint) : null;
+  }
+
+  async save(key: string, checkpoint: ScanCheckpoint): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.put(serializeCheckpoint(checkpoint), key));
+  }
+
+  async clear(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(key));
+  }
+
+  private async objectStore(mode: 'readonly' | 'readwrite'): Promise<IdbObjectStore> {
+    if (!this.database) {
+      const request = this.factory.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this.database = requestToPromise(request);
+    }
+    const database = await this.database;
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Registry Event Decoding
+ *
+ * Events are decoded by selector (keys[0]) through an explicit table, so
+ * only events that are really announcements become Announcements. Other
+ * registry events (MetaAddressRegistered, ownership events, ...) are skipped
+ * even when they have the same number of fields.
+ *
+ * ## Announcement layouts
+ *
+ * Current:
+ * - keys: [selector, scheme_id, view_tag]
+ * - data: [ephemeral_pubkey_x, ephemeral_pubkey_y, stealth_address, metadata, index]
+ *
+ * Legacy (same selector, earlier registry deployments):
+ * - keys: [selector, view_tag]
+ * - data: [scheme_id, ephemeral_pubkey_x, ephemeral_pubkey_y, stealth_address, metadata]
+ *
+ * An ephemeral_pubkey_y of 0 marks an x-only canonical key.
+ */
+
+import { hash, num } from 'starknet';
+import type { Announcement } from './types.js';
+import { getScheme, hasScheme } from './schemes.js';
+
+/** Selector of StealthRegistry::Announcement (keys[0]) */
+export const ANNOUNCEMENT_EVENT_SELECTOR = hash.getSelectorFromName('Announcement');
+
+/**
+ * Raw event as returned by starknet_getEvents
+ */
+export interface RawRegistryEvent {
+  keys?: string[];
+  data?: string[];
+  block_number?: number;
+  block_hash?: string;
+  transaction_hash?: string;
+}
+
+/**
+ * Decoder for one event layout
+ */
+interface EventLayout {
+  /** Layout name, for diagnostics */
+  name: string;
+  /** Number of keys, including the selector */
+  keyCount: number;
+  /** Number of data felts */
+  dataCount: number;
+  decode(keys: bigint[], data: bigint[]): Omit<Announcement, 'blockNumber' | 'blockHash' | 'txHash'>;
+}
+
+const toU8 = (value: bigint): number => Number(value % 256n);
+
+const ANNOUNCEMENT_LAYOUT: EventLayout = {
+  name: 'Announcement',
+  keyCount: 3,
+  dataCount: 5,
+  decode: (keys, data) => ({
+    schemeId: toU8(keys[1]),
+    viewTag: toU8(keys[2]),
+    ephemeralPubkeyX: data[0],
+    ephemeralPubkeyY: data[1],
+    stealthAddress: num.toHex(data[2]),
+    metadata: data[3],
+    index: Number(data[4]),
+  }),
+};
+
+const LEGACY_ANNOUNCEMENT_LAYOUT: EventLayout = {
+  name: 'Announcement (legacy)',
+  keyCount: 2,
+  dataCount: 5,
+  decode: (keys, data) => ({
+    schemeId: toU8(data[0]),
+    viewTag: toU8(keys[1]),
+    ephemeralPubkeyX: data[1],
+    ephemeralPubkeyY: data[2],
+    stealthAddress: num.toHex(data[3]),
+    metadata: data[4],
+  }),
+};
+
+/** Announcement decoders keyed by event selector */
+const EVENT_DECODERS = new Map<bigint, EventLayout[]>([
+  [BigInt(ANNOUNCEMENT_EVENT_SELECTOR), [ANNOUNCEMENT_LAYOUT, LEGACY_ANNOUNCEMENT_LAYOUT]],
+]);
+
+/**
+ * Build the getEvents key filter for announcements
+ *
+ * Matches the selector alone. Key 1 is the scheme_id only in the current
+ * layout; in the legacy layout it is the view tag, so a scheme_id filter
+ * would make the node drop legacy announcements. Filter scheme ids after
+ * decoding instead.
+ */
+export function buildAnnouncementKeyFilter(): string[][] {
+  return [[ANNOUNCEMENT_EVENT_SELECTOR]];
+}
+
+/**
+ * Decode a registry event into an Announcement
+ *
+ * @returns null if the event is not an announcement (unknown selector or layout)
+ * @throws if an announcement's fields are malformed
+ */
+export function decodeAnnouncementEvent(event: RawRegistryEvent): Announcement | null {
+  const keys = (event.keys ?? []).map((key) => BigInt(key));
+  const data = (event.data ?? []).map((felt) => BigInt(felt));
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const layout = EVENT_DECODERS.get(keys[0])?.find(
+    (candidate) => candidate.keyCount === keys.length && candidate.dataCount === data.length
+  );
+  if (!layout) {
+    return null;
+  }
+
+  const announcement: Announcement = {
+    ...layout.decode(keys, data),
+    blockNumber: event.block_number,
+    blockHash: event.block_hash,
+    txHash: event.transaction_hash,
+  };
+
+  if (hasScheme(announcement.schemeId)) {
+    // Expand x-only keys (an x with no point on the curve is rejected).
+    // Full (x, y) keys are passed through unchecked; ECDH fails on bad points.
+    const scheme = getScheme(announcement.schemeId);
+    const ephemeral = scheme.encodeAnnouncementKey(
+      scheme.decodeAnnouncementKey(announcement.ephemeralPubkeyX, announcement.ephemeralPubkeyY)
+    );
+    announcement.ephemeralPubkeyX = ephemeral.x;
+    announcement.ephemeralPubkeyY = ephemeral.y;
+  }
+
+  return announcement;
+}
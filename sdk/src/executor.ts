@@ -0,0 +1,664 @@
+/**
+ * Withdrawal Executor
+ *
+ * Carries out planWithdrawals() plans: sweeps tokens from stealth accounts
+ * to a set of destinations in randomized splits and delays, so withdrawals
+ * do not link the stealth addresses by timing or amount.
+ *
+ * The schedule is persisted to a WithdrawalScheduleStore before and after
+ * every transaction, so a process that stops can be restarted with the same
+ * scan results and resumes where it left off. Each transfer is sent with a
+ * nonce reserved in the schedule first, and its hash is recorded when it is
+ * signed, before it can reach the network. After a crash the recorded
+ * transaction is confirmed if the node knows it; otherwise the transfer is
+ * resent with the same nonce, never sent twice.
+ *
+ * Usage:
+ * ```typescript
+ * const executor = new WithdrawalExecutor(results, provider, {
+ *   store: new JsonFileWithdrawalScheduleStore('./withdrawals.json'),
+ *   keyring,
+ * });
+ * await executor.plan({
+ *   destinations: [exchangeDeposit, coldWallet],
+ *   tokens: [STRK_ADDRESS],
+ *   reserves: { [STRK_ADDRESS]: FEE_RESERVE },
+ *   splits: 3,
+ *   minDelayMs: 60_000,
+ *   maxDelayMs: 3_600_000,
+ * });
+ * await executor.run(); // after a restart: just run() again
+ * ```
+ */
+
+import { cairo, CallData, hash, num, stark, transaction, uint256 } from 'starknet';
+import type {
+  AccountInterface,
+  Call,
+  DeclareSignerDetails,
+  DeployAccountSignerDetails,
+  InvocationsSignerDetails,
+  ProviderInterface,
+  Signature,
+  SignerInterface,
+  TypedData,
+} from 'starknet';
+import type {
+  ScanResult,
+  ScheduledWithdrawal,
+  WithdrawalPlanOptions,
+  WithdrawalSchedule,
+  WithdrawalScheduleStore,
+} from './types.js';
+import { openStealthAccount } from './account.js';
+import type { OpenStealthAccountOptions } from './account.js';
+import type { AbortSignalLike } from './scanner.js';
+import { planWithdrawals } from './withdrawal.js';
+
+/**
+ * What to withdraw, and where to
+ */
+export interface WithdrawalPlanParams extends WithdrawalPlanOptions {
+  /** Addresses to withdraw to; steps rotate through them */
+  destinations: string[];
+  /** ERC-20 tokens to sweep from every stealth address */
+  tokens: string[];
+  /** Amount of a token to leave in each account, e.g. for fees (by token address) */
+  reserves?: Record<string, bigint>;
+}
+
+/**
+ * Options for WithdrawalExecutor
+ */
+export interface WithdrawalExecutorOptions extends OpenStealthAccountOptions {
+  /** Where the schedule is persisted (default: in memory) */
+  store?: WithdrawalScheduleStore;
+  /** Store key of the schedule (default: 'withdrawals') */
+  scheduleKey?: string;
+  /** Longest wait between checks for due steps in run() (default: 1000) */
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_SCHEDULE_KEY = 'withdrawals';
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+// starknet_getTransactionByHash error for transactions the node does not know
+const TXN_HASH_NOT_FOUND = 29;
+
+/** JSON form of a ScheduledWithdrawal */
+interface SerializedWithdrawal extends Omit<ScheduledWithdrawal, 'amount'> {
+  amount: string;
+}
+
+interface SerializedSchedule extends Omit<WithdrawalSchedule, 'steps'> {
+  steps: SerializedWithdrawal[];
+}
+
+function serializeSchedule(schedule: WithdrawalSchedule): SerializedSchedule {
+  return {
+    ...schedule,
+    steps: schedule.steps.map((step) => ({ ...step, amount: step.amount.toString() })),
+  };
+}
+
+function deserializeSchedule(serialized: SerializedSchedule): WithdrawalSchedule {
+  return {
+    ...serialized,
+    steps: serialized.steps.map((step) => ({ ...step, amount: BigInt(step.amount) })),
+  };
+}
+
+function copySchedule(schedule: WithdrawalSchedule): WithdrawalSchedule {
+  return deserializeSchedule(serializeSchedule(schedule));
+}
+
+const addressKey = (address: string) => num.toHex(address);
+
+const isUnfinished = (step: ScheduledWithdrawal) =>
+  step.status === 'pending' || step.status === 'sending' || step.status === 'submitted';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function findStep(schedule: WithdrawalSchedule, id: string): ScheduledWithdrawal {
+  const step = schedule.steps.find((candidate) => candidate.id === id);
+  if (!step) {
+    throw new Error(`Unknown withdrawal step ${id}`);
+  }
+  return step;
+}
+
+function transferCall(step: ScheduledWithdrawal): Call {
+  return {
+    contractAddress: step.token,
+    entrypoint: 'transfer',
+    calldata: CallData.compile({
+      recipient: step.destination,
+      amount: cairo.uint256(step.amount),
+    }),
+  };
+}
+
+/**
+ * Whether the node refused a request with a Starknet error, rather than the
+ * request failing in transport (timeout, dropped connection, gateway error)
+ */
+function isNodeRejection(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  // Starknet RPC errors are positive; JSON-RPC server errors are negative
+  return typeof code === 'number' && code > 0;
+}
+
+/** waitForTransaction()'s error for a transaction the sequencer rejected */
+function isRejectedTransaction(error: unknown): boolean {
+  const status = (error as { response?: { finality_status?: unknown; execution_status?: unknown } })
+    ?.response;
+  return status?.finality_status === 'REJECTED' || status?.execution_status === 'REJECTED';
+}
+
+async function isKnownTransaction(provider: ProviderInterface, txHash: string): Promise<boolean> {
+  try {
+    await provider.getTransaction(txHash);
+    return true;
+  } catch (error) {
+    if (
+      (error as { code?: unknown })?.code === TXN_HASH_NOT_FOUND ||
+      /transaction hash not found/i.test(errorMessage(error))
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/** The hash Signer.signTransaction() signs for an invoke transaction */
+function invokeTransactionHash(calls: Call[], details: InvocationsSignerDetails): string {
+  const compiledCalldata = transaction.getExecuteCalldata(calls, details.cairoVersion);
+  if ('resourceBounds' in details) {
+    return hash.calculateInvokeTransactionHash({
+      ...details,
+      senderAddress: details.walletAddress,
+      compiledCalldata,
+      nonceDataAvailabilityMode: stark.intDAM(details.nonceDataAvailabilityMode),
+      feeDataAvailabilityMode: stark.intDAM(details.feeDataAvailabilityMode),
+    });
+  }
+  return hash.calculateInvokeTransactionHash({
+    ...details,
+    senderAddress: details.walletAddress,
+    compiledCalldata,
+  });
+}
+
+/**
+ * Signer that reports the hash of each invoke transaction before signing it
+ */
+class HashRecordingSigner implements SignerInterface {
+  private signer: SignerInterface;
+  private onSign: (transactionHash: string) => Promise<void>;
+
+  constructor(signer: SignerInterface, onSign: (transactionHash: string) => Promise<void>) {
+    this.signer = signer;
+    this.onSign = onSign;
+  }
+
+  getPubKey(): Promise<string> {
+    return this.signer.getPubKey();
+  }
+
+  signMessage(typedData: TypedData, accountAddress: string): Promise<Signature> {
+    return this.signer.signMessage(typedData, accountAddress);
+  }
+
+  async signTransaction(calls: Call[], details: InvocationsSignerDetails): Promise<Signature> {
+    await this.onSign(invokeTransactionHash(calls, details));
+    return this.signer.signTransaction(calls, details);
+  }
+
+  signDeployAccountTransaction(details: DeployAccountSignerDetails): Promise<Signature> {
+    return this.signer.signDeployAccountTransaction(details);
+  }
+
+  signDeclareTransaction(details: DeclareSignerDetails): Promise<Signature> {
+    return this.signer.signDeclareTransaction(details);
+  }
+}
+
+// ============================================================================
+// Schedule stores
+// ============================================================================
+
+/**
+ * MemoryWithdrawalScheduleStore - Schedules that live as long as the process
+ *
+ * Cannot resume after a crash; use JsonFileWithdrawalScheduleStore for that.
+ */
+export class MemoryWithdrawalScheduleStore implements WithdrawalScheduleStore {
+  private schedules = new Map<string, WithdrawalSchedule>();
+
+  async load(key: string): Promise<WithdrawalSchedule | null> {
+    const schedule = this.schedules.get(key);
+    return schedule ? copySchedule(schedule) : null;
+  }
+
+  async save(key: string, schedule: WithdrawalSchedule): Promise<void> {
+    this.schedules.set(key, copySchedule(schedule));
+  }
+
+  async clear(key: string): Promise<void> {
+    this.schedules.delete(key);
+  }
+}
+
+/**
+ * JsonFileWithdrawalScheduleStore - All schedules in one JSON file
+ *
+ * Written atomically (temporary file, then rename). Node only.
+ */
+export class JsonFileWithdrawalScheduleStore implements WithdrawalScheduleStore {
+  private path: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(key: string): Promise<WithdrawalSchedule | null> {
+    const file = await this.read();
+    return file[key] ? deserializeSchedule(file[key]) : null;
+  }
+
+  async save(key: string, schedule: WithdrawalSchedule): Promise<void> {
+    await this.update((file) => {
+      file[key] = serializeSchedule(schedule);
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.update((file) => {
+      delete file[key];
+    });
+  }
+
+  private async read(): Promise<Record<string, SerializedSchedule>> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private update(mutate: (file: Record<string, SerializedSchedule>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const { rename, writeFile } = await import('node:fs/promises');
+      const file = await this.read();
+      mutate(file);
+      const tmp = `${this.path}.tmp`;
+      await writeFile(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(tmp, this.path);
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============================================================================
+// Executor
+// ============================================================================
+
+/**
+ * WithdrawalExecutor - Runs persisted withdrawal schedules
+ */
+export class WithdrawalExecutor {
+  private results = new Map<string, ScanResult>();
+  private accounts = new Map<string, Promise<AccountInterface>>();
+  private provider: ProviderInterface;
+  private accountOptions: OpenStealthAccountOptions;
+  private store: WithdrawalScheduleStore;
+  private scheduleKey: string;
+  private pollIntervalMs: number;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param results - Scan results of the stealth addresses to withdraw from
+   * @param provider - Provider for balances, receipts and the stealth accounts
+   * @param options - Schedule store, and how to open (and deploy) the accounts
+   */
+  constructor(
+    results: ScanResult[],
+    provider: ProviderInterface,
+    options: WithdrawalExecutorOptions = {}
+  ) {
+    for (const result of results) {
+      if (result.isOurs && result.stealthAddress) {
+        this.results.set(addressKey(result.stealthAddress), result);
+      }
+    }
+    const { store, scheduleKey, pollIntervalMs, ...accountOptions } = options;
+    this.provider = provider;
+    this.accountOptions = accountOptions;
+    this.store = store ?? new MemoryWithdrawalScheduleStore();
+    this.scheduleKey = scheduleKey ?? DEFAULT_SCHEDULE_KEY;
+    this.pollIntervalMs = pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Plan withdrawals of every token balance and persist the schedule
+   *
+   * Each stealth address and token gets its own planWithdrawals() plan; its
+   * steps fall due one after another, each delayMs after the previous.
+   *
+   * @throws if the stored schedule still has unfinished steps
+   */
+  async plan(params: WithdrawalPlanParams): Promise<WithdrawalSchedule> {
+    if (params.destinations.length === 0) {
+      throw new Error('destinations must not be empty');
+    }
+    if (params.tokens.length === 0) {
+      throw new Error('tokens must not be empty');
+    }
+
+    const createdAt = Date.now();
+    const steps: ScheduledWithdrawal[] = [];
+    for (const stealthAddress of this.results.keys()) {
+      for (const token of params.tokens) {
+        const amount =
+          (await this.readBalance(token, stealthAddress)) - this.reserveFor(params, token);
+        if (amount <= 0n) {
+          continue;
+        }
+        let executeAt = createdAt;
+        planWithdrawals(amount, params).forEach((step, index) => {
+          executeAt += step.delayMs;
+          steps.push({
+            id: `${stealthAddress}:${addressKey(token)}:${index}`,
+            stealthAddress,
+            token,
+            destination: params.destinations[steps.length % params.destinations.length],
+            amount: step.amount,
+            executeAt,
+            status: 'pending',
+          });
+        });
+      }
+    }
+
+    const schedule: WithdrawalSchedule = { createdAt, steps };
+    await this.serialize(async () => {
+      const stored = await this.store.load(this.scheduleKey);
+      if (stored?.steps.some(isUnfinished)) {
+        throw new Error('A withdrawal schedule is still running: finish or cancel it first');
+      }
+      await this.store.save(this.scheduleKey, schedule);
+    });
+    return copySchedule(schedule);
+  }
+
+  /**
+   * The persisted schedule
+   */
+  async getSchedule(): Promise<WithdrawalSchedule> {
+    const schedule = await this.store.load(this.scheduleKey);
+    if (!schedule) {
+      throw new Error('No withdrawal schedule: call plan() first');
+    }
+    return schedule;
+  }
+
+  /**
+   * Cancel a pending step
+   *
+   * @throws if the step is not pending (already sent, finished or cancelled)
+   */
+  async cancel(id: string): Promise<void> {
+    await this.updateSchedule((schedule) => {
+      const step = findStep(schedule, id);
+      if (step.status !== 'pending') {
+        throw new Error(`Cannot cancel a ${step.status} withdrawal`);
+      }
+      step.status = 'cancelled';
+    });
+  }
+
+  /**
+   * Finish steps interrupted by a crash, then execute the steps that are due
+   *
+   * A step that fails is marked failed (with the error) and the rest go on.
+   * A step whose transfer may be in flight when an error occurs (a timeout
+   * or dropped connection) keeps its state and the error, and is looked at
+   * again on the next call.
+   *
+   * @returns The steps handled, in their new state
+   */
+  async executeDue(): Promise<ScheduledWithdrawal[]> {
+    const schedule = await this.getSchedule();
+    const handled = new Set<string>();
+
+    for (const step of schedule.steps) {
+      if (step.status === 'sending') {
+        await this.resend(step);
+        handled.add(step.id);
+      } else if (step.status === 'submitted') {
+        await this.confirm(step);
+        handled.add(step.id);
+      }
+    }
+
+    const now = Date.now();
+    const due = schedule.steps
+      .filter((step) => step.status === 'pending' && step.executeAt <= now)
+      .sort((a, b) => a.executeAt - b.executeAt);
+    for (const step of due) {
+      if (await this.execute(step)) {
+        handled.add(step.id);
+      }
+    }
+
+    return (await this.getSchedule()).steps.filter((step) => handled.has(step.id));
+  }
+
+  /**
+   * Execute steps as they fall due until none are pending
+   *
+   * @param options.signal - Stops waiting for the next step when aborted
+   * @returns The finished schedule
+   */
+  async run(options: { signal?: AbortSignalLike } = {}): Promise<WithdrawalSchedule> {
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason ?? new Error('Withdrawals aborted');
+      }
+      await this.executeDue();
+
+      const unfinished = (await this.getSchedule()).steps.filter(isUnfinished);
+      if (unfinished.length === 0) {
+        return this.getSchedule();
+      }
+      // Steps already sent are retried after the poll interval
+      const pending = unfinished.filter((step) => step.status === 'pending');
+      const nextAt = Math.min(...pending.map((step) => step.executeAt), Infinity);
+      const waitMs = Math.min(Math.max(nextAt - Date.now(), 0), this.pollIntervalMs);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // ==========================================================================
+  // Steps
+  // ==========================================================================
+
+  /** Reserve a nonce for a pending step and send it; false if it was cancelled */
+  private async execute(step: ScheduledWithdrawal): Promise<boolean> {
+    let account: AccountInterface;
+    let nonce: string;
+    try {
+      account = await this.openAccount(step.stealthAddress);
+      nonce = num.toHex(await account.getNonce());
+    } catch (error) {
+      return this.fail(step, error);
+    }
+
+    const claimed = await this.updateSchedule((schedule) => {
+      const current = findStep(schedule, step.id);
+      if (current.status !== 'pending') {
+        return false;
+      }
+      current.status = 'sending';
+      current.nonce = nonce;
+      return true;
+    });
+    if (claimed) {
+      await this.send({ ...step, status: 'sending', nonce }, account);
+    }
+    return claimed;
+  }
+
+  /** Resume a step that stopped after reserving its nonce */
+  private async resend(step: ScheduledWithdrawal): Promise<void> {
+    let account: AccountInterface;
+    let nonce: bigint;
+    try {
+      if (step.transactionHash && (await isKnownTransaction(this.provider, step.transactionHash))) {
+        // The transfer went out before the process stopped
+        await this.updateStep(step.id, { status: 'submitted' });
+        await this.confirm({ ...step, status: 'submitted' });
+        return;
+      }
+      account = await this.openAccount(step.stealthAddress);
+      nonce = num.toBigInt(await account.getNonce());
+    } catch (error) {
+      await this.retryLater(step, error);
+      return;
+    }
+    if (nonce > num.toBigInt(step.nonce!)) {
+      // Ours would have been recorded and known: the nonce went to another transaction
+      await this.fail(step, new Error(`Nonce ${step.nonce} was used by another transaction`));
+      return;
+    }
+    await this.send(step, account);
+  }
+
+  private async send(step: ScheduledWithdrawal, account: AccountInterface): Promise<void> {
+    let transactionHash: string;
+    const { signer } = account;
+    account.signer = new HashRecordingSigner(signer, (signedHash) =>
+      this.updateStep(step.id, { transactionHash: signedHash })
+    );
+    try {
+      ({ transaction_hash: transactionHash } = await account.execute(transferCall(step), {
+        nonce: step.nonce,
+      }));
+    } catch (error) {
+      // Only a refusal by the node is final: after a timeout the transfer may
+      // still land, and resend() checks its recorded hash and the nonce
+      await (isNodeRejection(error) ? this.fail(step, error) : this.retryLater(step, error));
+      return;
+    } finally {
+      account.signer = signer;
+    }
+    await this.updateStep(step.id, { status: 'submitted', transactionHash });
+    await this.confirm({ ...step, status: 'submitted', transactionHash });
+  }
+
+  private async confirm(step: ScheduledWithdrawal): Promise<void> {
+    let receipt: unknown;
+    try {
+      receipt = await this.provider.waitForTransaction(step.transactionHash!);
+    } catch (error) {
+      // Anything but a rejection may be a timeout: the transaction can still land
+      await (isRejectedTransaction(error) ? this.fail(step, error) : this.retryLater(step, error));
+      return;
+    }
+    // waitForTransaction resolves for reverted transactions too
+    const { execution_status, revert_reason } = receipt as {
+      execution_status?: string;
+      revert_reason?: string;
+    };
+    if (execution_status === 'REVERTED') {
+      await this.fail(step, new Error(`Transfer reverted: ${revert_reason ?? 'unknown reason'}`));
+      return;
+    }
+    await this.updateStep(step.id, { status: 'done', error: undefined });
+  }
+
+  /** Keep a step's state and note the error; executeDue() picks it up again */
+  private async retryLater(step: ScheduledWithdrawal, error: unknown): Promise<void> {
+    await this.updateStep(step.id, { error: errorMessage(error) });
+  }
+
+  private async fail(step: ScheduledWithdrawal, error: unknown): Promise<false> {
+    await this.updateSchedule((schedule) => {
+      const current = findStep(schedule, step.id);
+      // A step cancelled while its account was being opened stays cancelled
+      if (current.status !== 'cancelled') {
+        current.status = 'failed';
+        current.error = errorMessage(error);
+      }
+    });
+    return false;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private openAccount(stealthAddress: string): Promise<AccountInterface> {
+    const key = addressKey(stealthAddress);
+    let account = this.accounts.get(key);
+    if (!account) {
+      const result = this.results.get(key);
+      if (!result) {
+        return Promise.reject(new Error(`No scan result for stealth address ${stealthAddress}`));
+      }
+      account = openStealthAccount(result, this.provider, this.accountOptions);
+      // Do not cache a failed open (e.g. a deployment that did not go through)
+      account.catch(() => {
+        if (this.accounts.get(key) === account) {
+          this.accounts.delete(key);
+        }
+      });
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  private async readBalance(token: string, address: string): Promise<bigint> {
+    const [low, high] = await this.provider.callContract({
+      contractAddress: token,
+      entrypoint: 'balance_of',
+      calldata: CallData.compile({ account: address }),
+    });
+    return uint256.uint256ToBN({ low, high });
+  }
+
+  private reserveFor(params: WithdrawalPlanParams, token: string): bigint {
+    const entry = Object.entries(params.reserves ?? {}).find(
+      ([reserveToken]) => addressKey(reserveToken) === addressKey(token)
+    );
+    return entry?.[1] ?? 0n;
+  }
+
+  private updateStep(id: string, changes: Partial<ScheduledWithdrawal>): Promise<void> {
+    return this.updateSchedule((schedule) => {
+      Object.assign(findStep(schedule, id), changes);
+    });
+  }
+
+  private updateSchedule<T>(mutate: (schedule: WithdrawalSchedule) => T): Promise<T> {
+    return this.serialize(async () => {
+      const schedule = await this.getSchedule();
+      const value = mutate(schedule);
+      await this.store.save(this.scheduleKey, schedule);
+      return value;
+    });
+  }
+
+  /** Run read-modify-write cycles of the schedule one at a time */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(task);
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
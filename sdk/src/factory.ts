@@ -0,0 +1,222 @@
+/**
+ * StealthAccountFactory Client
+ *
+ * Typed access to the factory with the bundled ABI: account deployment,
+ * on-chain address computation and the account class hash, so callers do
+ * not need to hard-code it.
+ *
+ * In strict mode the client checks its local address computation
+ * (computeStealthContractAddress) against the factory's
+ * compute_stealth_address before deploying, so a wrong class hash or factory
+ * address is caught before funds are sent to an address nobody controls.
+ *
+ * The factory's `is_deployed_by_factory` and `verify_address` are internal
+ * (not in its ABI): isDeployedByFactory() reads the `deployed_accounts`
+ * storage map instead, and verifyAddress() compares against
+ * compute_stealth_address, as the contract does.
+ *
+ * The factory deploys STARK curve StealthAccounts (scheme_id 0 and 1).
+ */
+
+import { CallData, Contract, ec, hash, num } from 'starknet';
+import type {
+  AccountInterface,
+  BlockIdentifier,
+  Call,
+  InvokeFunctionResponse,
+  ProviderInterface,
+} from 'starknet';
+import type { Point, StealthAddressResult } from './types.js';
+import { STEALTH_ACCOUNT_FACTORY_ABI } from './abi.js';
+import { computeStealthContractAddress } from './stealth.js';
+
+/**
+ * Options for StealthFactoryClient
+ */
+export interface StealthFactoryClientOptions {
+  /** Check addresses against the factory before deploying (default: false) */
+  strict?: boolean;
+}
+
+/** Stealth address, key and salt to deploy or check */
+export type StealthDeployment = Pick<
+  StealthAddressResult,
+  'stealthAddress' | 'stealthPubkey' | 'salt'
+>;
+
+const factoryCallData = new CallData(STEALTH_ACCOUNT_FACTORY_ABI);
+
+// Storage addresses are reduced below 2^251 - 256
+const STORAGE_ADDRESS_BOUND = 2n ** 251n - 256n;
+const DEPLOYED_ACCOUNTS_BASE = hash.starknetKeccak('deployed_accounts');
+
+const sameAddress = (a: string, b: string) => num.toBigInt(a) === num.toBigInt(b);
+
+/**
+ * StealthFactoryClient - Typed StealthAccountFactory calls
+ *
+ * Usage:
+ * ```typescript
+ * const factory = new StealthFactoryClient(factoryAddress, account, { strict: true });
+ * const accountClassHash = await factory.getAccountClassHash();
+ * const result = generateStealthAddress(meta, factory.address, accountClassHash);
+ * await factory.assertStealthAddress(result); // before sending funds
+ * ```
+ */
+export class StealthFactoryClient {
+  readonly address: string;
+  readonly strict: boolean;
+  private providerOrAccount: ProviderInterface | AccountInterface;
+  private contract: Contract;
+  private accountClassHash: Promise<string> | null = null;
+
+  /**
+   * @param address - StealthAccountFactory contract address
+   * @param providerOrAccount - Provider for reads, Account for deployments too
+   * @param options - Strict mode
+   */
+  constructor(
+    address: string,
+    providerOrAccount: ProviderInterface | AccountInterface,
+    options: StealthFactoryClientOptions = {}
+  ) {
+    this.address = address;
+    this.strict = options.strict ?? false;
+    this.providerOrAccount = providerOrAccount;
+    this.contract = new Contract(STEALTH_ACCOUNT_FACTORY_ABI, address, providerOrAccount);
+  }
+
+  // ==========================================================================
+  // Reads
+  // ==========================================================================
+
+  /**
+   * StealthAccount class hash deployed by the factory (read once, then cached)
+   */
+  getAccountClassHash(): Promise<string> {
+    if (!this.accountClassHash) {
+      const read = this.contract
+        .call('get_account_class_hash', [])
+        .then((classHash) => num.toHex(classHash as bigint));
+      // Do not cache a failed read
+      read.catch(() => {
+        if (this.accountClassHash === read) {
+          this.accountClassHash = null;
+        }
+      });
+      this.accountClassHash = read;
+    }
+    return this.accountClassHash;
+  }
+
+  /**
+   * Number of accounts deployed through the factory
+   */
+  async getDeploymentCount(blockIdentifier?: BlockIdentifier): Promise<number> {
+    const count = (await this.contract.call('get_deployment_count', [], {
+      blockIdentifier,
+    })) as bigint;
+    return Number(count);
+  }
+
+  /**
+   * Stealth address as computed by the factory (compute_stealth_address)
+   */
+  async computeStealthAddress(stealthPubkey: Point, salt: bigint): Promise<string> {
+    const address = (await this.contract.call('compute_stealth_address', [
+      stealthPubkey.x,
+      stealthPubkey.y,
+      salt,
+    ])) as bigint;
+    return num.toHex(address);
+  }
+
+  /**
+   * Stealth address computed locally, with the factory's class hash
+   */
+  async computeLocalStealthAddress(stealthPubkey: Point, salt: bigint): Promise<string> {
+    return computeStealthContractAddress({
+      classHash: await this.getAccountClassHash(),
+      deployerAddress: this.address,
+      salt,
+      constructorCalldata: [stealthPubkey.x, stealthPubkey.y],
+    });
+  }
+
+  /**
+   * Whether the factory computes `expected` for this key and salt
+   */
+  async verifyAddress(expected: string, stealthPubkey: Point, salt: bigint): Promise<boolean> {
+    return sameAddress(await this.computeStealthAddress(stealthPubkey, salt), expected);
+  }
+
+  /**
+   * Whether the factory has deployed an account at this address
+   */
+  async isDeployedByFactory(address: string, blockIdentifier?: BlockIdentifier): Promise<boolean> {
+    const key =
+      num.toBigInt(ec.starkCurve.pedersen(DEPLOYED_ACCOUNTS_BASE, num.toBigInt(address))) %
+      STORAGE_ADDRESS_BOUND;
+    const value = await this.providerOrAccount.getStorageAt(this.address, key, blockIdentifier);
+    return num.toBigInt(value) !== 0n;
+  }
+
+  /**
+   * Check a stealth address against the local and on-chain computations
+   *
+   * @throws if either computation gives another address
+   */
+  async assertStealthAddress(deployment: StealthDeployment): Promise<void> {
+    const { stealthAddress, stealthPubkey, salt } = deployment;
+    const [local, onChain] = await Promise.all([
+      this.computeLocalStealthAddress(stealthPubkey, salt),
+      this.computeStealthAddress(stealthPubkey, salt),
+    ]);
+    if (!sameAddress(local, onChain)) {
+      throw new Error(
+        `Stealth address mismatch: computed ${local} locally, factory computed ${onChain}`
+      );
+    }
+    if (!sameAddress(local, stealthAddress)) {
+      throw new Error(
+        `Stealth address mismatch: expected ${stealthAddress}, computed ${local}`
+      );
+    }
+  }
+
+  // ==========================================================================
+  // Writes (need an Account)
+  // ==========================================================================
+
+  /**
+   * Deploy the stealth account (strict mode checks the address first)
+   */
+  async deployStealthAccount(deployment: StealthDeployment): Promise<InvokeFunctionResponse> {
+    if (!('execute' in this.providerOrAccount)) {
+      throw new Error('Factory deployments need an Account');
+    }
+    if (this.strict) {
+      await this.assertStealthAddress(deployment);
+    }
+    return this.providerOrAccount.execute(this.buildDeployCall(deployment));
+  }
+
+  // ==========================================================================
+  // Calldata builders (for multicalls)
+  // ==========================================================================
+
+  /**
+   * deploy_stealth_account call
+   */
+  buildDeployCall(deployment: Pick<StealthDeployment, 'stealthPubkey' | 'salt'>): Call {
+    return {
+      contractAddress: this.address,
+      entrypoint: 'deploy_stealth_account',
+      calldata: factoryCallData.compile('deploy_stealth_account', {
+        stealth_pubkey_x: deployment.stealthPubkey.x,
+        stealth_pubkey_y: deployment.stealthPubkey.y,
+        salt: deployment.salt,
+      }),
+    };
+  }
+}
@@ -37,14 +37,41 @@
 export type {
   Point,
   StealthMetaAddress,
+  ParsedMetaAddressUri,
   EphemeralKeyPair,
+  StealthKeySet,
+  KeyDerivationOptions,
+  SignatureDerivedKeys,
   StealthAddressResult,
+  StealthAddressOptions,
+  StealthPaymentRequest,
+  StealthPaymentOptions,
+  StealthPayment,
+  RandomBytesFn,
   Announcement,
   ScanResult,
   StealthConfig,
   AddressComputationInput,
   WithdrawalPlanOptions,
   WithdrawalStep,
+  WithdrawalStatus,
+  ScheduledWithdrawal,
+  WithdrawalSchedule,
+  WithdrawalScheduleStore,
+  WatchOnlyKeySet,
+  ViewingBundle,
+  ViewingBundleContext,
+  DecodedViewingBundle,
+  StealthKeystore,
+  KeystoreOptions,
+  DecryptedKeystore,
+  StealthKeyHandle,
+  ScanCheckpoint,
+  ScanCheckpointStore,
+  AnnouncementSource,
+  ScannedBlock,
+  ScanReorg,
+  ConfirmationDepth,
 } from './types.js';
 
 // Key generation and ECDH
@@ -55,20 +82,155 @@ export {
   generateEphemeralKeyPair,
   createMetaAddress,
   computeSharedSecret,
+  computeNormalizedSharedSecret,
   hashSharedSecret,
+  hashSharedSecretWithViewTag,
   computeViewTag,
   isPointOnCurve,
+  compressPoint,
+  decompressPoint,
   deriveStealthPubkey,
+  deriveStealthKeysFromHash,
   generateStealthAddress,
+  computeStealthSalt,
   computeStealthContractAddress,
   deriveStealthPrivateKey,
+  deriveStealthPrivateKeyFromHash,
   checkViewTag,
   verifyStealthAddress,
   encodeMetaAddress,
   decodeMetaAddress,
 } from './stealth.js';
 
+// Scheme registry
+export type { StealthScheme } from './schemes.js';
+export {
+  registerScheme,
+  unregisterScheme,
+  getScheme,
+  hasScheme,
+  listSchemes,
+  STARK_SINGLE_KEY_SCHEME,
+  STARK_DUAL_KEY_SCHEME,
+} from './schemes.js';
+
+// secp256k1 / ERC-5564 (scheme 2)
+export {
+  SECP256K1_SCHEME,
+  SECP256K1_SCHEME_ID,
+  ERC5564_META_ADDRESS_PREFIX,
+  createSecp256k1MetaAddress,
+  formatErc5564MetaAddress,
+  parseErc5564MetaAddress,
+  compressSecp256k1Point,
+  decompressSecp256k1Point,
+  computeEthereumAddress,
+} from './secp256k1.js';
+
+// Meta-address URI
+export {
+  formatMetaAddressUri,
+  parseMetaAddressUri,
+  META_ADDRESS_URI_PREFIX,
+} from './uri.js';
+
+// Payment requests
+export {
+  encodePaymentRequest,
+  parsePaymentRequest,
+  isPaymentRequestExpired,
+  generateStealthPayment,
+  MAX_PAYMENT_MEMO_LENGTH,
+} from './request.js';
+
+// Deterministic key derivation
+export {
+  generateMnemonic,
+  isValidMnemonic,
+  getStealthKeyPath,
+  deriveStealthKeys,
+  buildKeyDerivationTypedData,
+  deriveKeysFromSignature,
+  deriveKeysFromSignatureValue,
+  STEALTH_DERIVATION_LAYER,
+  STEALTH_DERIVATION_APPLICATION,
+  KEY_DERIVATION_MESSAGE_VERSION,
+} from './keys.js';
+
+// Encrypted keystore
+export {
+  encryptKeystore,
+  encryptWatchOnlyKeystore,
+  decryptKeystore,
+  changeKeystorePassword,
+  KEYSTORE_VERSION,
+} from './keystore.js';
+
+// View-only scanning
+export {
+  createViewingBundle,
+  parseViewingBundle,
+  deriveMatchSpendingKey,
+  VIEWING_BUNDLE_VERSION,
+} from './viewing.js';
+
+// Keyring (keys in wipeable memory)
+export type { KeyringAnnouncementCheck } from './keyring.js';
+export { StealthKeyring, StealthKeyringSigner } from './keyring.js';
+
+// Registry events
+export type { RawRegistryEvent } from './events.js';
+export {
+  ANNOUNCEMENT_EVENT_SELECTOR,
+  buildAnnouncementKeyFilter,
+  decodeAnnouncementEvent,
+} from './events.js';
+
+// Scan checkpoints
+export type { IdbFactoryLike } from './checkpoints.js';
+export {
+  MemoryCheckpointStore,
+  JsonFileCheckpointStore,
+  IndexedDbCheckpointStore,
+} from './checkpoints.js';
+
+// Contracts
+export {
+  STEALTH_REGISTRY_ABI,
+  STEALTH_ACCOUNT_FACTORY_ABI,
+  STEALTH_ACCOUNT_ABI,
+} from './abi.js';
+export type { AnnouncementInput } from './registry.js';
+export { StealthRegistryClient } from './registry.js';
+export type { StealthFactoryClientOptions, StealthDeployment } from './factory.js';
+export { StealthFactoryClient } from './factory.js';
+export type { StealthPayParams, StealthPaymentRecord, StealthSenderOptions } from './sender.js';
+export { StealthSender } from './sender.js';
+export type { OpenStealthAccountOptions } from './account.js';
+export { openStealthAccount } from './account.js';
+
+// Announcement sources
+export type { SerializedAnnouncement, FetchLike, RpcFetchOptions } from './sources.js';
+export {
+  RpcAnnouncementSource,
+  HttpIndexerAnnouncementSource,
+  MemoryAnnouncementSource,
+  ArchiveAnnouncementSource,
+  serializeAnnouncement,
+  deserializeAnnouncement,
+  formatAnnouncementArchive,
+} from './sources.js';
+
 // Scanner
+export type {
+  RecipientKeys,
+  ScanArgs,
+  ScanOptions,
+  ScanProgress,
+  AbortSignalLike,
+  BatchScanMatch,
+  StealthScannerOptions,
+} from './scanner.js';
 export {
   StealthScanner,
   BatchScanner,
@@ -76,13 +238,47 @@ export {
   expectedFalsePositiveRate,
 } from './scanner.js';
 
+// Single-pass matching
+export type { RawRecipientKeys, AnnouncementMatch, AnnouncementCheck } from './matcher.js';
+export { AnnouncementMatcher } from './matcher.js';
+
+// Worker pool
+export type {
+  ScanWorkerRecipient,
+  ScanWorkerRequest,
+  ScanWorkerMatch,
+  ScanWorkerResponse,
+  ScanWorkerLike,
+  ScanWorkerFactory,
+  ScanWorkerPoolOptions,
+  ScanWorkerPoolResult,
+} from './pool.js';
+export { ScanWorkerPool, runScanTask } from './pool.js';
+
+// Live watching
+export type {
+  WatchOptions,
+  WatchProgress,
+  StealthSubscriptionEvents,
+  WebSocketLike,
+  WebSocketFactory,
+} from './watch.js';
+export { StealthSubscription } from './watch.js';
+
 // Withdrawal helpers
 export { planWithdrawals } from './withdrawal.js';
+export type { WithdrawalPlanParams, WithdrawalExecutorOptions } from './executor.js';
+export {
+  WithdrawalExecutor,
+  MemoryWithdrawalScheduleStore,
+  JsonFileWithdrawalScheduleStore,
+} from './executor.js';
 
 // Constants
 export const SCHEME_ID = {
   SINGLE_KEY: 0,
   DUAL_KEY: 1,
+  SECP256K1: 2,
 } as const;
 
 export const VIEW_TAG_BITS = 8;
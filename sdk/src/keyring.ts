@@ -0,0 +1,344 @@
+/**
+ * Stealth Keyring
+ *
+ * Owns a recipient's spending and viewing keys in wipeable byte buffers and
+ * performs every private-key operation internally: ECDH, view tag checks,
+ * stealth key derivation and signing. Derived stealth keys never leave the
+ * keyring; callers get opaque handles instead. Scans use match(), which
+ * checks an announcement in one pass, as AnnouncementMatcher does for raw keys.
+ *
+ * JavaScript bigints cannot be zeroized, so scalars still exist briefly while
+ * an operation runs. The keyring keeps that window to a single call and lets
+ * callers erase everything with wipe().
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * const keyring = StealthKeyring.fromKeys({ spendingKey, viewingKey });
+ * const results = await scanner.scan(keyring);
+ * const signer = new StealthKeyringSigner(keyring, results[0].keyHandle!);
+ * // ...
+ * keyring.wipe();
+ * ```
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { ec, num, Signer } from 'starknet';
+import type { Signature } from 'starknet';
+import type {
+  Announcement,
+  Point,
+  StealthKeyHandle,
+  StealthKeySet,
+  StealthMetaAddress,
+  ViewingBundle,
+  ViewingBundleContext,
+} from './types.js';
+import { createMetaAddress, normalizePrivateKey, verifyStealthAddress } from './stealth.js';
+import { getScheme, hasScheme } from './schemes.js';
+import type { StealthScheme } from './schemes.js';
+import { createViewingBundle } from './viewing.js';
+
+const SCALAR_BYTES = 32;
+
+/**
+ * Outcome of StealthKeyring.match()
+ */
+export interface KeyringAnnouncementCheck {
+  /** Whether the view tag matched (includes false positives) */
+  viewTagMatches: boolean;
+  /** Handle to the derived key, when the stealth address is ours */
+  keyHandle: StealthKeyHandle | null;
+}
+
+const NO_MATCH: KeyringAnnouncementCheck = { viewTagMatches: false, keyHandle: null };
+
+function scalarToBytes(scalar: bigint): Uint8Array {
+  return hexToBytes(scalar.toString(16).padStart(SCALAR_BYTES * 2, '0'));
+}
+
+function bytesToScalar(bytes: Uint8Array): bigint {
+  return BigInt('0x' + bytesToHex(bytes));
+}
+
+/**
+ * StealthKeyring - Holds stealth keys in wipeable memory
+ */
+export class StealthKeyring {
+  private spendingKey: Uint8Array;
+  private viewingKey: Uint8Array;
+  private derivedKeys = new Map<StealthKeyHandle, Uint8Array>();
+  private wiped = false;
+
+  /** Public meta-address for the keys held by this keyring */
+  public readonly metaAddress: StealthMetaAddress;
+
+  private constructor(spendingKey: bigint, viewingKey: bigint) {
+    this.spendingKey = scalarToBytes(normalizePrivateKey(spendingKey));
+    this.viewingKey = scalarToBytes(normalizePrivateKey(viewingKey));
+    this.metaAddress = createMetaAddress(spendingKey, viewingKey);
+  }
+
+  /**
+   * Create a keyring from spending and viewing private keys
+   *
+   * Security: drop your own references to the scalars after this call.
+   */
+  static fromKeys(keys: StealthKeySet): StealthKeyring {
+    return new StealthKeyring(keys.spendingKey, keys.viewingKey);
+  }
+
+  /** Spending public key (K) */
+  get spendingPubkey(): Point {
+    return this.metaAddress.spendingKey;
+  }
+
+  /** Whether wipe() has been called */
+  get isWiped(): boolean {
+    return this.wiped;
+  }
+
+  /**
+   * Check an announcement's view tag with the viewing key
+   *
+   * @param scheme - Scheme of the announcement (defaults to the keyring's)
+   * @returns true if the view tag matches (needs full verification)
+   */
+  checkViewTag(
+    ephemeralPubkey: Point,
+    announcedViewTag: number,
+    scheme: StealthScheme = getScheme(this.metaAddress.schemeId)
+  ): boolean {
+    this.assertNotWiped();
+    try {
+      const sharedSecret = scheme.computeSharedSecret(
+        bytesToScalar(this.viewingKey),
+        ephemeralPubkey
+      );
+      return scheme.computeViewTag(sharedSecret) === announcedViewTag;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Verify a stealth address and, if it is ours, derive its key
+   *
+   * @param ephemeralPubkey - Ephemeral public key from the announcement
+   * @param stealthAddress - Announced stealth address
+   * @param factoryAddress - Factory contract address
+   * @param accountClassHash - StealthAccount class hash
+   * @param scheme - Scheme of the announcement (defaults to the keyring's)
+   * @returns A handle to the derived stealth key, or null if not ours
+   */
+  claim(
+    ephemeralPubkey: Point,
+    stealthAddress: string,
+    factoryAddress: string,
+    accountClassHash: string,
+    scheme: StealthScheme = getScheme(this.metaAddress.schemeId)
+  ): StealthKeyHandle | null {
+    this.assertNotWiped();
+    const sharedSecret = verifyStealthAddress(
+      this.spendingPubkey,
+      bytesToScalar(this.viewingKey),
+      ephemeralPubkey,
+      stealthAddress,
+      factoryAddress,
+      accountClassHash,
+      scheme
+    );
+    if (!sharedSecret) {
+      return null;
+    }
+
+    const derived = scheme.deriveStealthPrivateKey(bytesToScalar(this.spendingKey), sharedSecret);
+    const handle: StealthKeyHandle = Object.freeze({
+      stealthAddress,
+      stealthPubkey: scheme.getPublicKey(derived),
+    });
+    this.derivedKeys.set(handle, scalarToBytes(derived));
+    return handle;
+  }
+
+  /**
+   * Check an announcement in one pass and, if it is ours, derive its key
+   *
+   * Same outcome as checkViewTag() then claim(), with one ECDH and one hash
+   * of S (see AnnouncementMatcher). Malformed announcements never match.
+   *
+   * @param announcement - Announcement to check
+   * @param factoryAddress - Factory contract address
+   * @param accountClassHash - StealthAccount class hash
+   */
+  match(
+    announcement: Announcement,
+    factoryAddress: string,
+    accountClassHash: string
+  ): KeyringAnnouncementCheck {
+    this.assertNotWiped();
+    if (!hasScheme(announcement.schemeId)) {
+      return NO_MATCH;
+    }
+    const scheme = getScheme(announcement.schemeId);
+
+    let ephemeralPubkey: Point;
+    let viewTag: number;
+    let sharedSecretHash: bigint;
+    try {
+      ephemeralPubkey = scheme.decodeAnnouncementKey(
+        announcement.ephemeralPubkeyX,
+        announcement.ephemeralPubkeyY
+      );
+      const sharedSecret = scheme.computeNormalizedSharedSecret(
+        this.normalizedFor(scheme, this.viewingKey),
+        ephemeralPubkey
+      );
+      ({ viewTag, sharedSecretHash } = scheme.hashSharedSecretWithViewTag(sharedSecret));
+    } catch {
+      return NO_MATCH;
+    }
+    if (viewTag !== announcement.viewTag) {
+      return NO_MATCH;
+    }
+
+    try {
+      const { stealthPubkey, stealthPrivKey } = scheme.deriveStealthKeysFromHash(
+        this.spendingPubkey,
+        sharedSecretHash,
+        this.normalizedFor(scheme, this.spendingKey)
+      );
+      const expectedAddress = scheme.computeStealthAddress(
+        stealthPubkey,
+        scheme.computeSalt(ephemeralPubkey),
+        factoryAddress,
+        accountClassHash
+      );
+      if (expectedAddress.toLowerCase() !== announcement.stealthAddress.toLowerCase()) {
+        // False positive from view tag collision
+        return { viewTagMatches: true, keyHandle: null };
+      }
+      const keyHandle: StealthKeyHandle = Object.freeze({
+        stealthAddress: announcement.stealthAddress,
+        stealthPubkey,
+      });
+      this.derivedKeys.set(keyHandle, scalarToBytes(stealthPrivKey!));
+      return { viewTagMatches: true, keyHandle };
+    } catch {
+      return { viewTagMatches: true, keyHandle: null };
+    }
+  }
+
+  /**
+   * Sign a message hash with a derived stealth key
+   *
+   * The signature verifies against the stealth public key x coordinate,
+   * as checked by StealthAccount.
+   */
+  signHash(handle: StealthKeyHandle, msgHash: string): Signature {
+    const key = this.getDerivedKey(handle);
+    return ec.starkCurve.sign(msgHash, num.toHex(bytesToScalar(key)));
+  }
+
+  /**
+   * Export a derived stealth key as a scalar
+   *
+   * Only for APIs that require raw keys; prefer signHash() or StealthKeyringSigner.
+   */
+  exportStealthKey(handle: StealthKeyHandle): bigint {
+    return bytesToScalar(this.getDerivedKey(handle));
+  }
+
+  /**
+   * Export the viewing key and spending public key for a view-only scanner
+   *
+   * @param context - Where the holder should scan
+   */
+  exportViewingBundle(context: ViewingBundleContext = {}): ViewingBundle {
+    this.assertNotWiped();
+    return createViewingBundle(
+      {
+        schemeId: this.metaAddress.schemeId,
+        spendingPubkey: this.spendingPubkey,
+        viewingKey: bytesToScalar(this.viewingKey),
+      },
+      context
+    );
+  }
+
+  /**
+   * Erase one derived stealth key
+   */
+  release(handle: StealthKeyHandle): void {
+    const key = this.derivedKeys.get(handle);
+    if (key) {
+      key.fill(0);
+      this.derivedKeys.delete(handle);
+    }
+  }
+
+  /**
+   * Erase all keys held by this keyring
+   *
+   * The keyring is unusable afterwards.
+   */
+  wipe(): void {
+    this.spendingKey.fill(0);
+    this.viewingKey.fill(0);
+    for (const key of this.derivedKeys.values()) {
+      key.fill(0);
+    }
+    this.derivedKeys.clear();
+    this.wiped = true;
+  }
+
+  /** A stored key as a scalar, normalized for the scheme's curve */
+  private normalizedFor(scheme: StealthScheme, key: Uint8Array): bigint {
+    // Stored keys are already normalized for the keyring's own curve
+    const scalar = bytesToScalar(key);
+    return scheme.curve === getScheme(this.metaAddress.schemeId).curve
+      ? scalar
+      : scheme.normalizePrivateKey(scalar);
+  }
+
+  private getDerivedKey(handle: StealthKeyHandle): Uint8Array {
+    this.assertNotWiped();
+    const key = this.derivedKeys.get(handle);
+    if (!key) {
+      throw new Error('Unknown or released stealth key handle');
+    }
+    return key;
+  }
+
+  private assertNotWiped(): void {
+    if (this.wiped) {
+      throw new Error('Keyring has been wiped');
+    }
+  }
+}
+
+/**
+ * StealthKeyringSigner - starknet.js signer backed by a keyring handle
+ *
+ * Signs transactions for a stealth account without exposing its key.
+ */
+export class StealthKeyringSigner extends Signer {
+  private keyring: StealthKeyring;
+  private handle: StealthKeyHandle;
+
+  constructor(keyring: StealthKeyring, handle: StealthKeyHandle) {
+    // The base class key is never used: getPubKey() and signRaw() delegate to the keyring
+    super(new Uint8Array(SCALAR_BYTES));
+    this.pk = '';
+    this.keyring = keyring;
+    this.handle = handle;
+  }
+
+  async getPubKey(): Promise<string> {
+    return num.toHex(this.handle.stealthPubkey.x);
+  }
+
+  protected async signRaw(msgHash: string): Promise<Signature> {
+    return this.keyring.signHash(this.handle, msgHash);
+  }
+}
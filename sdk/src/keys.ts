@@ -0,0 +1,249 @@
+/**
+ * Deterministic Key Derivation
+ *
+ * Derives stealth spending and viewing keys from a single BIP-39 mnemonic so
+ * every key a recipient owns can be restored from one backup phrase.
+ *
+ * ## Derivation Path (EIP-2645)
+ *
+ * m/2645'/layer'/application'/role'/0'/index
+ *
+ * - layer = 31 low bits of sha256("starknet")
+ * - application = 31 low bits of sha256("stealth")
+ * - role = 0 for the spending key, 1 for the viewing key
+ * - index = meta-address number (0, 1, 2, ...)
+ *
+ * The BIP-32 node key is ground onto the STARK curve order (grindKey) and
+ * normalized so its public key has a canonical y coordinate.
+ *
+ * ## Wallet Signature Derivation
+ *
+ * Accounts that cannot export a seed (Argent, Braavos) sign a fixed,
+ * versioned SNIP-12 message instead. The signature is hashed with Poseidon
+ * under separate domain tags into the spending and viewing keys.
+ */
+
+import { HDKey } from '@scure/bip32';
+import {
+  generateMnemonic as generateBip39Mnemonic,
+  mnemonicToSeedSync,
+  validateMnemonic,
+} from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { getAccountPath, grindKey, poseidonHashMany } from '@scure/starknet';
+import { num, shortString, stark, TypedDataRevision } from 'starknet';
+import type { AccountInterface, BigNumberish, Signature, TypedData } from 'starknet';
+import type {
+  KeyDerivationOptions,
+  SignatureDerivedKeys,
+  StealthKeySet,
+} from './types.js';
+import { createMetaAddress, normalizePrivateKey } from './stealth.js';
+
+/** EIP-2645 layer name */
+export const STEALTH_DERIVATION_LAYER = 'starknet';
+
+/** EIP-2645 application name */
+export const STEALTH_DERIVATION_APPLICATION = 'stealth';
+
+/** Role slot for each key type in the derivation path */
+const KEY_ROLE = {
+  spending: 0,
+  viewing: 1,
+} as const;
+
+type KeyRole = keyof typeof KEY_ROLE;
+
+/** STARK curve order (number of points) */
+const CURVE_ORDER = BigInt(
+  '0x800000000000010ffffffffffffffffb781126dcae7b2321e66a241adc64d2f'
+);
+
+/** Version of the SNIP-12 key derivation message (bump on any change) */
+export const KEY_DERIVATION_MESSAGE_VERSION = '1';
+
+/** Poseidon domain tags separating the two signature-derived keys */
+const SIGNATURE_KEY_DOMAIN = {
+  spending: shortString.encodeShortString('stealth-spending-key-v1'),
+  viewing: shortString.encodeShortString('stealth-viewing-key-v1'),
+} as const;
+
+function assertValidIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= 2 ** 31) {
+    throw new Error('Invalid derivation index');
+  }
+}
+
+/**
+ * Generate a new BIP-39 mnemonic (English wordlist)
+ *
+ * @param strength - Entropy in bits (128 = 12 words, 256 = 24 words)
+ */
+export function generateMnemonic(strength: number = 256): string {
+  return generateBip39Mnemonic(wordlist, strength);
+}
+
+/**
+ * Check that a mnemonic is a valid English BIP-39 phrase
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  return validateMnemonic(mnemonic.trim(), wordlist);
+}
+
+/**
+ * Get the EIP-2645 derivation path for a stealth key
+ *
+ * @param role - Which key to derive ('spending' or 'viewing')
+ * @param index - Meta-address index
+ */
+export function getStealthKeyPath(role: KeyRole, index: number = 0): string {
+  assertValidIndex(index);
+  return getAccountPath(
+    STEALTH_DERIVATION_LAYER,
+    STEALTH_DERIVATION_APPLICATION,
+    `0x${KEY_ROLE[role].toString(16)}`,
+    index
+  );
+}
+
+function deriveKeyAtPath(root: HDKey, path: string): bigint {
+  const node = root.derive(path);
+  if (!node.privateKey) {
+    throw new Error('Derivation produced no private key');
+  }
+  const ground = BigInt('0x' + grindKey(node.privateKey));
+  return normalizePrivateKey(ground);
+}
+
+/**
+ * Derive the spending and viewing keys for a meta-address from a mnemonic
+ *
+ * @param mnemonic - BIP-39 mnemonic phrase
+ * @param options - Meta-address index and optional BIP-39 passphrase
+ * @returns Canonical spending and viewing private keys
+ *
+ * Security: the mnemonic restores every stealth key; never log or transmit it.
+ */
+export function deriveStealthKeys(
+  mnemonic: string,
+  options: KeyDerivationOptions = {}
+): StealthKeySet {
+  const index = options.index ?? 0;
+  assertValidIndex(index);
+
+  const phrase = mnemonic.trim();
+  if (!validateMnemonic(phrase, wordlist)) {
+    throw new Error('Invalid mnemonic');
+  }
+
+  const seed = mnemonicToSeedSync(phrase, options.passphrase);
+  const root = HDKey.fromMasterSeed(seed);
+
+  const spendingKey = deriveKeyAtPath(root, getStealthKeyPath('spending', index));
+  const viewingKey = deriveKeyAtPath(root, getStealthKeyPath('viewing', index));
+  seed.fill(0);
+
+  return { spendingKey, viewingKey, index };
+}
+
+// ============================================================================
+// Wallet Signature Derivation
+// ============================================================================
+
+/**
+ * Build the SNIP-12 (revision 1) message signed to derive stealth keys
+ *
+ * The message is fixed per version and chain: the same account always signs
+ * the same payload, so the same keys come back on every device.
+ *
+ * @param chainId - Starknet chain ID (e.g. SN_SEPOLIA as hex)
+ */
+export function buildKeyDerivationTypedData(chainId: BigNumberish): TypedData {
+  return {
+    types: {
+      StarknetDomain: [
+        { name: 'name', type: 'shortstring' },
+        { name: 'version', type: 'shortstring' },
+        { name: 'chainId', type: 'shortstring' },
+        { name: 'revision', type: 'shortstring' },
+      ],
+      StealthKeyDerivation: [
+        { name: 'action', type: 'string' },
+        { name: 'warning', type: 'string' },
+      ],
+    },
+    primaryType: 'StealthKeyDerivation',
+    domain: {
+      name: 'Starknet Stealth Addresses',
+      version: KEY_DERIVATION_MESSAGE_VERSION,
+      chainId: num.toHex(chainId),
+      revision: TypedDataRevision.ACTIVE,
+    },
+    message: {
+      action: 'Generate stealth address keys',
+      warning: 'Only sign this message on a trusted application',
+    },
+  };
+}
+
+function hashSignatureToKey(domain: string, signature: string[]): bigint {
+  const digest = poseidonHashMany([BigInt(domain), ...signature.map((felt) => BigInt(felt))]);
+  const scalar = digest % CURVE_ORDER;
+  if (scalar === 0n) {
+    throw new Error('Signature hashed to an invalid key');
+  }
+  return normalizePrivateKey(scalar);
+}
+
+/**
+ * Hash a wallet signature into canonical spending and viewing keys
+ *
+ * @param signature - Signature over buildKeyDerivationTypedData()
+ * @returns Keys plus the meta-address createMetaAddress() produces for them
+ */
+export function deriveKeysFromSignatureValue(signature: Signature): SignatureDerivedKeys {
+  const felts = stark.formatSignature(signature);
+  if (felts.length === 0) {
+    throw new Error('Empty signature');
+  }
+
+  const spendingKey = hashSignatureToKey(SIGNATURE_KEY_DOMAIN.spending, felts);
+  const viewingKey = hashSignatureToKey(SIGNATURE_KEY_DOMAIN.viewing, felts);
+
+  return {
+    spendingKey,
+    viewingKey,
+    metaAddress: createMetaAddress(spendingKey, viewingKey),
+  };
+}
+
+function sameSignature(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((felt, i) => BigInt(felt) === BigInt(b[i]));
+}
+
+/**
+ * Derive stealth keys by having an account sign the key derivation message
+ *
+ * The account is asked to sign twice; wallets that randomize signatures
+ * cannot be used because the keys would change on every derivation.
+ *
+ * @param account - Any account that can sign SNIP-12 messages
+ * @param chainId - Chain ID bound into the signed message
+ * @returns Keys plus the matching dual-key meta-address
+ *
+ * Security: the signature is as sensitive as the keys derived from it.
+ */
+export async function deriveKeysFromSignature(
+  account: Pick<AccountInterface, 'signMessage'>,
+  chainId: BigNumberish
+): Promise<SignatureDerivedKeys> {
+  const typedData = buildKeyDerivationTypedData(chainId);
+
+  const first = stark.formatSignature(await account.signMessage(typedData));
+  const second = stark.formatSignature(await account.signMessage(typedData));
+  if (!sameSignature(first, second)) {
+    throw new Error('Account produced a non-deterministic signature');
+  }
+
+  return deriveKeysFromSignatureValue(first);
+}
@@ -0,0 +1,334 @@
+/**
+ * Encrypted Keystore
+ *
+ * Versioned JSON keystore for stealth keys, modeled on the Ethereum v3
+ * keystore. Runs in Node and browsers (WebCrypto + @noble/hashes).
+ *
+ * ## Format (version 1)
+ *
+ * - kdf: scrypt(password, salt) -> 32-byte key
+ * - cipher: AES-256-GCM over a JSON payload of hex private keys
+ * - public header (version, type, scheme_id, spending pubkey) is bound to the
+ *   ciphertext as AES-GCM additional data, so it cannot be edited unnoticed
+ *
+ * Two keystore types:
+ * - `full`: spending + viewing private keys
+ * - `watch-only`: viewing private key only (spending pubkey is public), for
+ *   scanning without the ability to spend
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { num } from 'starknet';
+import type {
+  DecryptedKeystore,
+  KeystoreOptions,
+  Point,
+  StealthKeySet,
+  StealthKeystore,
+  WatchOnlyKeySet,
+} from './types.js';
+import { getScheme } from './schemes.js';
+import { createMetaAddress, getPublicKey, normalizePrivateKey } from './stealth.js';
+
+/** Current keystore format version */
+export const KEYSTORE_VERSION = 1;
+
+/** Default scrypt parameters (N = 2^17, r = 8, p = 1) */
+const DEFAULT_SCRYPT = {
+  n: 131072,
+  r: 8,
+  p: 1,
+};
+
+/**
+ * Largest scrypt costs accepted. Keystore parameters are untrusted input:
+ * without a cap, a crafted file could make decryption exhaust memory or run
+ * for hours. scrypt uses 128 * N * r bytes (1 GiB at N = 2^20, r = 8).
+ */
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_RP = 16;
+const MAX_SCRYPT_MEMORY = 2 ** 30;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+type AesKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+type KeystoreHeader = Pick<StealthKeystore, 'version' | 'type' | 'schemeId' | 'spendingPubkey'>;
+
+type KeystorePayload =
+  | { spendingKey: string; viewingKey: string }
+  | { viewingKey: string };
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  // RFC 4122 version 4 layout
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytesToHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function headerBytes(keystore: KeystoreHeader): Uint8Array {
+  return utf8ToBytes(
+    [
+      keystore.version,
+      keystore.type,
+      keystore.schemeId,
+      keystore.spendingPubkey.x,
+      keystore.spendingPubkey.y,
+    ].join(':')
+  );
+}
+
+function assertScryptParams({ n, r, p }: { n: number; r: number; p: number }): void {
+  if (!Number.isInteger(n) || n < 2 || n > MAX_SCRYPT_N || (n & (n - 1)) !== 0) {
+    throw new Error(`scrypt N must be a power of two up to 2^20, got ${n}`);
+  }
+  if (!Number.isInteger(r) || !Number.isInteger(p) || r < 1 || p < 1 || r * p > MAX_SCRYPT_RP) {
+    throw new Error(`scrypt r and p must be positive with r * p at most ${MAX_SCRYPT_RP}`);
+  }
+  if (128 * n * r > MAX_SCRYPT_MEMORY) {
+    throw new Error('scrypt parameters need more than 1 GiB of memory');
+  }
+}
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  params: { n: number; r: number; p: number }
+): Promise<AesKey> {
+  assertScryptParams(params);
+  const raw = await scryptAsync(utf8ToBytes(password.normalize('NFKD')), salt, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    dkLen: KEY_LENGTH,
+  });
+  try {
+    return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  } finally {
+    raw.fill(0);
+  }
+}
+
+async function seal(
+  header: KeystoreHeader,
+  payload: KeystorePayload,
+  password: string,
+  options: KeystoreOptions,
+  id: string = formatUuid(randomBytes(16))
+): Promise<StealthKeystore> {
+  const params = {
+    n: options.scryptN ?? DEFAULT_SCRYPT.n,
+    r: options.scryptR ?? DEFAULT_SCRYPT.r,
+    p: options.scryptP ?? DEFAULT_SCRYPT.p,
+  };
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(password, salt, params);
+
+  const plaintext = utf8ToBytes(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    key,
+    plaintext
+  );
+  plaintext.fill(0);
+
+  return {
+    ...header,
+    id,
+    crypto: {
+      cipher: 'aes-256-gcm',
+      ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+      cipherparams: { iv: bytesToHex(iv) },
+      kdf: 'scrypt',
+      kdfparams: { ...params, dklen: KEY_LENGTH, salt: bytesToHex(salt) },
+    },
+  };
+}
+
+async function unseal(keystore: StealthKeystore, password: string): Promise<KeystorePayload> {
+  if (keystore.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  }
+  if (keystore.type !== 'full' && keystore.type !== 'watch-only') {
+    throw new Error(`Unsupported keystore type: ${String(keystore.type)}`);
+  }
+  if (keystore.crypto.cipher !== 'aes-256-gcm' || keystore.crypto.kdf !== 'scrypt') {
+    throw new Error('Unsupported keystore cipher or kdf');
+  }
+
+  const { kdfparams, cipherparams, ciphertext } = keystore.crypto;
+  const key = await deriveKey(password, hexToBytes(kdfparams.salt), kdfparams);
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: hexToBytes(cipherparams.iv), additionalData: headerBytes(keystore) },
+        key,
+        hexToBytes(ciphertext)
+      )
+    );
+  } catch {
+    throw new Error('Invalid password or corrupted keystore');
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext)) as KeystorePayload;
+  } finally {
+    plaintext.fill(0);
+  }
+}
+
+function encodePubkey(point: Point): { x: string; y: string } {
+  return { x: num.toHex(point.x), y: num.toHex(point.y) };
+}
+
+/**
+ * Encrypt spending and viewing keys into a keystore
+ *
+ * @param keys - Spending and viewing private keys
+ * @param password - Keystore password
+ * @param options - scrypt cost parameters
+ * @returns JSON-serializable keystore
+ */
+export async function encryptKeystore(
+  keys: StealthKeySet,
+  password: string,
+  options: KeystoreOptions = {}
+): Promise<StealthKeystore> {
+  const spendingKey = normalizePrivateKey(keys.spendingKey);
+  const viewingKey = normalizePrivateKey(keys.viewingKey);
+  const metaAddress = createMetaAddress(spendingKey, viewingKey);
+
+  return seal(
+    {
+      version: KEYSTORE_VERSION,
+      type: 'full',
+      schemeId: metaAddress.schemeId,
+      spendingPubkey: encodePubkey(metaAddress.spendingKey),
+    },
+    { spendingKey: num.toHex(spendingKey), viewingKey: num.toHex(viewingKey) },
+    password,
+    options
+  );
+}
+
+/**
+ * Encrypt a viewing key into a watch-only keystore
+ *
+ * The keystore can scan for payments but cannot spend them.
+ *
+ * @param keys - Viewing private key and spending public key
+ * @param password - Keystore password
+ * @param options - scrypt cost parameters
+ * @throws if the scheme is unknown or single-key, or the viewing key is the
+ *   spending key (the keystore could then spend)
+ */
+export async function encryptWatchOnlyKeystore(
+  keys: WatchOnlyKeySet,
+  password: string,
+  options: KeystoreOptions = {}
+): Promise<StealthKeystore> {
+  const scheme = getScheme(keys.schemeId);
+  if (!scheme.dualKey) {
+    // The viewing key of a single-key scheme is the spending key
+    throw new Error(
+      `Watch-only keystores require a dual-key scheme (scheme_id ${keys.schemeId} is single-key)`
+    );
+  }
+  const spendingPubkey = scheme.decodePublicKey(keys.spendingPubkey.x, keys.spendingPubkey.y);
+  const viewingKey = scheme.normalizePrivateKey(keys.viewingKey);
+  const viewingPubkey = scheme.getPublicKey(viewingKey);
+  if (viewingPubkey.x === spendingPubkey.x && viewingPubkey.y === spendingPubkey.y) {
+    throw new Error('Viewing key is the spending key: a watch-only keystore could spend');
+  }
+
+  return seal(
+    {
+      version: KEYSTORE_VERSION,
+      type: 'watch-only',
+      schemeId: keys.schemeId,
+      spendingPubkey: encodePubkey(spendingPubkey),
+    },
+    { viewingKey: num.toHex(viewingKey) },
+    password,
+    options
+  );
+}
+
+/**
+ * Decrypt a keystore
+ *
+ * @param keystore - Keystore produced by encryptKeystore() or encryptWatchOnlyKeystore()
+ * @param password - Keystore password
+ * @returns The decrypted keys (check `type` for full vs watch-only)
+ *
+ * Security: keep decrypted keys in memory only as long as needed.
+ */
+export async function decryptKeystore(
+  keystore: StealthKeystore,
+  password: string
+): Promise<DecryptedKeystore> {
+  const payload = await unseal(keystore, password);
+  const spendingPubkey: Point = {
+    x: BigInt(keystore.spendingPubkey.x),
+    y: BigInt(keystore.spendingPubkey.y),
+  };
+  const viewingKey = BigInt(payload.viewingKey);
+
+  if (keystore.type === 'watch-only') {
+    return { type: 'watch-only', schemeId: keystore.schemeId, viewingKey, spendingPubkey };
+  }
+
+  if (!('spendingKey' in payload)) {
+    throw new Error('Keystore is missing the spending key');
+  }
+  const spendingKey = BigInt(payload.spendingKey);
+  const derived = getPublicKey(spendingKey);
+  if (derived.x !== spendingPubkey.x || derived.y !== spendingPubkey.y) {
+    throw new Error('Keystore spending key does not match its public key');
+  }
+
+  return { type: 'full', schemeId: keystore.schemeId, spendingKey, viewingKey, spendingPubkey };
+}
+
+/**
+ * Re-encrypt a keystore under a new password
+ *
+ * The keystore ID and type are preserved; salt and IV are fresh.
+ */
+export async function changeKeystorePassword(
+  keystore: StealthKeystore,
+  oldPassword: string,
+  newPassword: string,
+  options: KeystoreOptions = {}
+): Promise<StealthKeystore> {
+  const payload = await unseal(keystore, oldPassword);
+  const kdfparams = keystore.crypto.kdfparams;
+
+  return seal(
+    {
+      version: keystore.version,
+      type: keystore.type,
+      schemeId: keystore.schemeId,
+      spendingPubkey: keystore.spendingPubkey,
+    },
+    payload,
+    newPassword,
+    {
+      scryptN: options.scryptN ?? kdfparams.n,
+      scryptR: options.scryptR ?? kdfparams.r,
+      scryptP: options.scryptP ?? kdfparams.p,
+    },
+    keystore.id
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Single-Pass Announcement Matching
+ *
+ * Checking an announcement with checkViewTag(), verifyStealthAddress() and
+ * deriveStealthPrivateKey() repeats work: ECDH runs twice per view tag
+ * match, hash(S) is computed up to four times, and every call normalizes
+ * the private key with an extra scalar multiplication.
+ *
+ * An AnnouncementMatcher normalizes the recipient's keys once per scheme
+ * and checks each announcement in one pass:
+ *
+ * 1. S = v * R (one ECDH)
+ * 2. hash(S) -> view tag and h (one hash)
+ * 3. P = K + h*G -> stealth address (view tag matches only)
+ * 4. p = k + h mod n (our payments only, when k is known)
+ *
+ * Without a spending private key the matcher is view-only: matches carry P
+ * and h, and p is derived later (see deriveMatchSpendingKey).
+ */
+
+import type { Announcement, Point } from './types.js';
+import { getScheme, hasScheme } from './schemes.js';
+import type { StealthScheme } from './schemes.js';
+
+/**
+ * Raw keys of one recipient (no spendingPrivKey: view-only)
+ */
+export interface RawRecipientKeys {
+  spendingPubkey: Point;
+  viewingPrivKey: bigint;
+  spendingPrivKey?: bigint;
+}
+
+/**
+ * An announcement confirmed as ours
+ */
+export interface AnnouncementMatch {
+  /** Stealth public key (P) */
+  stealthPubkey: Point;
+  /** h = hash(S) */
+  sharedSecretHash: bigint;
+  /** Stealth private key (p), when the spending private key is known */
+  stealthPrivKey?: bigint;
+}
+
+/**
+ * Outcome of AnnouncementMatcher.check()
+ */
+export interface AnnouncementCheck {
+  /** Whether the view tag matched (includes false positives) */
+  viewTagMatches: boolean;
+  /** Set when the stealth address is ours */
+  match: AnnouncementMatch | null;
+}
+
+/** Recipient keys normalized for one scheme */
+interface PreparedKeys {
+  viewingKey: bigint;
+  /** Normalized on the first match */
+  spendingKey?: bigint;
+}
+
+const NO_MATCH: AnnouncementCheck = { viewTagMatches: false, match: null };
+
+/**
+ * AnnouncementMatcher - Checks announcements for one recipient
+ *
+ * Usage:
+ * ```typescript
+ * const matcher = new AnnouncementMatcher(keys, factoryAddress, accountClassHash);
+ * for (const announcement of announcements) {
+ *   const { match } = matcher.check(announcement);
+ *   if (match) console.log('Ours:', announcement.stealthAddress);
+ * }
+ * ```
+ */
+export class AnnouncementMatcher {
+  private keys: RawRecipientKeys;
+  private factoryAddress: string;
+  private accountClassHash: string;
+  // null: the keys are invalid for the scheme, nothing can match
+  private prepared = new Map<number, PreparedKeys | null>();
+
+  /**
+   * @param keys - Recipient keys (without spendingPrivKey: view-only)
+   * @param factoryAddress - Factory contract address
+   * @param accountClassHash - StealthAccount class hash
+   */
+  constructor(keys: RawRecipientKeys, factoryAddress: string, accountClassHash: string) {
+    this.keys = keys;
+    this.factoryAddress = factoryAddress;
+    this.accountClassHash = accountClassHash;
+  }
+
+  /**
+   * Check whether an announcement is ours
+   *
+   * Malformed announcements (unknown scheme, invalid point) never match.
+   */
+  check(announcement: Announcement): AnnouncementCheck {
+    if (!hasScheme(announcement.schemeId)) {
+      return NO_MATCH;
+    }
+    const scheme = getScheme(announcement.schemeId);
+    const keys = this.prepare(scheme);
+    if (!keys) {
+      return NO_MATCH;
+    }
+
+    let ephemeralPubkey: Point;
+    let viewTag: number;
+    let sharedSecretHash: bigint;
+    try {
+      ephemeralPubkey = scheme.decodeAnnouncementKey(
+        announcement.ephemeralPubkeyX,
+        announcement.ephemeralPubkeyY
+      );
+      const sharedSecret = scheme.computeNormalizedSharedSecret(keys.viewingKey, ephemeralPubkey);
+      ({ viewTag, sharedSecretHash } = scheme.hashSharedSecretWithViewTag(sharedSecret));
+    } catch {
+      return NO_MATCH;
+    }
+    if (viewTag !== announcement.viewTag) {
+      return NO_MATCH;
+    }
+
+    let derived: { stealthPubkey: Point; stealthPrivKey?: bigint };
+    try {
+      // p comes for free once the spending key is normalized (after the first match)
+      derived = scheme.deriveStealthKeysFromHash(
+        this.keys.spendingPubkey,
+        sharedSecretHash,
+        keys.spendingKey
+      );
+      const expectedAddress = scheme.computeStealthAddress(
+        derived.stealthPubkey,
+        scheme.computeSalt(ephemeralPubkey),
+        this.factoryAddress,
+        this.accountClassHash
+      );
+      if (expectedAddress.toLowerCase() !== announcement.stealthAddress.toLowerCase()) {
+        // False positive from view tag collision
+        return { viewTagMatches: true, match: null };
+      }
+    } catch {
+      return { viewTagMatches: true, match: null };
+    }
+
+    const { stealthPubkey } = derived;
+    if (this.keys.spendingPrivKey === undefined) {
+      return { viewTagMatches: true, match: { stealthPubkey, sharedSecretHash } };
+    }
+    if (keys.spendingKey === undefined) {
+      // First match: an invalid spending key throws, as deriveStealthPrivateKey() does
+      keys.spendingKey = scheme.normalizePrivateKey(this.keys.spendingPrivKey);
+      derived = scheme.deriveStealthKeysFromHash(
+        this.keys.spendingPubkey,
+        sharedSecretHash,
+        keys.spendingKey
+      );
+    }
+    return {
+      viewTagMatches: true,
+      match: { stealthPubkey, sharedSecretHash, stealthPrivKey: derived.stealthPrivKey },
+    };
+  }
+
+  private prepare(scheme: StealthScheme): PreparedKeys | null {
+    let keys = this.prepared.get(scheme.id);
+    if (keys === undefined) {
+      try {
+        keys = { viewingKey: scheme.normalizePrivateKey(this.keys.viewingPrivKey) };
+      } catch {
+        keys = null;
+      }
+      this.prepared.set(scheme.id, keys);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Scan Worker Pool
+ *
+ * Spreads announcement checks across threads: `worker_threads` in Node,
+ * Web Workers in browsers. Pass a ScanWorkerPool to StealthScanner or
+ * BatchScanner (`workerPool` option) and each page of announcements is split
+ * into chunks, checked in parallel and merged back in chain order, so
+ * results and stats match a single-threaded scan.
+ *
+ * Workers only receive viewing keys and spending public keys: they run
+ * view-only AnnouncementMatchers, and stealth private keys are derived on
+ * the calling thread. StealthKeyring recipients are always checked on the
+ * calling thread, since their keys never leave the keyring.
+ *
+ * Workers know the built-in schemes only. Announcements of schemes
+ * registered at runtime are skipped by workers.
+ */
+
+import type { Announcement, Point } from './types.js';
+import { AnnouncementMatcher } from './matcher.js';
+
+/**
+ * Recipient keys sent to a worker (no spending private key)
+ */
+export interface ScanWorkerRecipient {
+  spendingPubkey: Point;
+  viewingPrivKey: bigint;
+}
+
+/**
+ * A chunk of announcements to check
+ */
+export interface ScanWorkerRequest {
+  id: number;
+  announcements: Announcement[];
+  recipients: ScanWorkerRecipient[];
+  factoryAddress: string;
+  accountClassHash: string;
+}
+
+/**
+ * A match found by a worker
+ */
+export interface ScanWorkerMatch {
+  /** Position of the announcement in the checked list */
+  announcement: number;
+  /** Position of the recipient in the checked list */
+  recipient: number;
+  stealthPubkey: Point;
+  sharedSecretHash: bigint;
+}
+
+/**
+ * Worker reply to a ScanWorkerRequest
+ */
+export interface ScanWorkerResponse {
+  id: number;
+  /** Matches, in announcement then recipient order */
+  matches?: ScanWorkerMatch[];
+  /** View tag matches over all recipients */
+  viewTagMatches?: number;
+  /** Set when the task failed */
+  error?: string;
+}
+
+/**
+ * A worker thread, adapted to the pool
+ */
+export interface ScanWorkerLike {
+  postMessage(request: ScanWorkerRequest): void;
+  /** Register the handler for task replies */
+  onResponse(handler: (response: ScanWorkerResponse) => void): void;
+  /** Register the handler for worker failures (crash, failed to load) */
+  onError(handler: (error: unknown) => void): void;
+  terminate(): void;
+}
+
+/** Starts a worker */
+export type ScanWorkerFactory = () => ScanWorkerLike | Promise<ScanWorkerLike>;
+
+/**
+ * Options for ScanWorkerPool
+ */
+export interface ScanWorkerPoolOptions {
+  /** Number of workers (default: available cores - 1, at least 1) */
+  size?: number;
+  /** Announcements per task (default: 64) */
+  chunkSize?: number;
+  /** Worker factory (default: worker_threads in Node, Web Workers in browsers) */
+  createWorker?: ScanWorkerFactory;
+}
+
+/**
+ * Merged result of ScanWorkerPool.check()
+ */
+export interface ScanWorkerPoolResult {
+  /** Matches, in announcement then recipient order */
+  matches: ScanWorkerMatch[];
+  /** View tag matches over all recipients */
+  viewTagMatches: number;
+}
+
+/**
+ * Check a chunk of announcements (runs inside a worker)
+ *
+ * @param request - Task posted by the pool
+ * @returns The reply to post back
+ */
+export function runScanTask(request: ScanWorkerRequest): ScanWorkerResponse {
+  try {
+    const matchers = request.recipients.map(
+      (recipient) =>
+        new AnnouncementMatcher(recipient, request.factoryAddress, request.accountClassHash)
+    );
+    const matches: ScanWorkerMatch[] = [];
+    let viewTagMatches = 0;
+    request.announcements.forEach((announcement, i) => {
+      matchers.forEach((matcher, j) => {
+        const check = matcher.check(announcement);
+        if (check.viewTagMatches) {
+          viewTagMatches++;
+        }
+        if (check.match) {
+          matches.push({
+            announcement: i,
+            recipient: j,
+            stealthPubkey: check.match.stealthPubkey,
+            sharedSecretHash: check.match.sharedSecretHash,
+          });
+        }
+      });
+    });
+    return { id: request.id, matches, viewTagMatches };
+  } catch (error) {
+    return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const DEFAULT_CHUNK_SIZE = 64;
+
+interface WebWorkerLike {
+  onmessage: ((event: { data: ScanWorkerResponse }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  postMessage(message: unknown): void;
+  terminate(): void;
+}
+
+type WebWorkerConstructor = new (url: URL, options: { type: 'module' }) => WebWorkerLike;
+
+/**
+ * Default worker factory: Web Workers where available, worker_threads otherwise
+ */
+async function createDefaultWorker(): Promise<ScanWorkerLike> {
+  const WebWorker = (globalThis as { Worker?: WebWorkerConstructor }).Worker;
+  if (WebWorker) {
+    // Literal `new Worker(new URL(...))` so bundlers emit the worker script
+    const worker = new WebWorker(new URL('./scan-worker.js', import.meta.url), {
+      type: 'module',
+    });
+    return {
+      postMessage: (request) => worker.postMessage(request),
+      onResponse: (handler) => {
+        worker.onmessage = (event) => handler(event.data);
+      },
+      onError: (handler) => {
+        worker.onerror = handler;
+      },
+      terminate: () => worker.terminate(),
+    };
+  }
+
+  const { Worker } = await import('node:worker_threads');
+  const worker = new Worker(new URL('./scan-worker.js', import.meta.url));
+  // Only busy workers keep the process alive
+  worker.unref();
+  return {
+    postMessage: (request) => {
+      worker.ref();
+      worker.postMessage(request);
+    },
+    onResponse: (handler) => {
+      worker.on('message', (response: ScanWorkerResponse) => {
+        worker.unref();
+        handler(response);
+      });
+    },
+    onError: (handler) => {
+      worker.on('error', handler);
+      worker.on('exit', (code) => {
+        if (code !== 0) {
+          handler(new Error(`Scan worker exited with code ${code}`));
+        }
+      });
+    },
+    terminate: () => {
+      void worker.terminate();
+    },
+  };
+}
+
+/**
+ * One worker per core, less one for the calling thread
+ */
+async function defaultPoolSize(): Promise<number> {
+  let cores = (globalThis as { navigator?: { hardwareConcurrency?: number } }).navigator
+    ?.hardwareConcurrency;
+  if (cores === undefined) {
+    // Node before 21 has no navigator
+    try {
+      const os = await import('node:os');
+      cores = os.availableParallelism?.() ?? os.cpus().length;
+    } catch {
+      cores = 2;
+    }
+  }
+  return Math.max(1, cores - 1);
+}
+
+interface PendingTask {
+  request: ScanWorkerRequest;
+  resolve: (response: ScanWorkerResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: ScanWorkerLike;
+  task: PendingTask | null;
+}
+
+/**
+ * ScanWorkerPool - Checks announcements on worker threads
+ *
+ * Usage:
+ * ```typescript
+ * const workerPool = new ScanWorkerPool({ size: 4 });
+ * const scanner = new StealthScanner(config, { workerPool });
+ * const results = await scanner.scan(keys);
+ * await workerPool.terminate();
+ * ```
+ */
+export class ScanWorkerPool {
+  /** Unset until the first dispatch when defaulted to the core count */
+  private size?: number;
+  private sizing?: Promise<void>;
+  private chunkSize: number;
+  private createWorker: ScanWorkerFactory;
+  private workers: PoolWorker[] = [];
+  private starting = 0;
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+  private terminated = false;
+
+  constructor(options: ScanWorkerPoolOptions = {}) {
+    this.size = options.size;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (this.size !== undefined && (!Number.isInteger(this.size) || this.size < 1)) {
+      throw new Error('Worker pool size must be a positive integer');
+    }
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize < 1) {
+      throw new Error('Worker pool chunkSize must be a positive integer');
+    }
+    this.createWorker = options.createWorker ?? createDefaultWorker;
+  }
+
+  /**
+   * Check announcements for several recipients in parallel
+   *
+   * @param announcements - Announcements, in chain order
+   * @param recipients - Viewing keys and spending public keys
+   * @param factoryAddress - Factory contract address
+   * @param accountClassHash - StealthAccount class hash
+   * @returns Matches in announcement then recipient order, and the view tag match count
+   */
+  async check(
+    announcements: Announcement[],
+    recipients: ScanWorkerRecipient[],
+    factoryAddress: string,
+    accountClassHash: string
+  ): Promise<ScanWorkerPoolResult> {
+    if (this.terminated) {
+      throw new Error('Worker pool terminated');
+    }
+    // Send only what workers need
+    const keys = recipients.map(({ spendingPubkey, viewingPrivKey }) => ({
+      spendingPubkey,
+      viewingPrivKey,
+    }));
+
+    const chunks: Promise<ScanWorkerResponse>[] = [];
+    for (let start = 0; start < announcements.length; start += this.chunkSize) {
+      chunks.push(
+        this.run({
+          id: this.nextId++,
+          announcements: announcements.slice(start, start + this.chunkSize),
+          recipients: keys,
+          factoryAddress,
+          accountClassHash,
+        })
+      );
+    }
+
+    // Merge in chunk order, whatever order the workers finished in
+    const result: ScanWorkerPoolResult = { matches: [], viewTagMatches: 0 };
+    const responses = await Promise.all(chunks);
+    responses.forEach((response, chunk) => {
+      for (const match of response.matches ?? []) {
+        result.matches.push({ ...match, announcement: chunk * this.chunkSize + match.announcement });
+      }
+      result.viewTagMatches += response.viewTagMatches ?? 0;
+    });
+    return result;
+  }
+
+  /**
+   * Stop all workers
+   *
+   * Pending checks are rejected; the pool is unusable afterwards.
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    const error = new Error('Worker pool terminated');
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+    for (const entry of this.workers.splice(0)) {
+      entry.task?.reject(error);
+      entry.worker.terminate();
+    }
+  }
+
+  private run(request: ScanWorkerRequest): Promise<ScanWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (!entry.task) {
+        this.assign(entry, this.queue.shift()!);
+      }
+    }
+    if (this.size === undefined) {
+      this.sizing ??= defaultPoolSize().then((size) => {
+        this.size = size;
+        this.dispatch();
+      });
+      return;
+    }
+    // Workers still starting will each take one of the waiting tasks
+    let waiting = this.queue.length - this.starting;
+    while (waiting > 0 && this.workers.length + this.starting < this.size) {
+      void this.startWorker();
+      waiting--;
+    }
+  }
+
+  private assign(entry: PoolWorker, task: PendingTask): void {
+    entry.task = task;
+    try {
+      entry.worker.postMessage(task.request);
+    } catch (error) {
+      this.fail(entry, error);
+    }
+  }
+
+  private async startWorker(): Promise<void> {
+    this.starting++;
+    let worker: ScanWorkerLike;
+    try {
+      worker = await this.createWorker();
+    } catch (error) {
+      this.starting--;
+      // No worker to run on: fail what is waiting
+      if (this.workers.length + this.starting === 0) {
+        for (const task of this.queue.splice(0)) {
+          task.reject(error);
+        }
+      }
+      return;
+    }
+    this.starting--;
+    if (this.terminated) {
+      worker.terminate();
+      return;
+    }
+
+    const entry: PoolWorker = { worker, task: null };
+    worker.onResponse((response) => {
+      const task = entry.task;
+      if (!task || task.request.id !== response.id) {
+        return;
+      }
+      entry.task = null;
+      if (response.error !== undefined) {
+        task.reject(new Error(`Scan worker failed: ${response.error}`));
+      } else {
+        task.resolve(response);
+      }
+      this.dispatch();
+    });
+    worker.onError((error) => this.fail(entry, error));
+    this.workers.push(entry);
+    this.dispatch();
+  }
+
+  /**
+   * Drop a failed worker and reject its task; later tasks get a new worker
+   */
+  private fail(entry: PoolWorker, error: unknown): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    entry.task?.reject(error);
+    entry.task = null;
+    entry.worker.terminate();
+    this.dispatch();
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * StealthRegistry Client
+ *
+ * Typed access to the registry with the bundled ABI: meta-address lookup and
+ * registration, announcements, and calldata builders for multicalls.
+ *
+ * Usage:
+ * ```typescript
+ * const registry = new StealthRegistryClient(registryAddress, account);
+ * await registry.registerMetaAddress(metaAddress);
+ *
+ * const meta = await registry.getStealthMetaAddress(recipientAddress);
+ * await account.execute([transferCall, registry.buildAnnounceCall(announcement)]);
+ * ```
+ */
+
+import { CallData, Contract } from 'starknet';
+import type {
+  AccountInterface,
+  BlockIdentifier,
+  Call,
+  InvokeFunctionResponse,
+  ProviderInterface,
+} from 'starknet';
+import type { Announcement, StealthMetaAddress } from './types.js';
+import { STEALTH_REGISTRY_ABI } from './abi.js';
+import { getScheme } from './schemes.js';
+
+/**
+ * Announcement fields sent to the registry (metadata defaults to 0)
+ */
+export type AnnouncementInput = Pick<
+  Announcement,
+  'schemeId' | 'ephemeralPubkeyX' | 'ephemeralPubkeyY' | 'stealthAddress' | 'viewTag'
+> & { metadata?: bigint };
+
+/** Schemes the deployed registry stores meta-addresses for (felt252 coordinates) */
+const REGISTRY_SCHEME_IDS = [0, 1];
+
+const registryCallData = new CallData(STEALTH_REGISTRY_ABI);
+
+function metaAddressCalldata(metaAddress: StealthMetaAddress) {
+  if (!REGISTRY_SCHEME_IDS.includes(metaAddress.schemeId)) {
+    throw new Error(`The registry does not store scheme_id ${metaAddress.schemeId} meta-addresses`);
+  }
+  getScheme(metaAddress.schemeId).validateMetaAddress(metaAddress);
+  return {
+    spending_pubkey_x: metaAddress.spendingKey.x,
+    spending_pubkey_y: metaAddress.spendingKey.y,
+    viewing_pubkey_x: metaAddress.viewingKey.x,
+    viewing_pubkey_y: metaAddress.viewingKey.y,
+    scheme_id: metaAddress.schemeId,
+  };
+}
+
+/**
+ * StealthRegistryClient - Typed StealthRegistry calls
+ */
+export class StealthRegistryClient {
+  readonly address: string;
+  private providerOrAccount: ProviderInterface | AccountInterface;
+  private contract: Contract;
+
+  /**
+   * @param address - StealthRegistry contract address
+   * @param providerOrAccount - Provider for reads, Account for writes too
+   */
+  constructor(address: string, providerOrAccount: ProviderInterface | AccountInterface) {
+    this.address = address;
+    this.providerOrAccount = providerOrAccount;
+    this.contract = new Contract(STEALTH_REGISTRY_ABI, address, providerOrAccount);
+  }
+
+  // ==========================================================================
+  // Reads
+  // ==========================================================================
+
+  /**
+   * Registered meta-address of a user, or null if none
+   */
+  async getStealthMetaAddress(
+    user: string,
+    blockIdentifier?: BlockIdentifier
+  ): Promise<StealthMetaAddress | null> {
+    const result = (await this.contract.call('get_stealth_meta_address', [user], {
+      blockIdentifier,
+    })) as Record<
+      | 'scheme_id'
+      | 'spending_pubkey_x'
+      | 'spending_pubkey_y'
+      | 'viewing_pubkey_x'
+      | 'viewing_pubkey_y',
+      bigint
+    >;
+    // Unregistered users read back as zeros
+    if (result.spending_pubkey_x === 0n || result.spending_pubkey_y === 0n) {
+      return null;
+    }
+    return {
+      spendingKey: { x: result.spending_pubkey_x, y: result.spending_pubkey_y },
+      viewingKey: { x: result.viewing_pubkey_x, y: result.viewing_pubkey_y },
+      schemeId: Number(result.scheme_id),
+    };
+  }
+
+  /**
+   * Whether a user has registered a meta-address
+   */
+  async hasMetaAddress(user: string, blockIdentifier?: BlockIdentifier): Promise<boolean> {
+    return (await this.contract.call('has_meta_address', [user], { blockIdentifier })) as boolean;
+  }
+
+  /**
+   * Number of announcements made so far (the next announcement's index)
+   */
+  async getAnnouncementCount(blockIdentifier?: BlockIdentifier): Promise<number> {
+    const count = (await this.contract.call('get_announcement_count', [], {
+      blockIdentifier,
+    })) as bigint;
+    return Number(count);
+  }
+
+  // ==========================================================================
+  // Writes (need an Account)
+  // ==========================================================================
+
+  /**
+   * Register the account's meta-address
+   */
+  registerMetaAddress(metaAddress: StealthMetaAddress): Promise<InvokeFunctionResponse> {
+    return this.getAccount().execute(this.buildRegisterCall(metaAddress));
+  }
+
+  /**
+   * Replace the account's registered meta-address
+   */
+  updateMetaAddress(metaAddress: StealthMetaAddress): Promise<InvokeFunctionResponse> {
+    return this.getAccount().execute(this.buildUpdateCall(metaAddress));
+  }
+
+  /**
+   * Announce a payment
+   */
+  announce(announcement: AnnouncementInput): Promise<InvokeFunctionResponse> {
+    return this.getAccount().execute(this.buildAnnounceCall(announcement));
+  }
+
+  // ==========================================================================
+  // Calldata builders (for multicalls)
+  // ==========================================================================
+
+  /**
+   * register_stealth_meta_address call
+   *
+   * @throws if the meta-address is invalid or of a scheme the registry does not store
+   */
+  buildRegisterCall(metaAddress: StealthMetaAddress): Call {
+    return {
+      contractAddress: this.address,
+      entrypoint: 'register_stealth_meta_address',
+      calldata: registryCallData.compile(
+        'register_stealth_meta_address',
+        metaAddressCalldata(metaAddress)
+      ),
+    };
+  }
+
+  /**
+   * update_stealth_meta_address call
+   *
+   * @throws if the meta-address is invalid or of a scheme the registry does not store
+   */
+  buildUpdateCall(metaAddress: StealthMetaAddress): Call {
+    return {
+      contractAddress: this.address,
+      entrypoint: 'update_stealth_meta_address',
+      calldata: registryCallData.compile(
+        'update_stealth_meta_address',
+        metaAddressCalldata(metaAddress)
+      ),
+    };
+  }
+
+  /**
+   * announce call
+   *
+   * The ephemeral key is taken as encoded for announcements (see
+   * StealthScheme.encodeAnnouncementKey).
+   */
+  buildAnnounceCall(announcement: AnnouncementInput): Call {
+    return {
+      contractAddress: this.address,
+      entrypoint: 'announce',
+      calldata: registryCallData.compile('announce', {
+        scheme_id: announcement.schemeId,
+        ephemeral_pubkey_x: announcement.ephemeralPubkeyX,
+        ephemeral_pubkey_y: announcement.ephemeralPubkeyY,
+        stealth_address: announcement.stealthAddress,
+        view_tag: announcement.viewTag,
+        metadata: announcement.metadata ?? 0n,
+      }),
+    };
+  }
+
+  private getAccount(): AccountInterface {
+    if (!('execute' in this.providerOrAccount)) {
+      throw new Error('Registry writes need an Account');
+    }
+    return this.providerOrAccount;
+  }
+}
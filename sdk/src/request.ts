@@ -0,0 +1,228 @@
+/**
+ * Stealth Payment Requests
+ *
+ * A payment request extends the meta-address URI with what the recipient
+ * wants to be paid, so a wallet can go from a scanned QR code to a
+ * ready-to-sign payment:
+ *
+ * ```
+ * st:starknet:<chainId>:<payload>?t=<token>&a=<amount>[&m=<memo>][&e=<expiry>]&c=<checksum>
+ * ```
+ *
+ * - t: ERC-20 token address (hex)
+ * - a: amount in base units (decimal)
+ * - m: memo for the sender (percent-encoded, never published on-chain)
+ * - e: expiry (unix seconds)
+ * - c: first 4 bytes of sha256 over everything before `&c=` (hex)
+ *
+ * Parameter names are single letters to keep QR codes small.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { cairo, CallData, num } from 'starknet';
+import type { BigNumberish, Call } from 'starknet';
+import type {
+  StealthPayment,
+  StealthPaymentOptions,
+  StealthPaymentRequest,
+} from './types.js';
+import { formatMetaAddressUri, parseMetaAddressUri } from './uri.js';
+import { generateStealthAddress } from './stealth.js';
+import { getScheme } from './schemes.js';
+
+/** Maximum memo length (characters) */
+export const MAX_PAYMENT_MEMO_LENGTH = 128;
+
+const CHECKSUM_PARAM = '&c=';
+const CHECKSUM_BYTES = 4;
+const MAX_ADDRESS = 2n ** 251n;
+const MAX_AMOUNT = 2n ** 256n;
+
+function checksum(signed: string): string {
+  return bytesToHex(sha256(utf8ToBytes(signed)).slice(0, CHECKSUM_BYTES));
+}
+
+function parseToken(value: string): string {
+  const token = /^0x[0-9a-fA-F]{1,64}$/.test(value) ? BigInt(value) : 0n;
+  if (token <= 0n || token >= MAX_ADDRESS) {
+    throw new Error('Invalid token address in payment request');
+  }
+  return num.toHex(token);
+}
+
+function parseAmount(value: string): bigint {
+  const amount = /^\d{1,78}$/.test(value) ? BigInt(value) : 0n;
+  if (amount <= 0n || amount >= MAX_AMOUNT) {
+    throw new Error('Invalid amount in payment request');
+  }
+  return amount;
+}
+
+function parseExpiry(value: string): number {
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new Error('Invalid expiry in payment request');
+  }
+  return Number(value);
+}
+
+function assertMemo(memo: string): void {
+  if (memo.length > MAX_PAYMENT_MEMO_LENGTH) {
+    throw new Error(`Memo exceeds ${MAX_PAYMENT_MEMO_LENGTH} characters`);
+  }
+}
+
+/**
+ * Encode a payment request as a checksummed URI
+ *
+ * @param request - Meta-address, chain, token, amount and optional memo/expiry
+ * @returns URI suitable for links and QR codes
+ */
+export function encodePaymentRequest(request: StealthPaymentRequest): string {
+  const token = parseToken(request.token);
+  const amount = parseAmount(request.amount.toString());
+
+  let uri = `${formatMetaAddressUri(request.metaAddress, request.chainId)}?t=${token}&a=${amount}`;
+  if (request.memo !== undefined) {
+    assertMemo(request.memo);
+    uri += `&m=${encodeURIComponent(request.memo)}`;
+  }
+  if (request.expiresAt !== undefined) {
+    uri += `&e=${parseExpiry(String(request.expiresAt))}`;
+  }
+
+  return uri + CHECKSUM_PARAM + checksum(uri);
+}
+
+/**
+ * Parse and validate a payment request URI
+ *
+ * Expiry is not checked here; see isPaymentRequestExpired().
+ *
+ * @param uri - URI produced by encodePaymentRequest()
+ * @param expectedChainId - Reject requests bound to any other chain
+ */
+export function parsePaymentRequest(
+  uri: string,
+  expectedChainId?: BigNumberish
+): StealthPaymentRequest {
+  const trimmed = uri.trim();
+  const query = trimmed.indexOf('?');
+  const separator = trimmed.lastIndexOf(CHECKSUM_PARAM);
+  if (query <= 0 || separator < query) {
+    throw new Error('Malformed payment request URI');
+  }
+
+  const signed = trimmed.slice(0, separator);
+  if (trimmed.slice(separator + CHECKSUM_PARAM.length).toLowerCase() !== checksum(signed)) {
+    throw new Error('Invalid payment request checksum');
+  }
+
+  const { metaAddress, chainId } = parseMetaAddressUri(
+    signed.slice(0, query),
+    expectedChainId
+  );
+
+  const params = new URLSearchParams(signed.slice(query + 1));
+  for (const key of new Set(params.keys())) {
+    if (params.getAll(key).length > 1) {
+      throw new Error(`Duplicate parameter in payment request: ${key}`);
+    }
+  }
+
+  const token = params.get('t');
+  const amount = params.get('a');
+  if (token === null || amount === null) {
+    throw new Error('Payment request is missing the token or amount');
+  }
+
+  const request: StealthPaymentRequest = {
+    metaAddress,
+    chainId,
+    token: parseToken(token),
+    amount: parseAmount(amount),
+  };
+
+  const memo = params.get('m');
+  if (memo !== null) {
+    assertMemo(memo);
+    request.memo = memo;
+  }
+  const expiry = params.get('e');
+  if (expiry !== null) {
+    request.expiresAt = parseExpiry(expiry);
+  }
+
+  return request;
+}
+
+/**
+ * Check whether a payment request has expired
+ *
+ * @param now - Current time in unix seconds (default: now)
+ */
+export function isPaymentRequestExpired(
+  request: StealthPaymentRequest,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return request.expiresAt !== undefined && now >= request.expiresAt;
+}
+
+/**
+ * Turn a payment request into a ready-to-sign payment
+ *
+ * Generates a fresh stealth address for the request's meta-address and
+ * builds the token transfer (and, with `registryAddress`, the announcement).
+ *
+ * @param request - Parsed payment request
+ * @param factoryAddress - Factory contract address
+ * @param accountClassHash - StealthAccount class hash
+ * @param options - Ephemeral key / rng, registry address, clock
+ */
+export function generateStealthPayment(
+  request: StealthPaymentRequest,
+  factoryAddress: string,
+  accountClassHash: string,
+  options: StealthPaymentOptions = {}
+): StealthPayment {
+  if (isPaymentRequestExpired(request, options.now)) {
+    throw new Error('Payment request has expired');
+  }
+
+  const result = generateStealthAddress(
+    request.metaAddress,
+    factoryAddress,
+    accountClassHash,
+    options
+  );
+
+  const calls: Call[] = [
+    {
+      contractAddress: request.token,
+      entrypoint: 'transfer',
+      calldata: CallData.compile({
+        recipient: result.stealthAddress,
+        amount: cairo.uint256(request.amount),
+      }),
+    },
+  ];
+
+  if (options.registryAddress) {
+    const scheme = getScheme(request.metaAddress.schemeId);
+    const ephemeral = scheme.encodeAnnouncementKey(result.ephemeralPubkey);
+    calls.push({
+      contractAddress: options.registryAddress,
+      entrypoint: 'announce',
+      calldata: CallData.compile([
+        request.metaAddress.schemeId,
+        ephemeral.x,
+        ephemeral.y,
+        result.stealthAddress,
+        result.viewTag,
+        0, // metadata
+      ]),
+    });
+  }
+
+  return { ...result, request, calls };
+}
@@ -0,0 +1,27 @@
+/**
+ * Scan Worker Entry Point
+ *
+ * Loaded by ScanWorkerPool's default worker factory, as a Web Worker in
+ * browsers and with worker_threads in Node. Runs runScanTask() for each
+ * request and posts the reply back.
+ */
+
+import { runScanTask } from './pool.js';
+import type { ScanWorkerRequest } from './pool.js';
+
+interface WorkerScope {
+  onmessage: ((event: { data: ScanWorkerRequest }) => void) | null;
+  postMessage(message: unknown): void;
+}
+
+const scope = globalThis as unknown as Partial<WorkerScope> & { importScripts?: unknown };
+
+if (typeof scope.importScripts === 'function') {
+  // Web Worker
+  scope.onmessage = (event) => scope.postMessage!(runScanTask(event.data));
+} else {
+  const { parentPort } = await import('node:worker_threads');
+  parentPort?.on('message', (request: ScanWorkerRequest) => {
+    parentPort.postMessage(runScanTask(request));
+  });
+}
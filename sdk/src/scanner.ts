@@ -10,38 +10,274 @@
  * 2. Quick filter using view tags (1 byte comparison)
  * 3. Full verification for view tag matches
  * 4. Derive spending keys for confirmed matches
+ * 
+ * Raw keys are checked in a single pass by an AnnouncementMatcher (one
+ * ECDH and one shared-secret hash per announcement).
  */
 
 import { RpcProvider, Contract, num } from 'starknet';
+import type { Abi } from 'starknet';
 import type {
   Point,
   Announcement,
+  AnnouncementSource,
+  ConfirmationDepth,
+  ScanCheckpoint,
+  ScanCheckpointStore,
+  ScannedBlock,
+  ScanReorg,
   ScanResult,
   StealthConfig,
 } from './types.js';
-import {
-  checkViewTag,
-  verifyStealthAddress,
-  deriveStealthPrivateKey,
-  computeSharedSecret,
-} from './stealth.js';
+import { AnnouncementMatcher } from './matcher.js';
+import type { RawRecipientKeys } from './matcher.js';
+import type { ScanWorkerPool } from './pool.js';
+import { STEALTH_REGISTRY_ABI } from './abi.js';
+import { StealthFactoryClient } from './factory.js';
+import { deriveMatchSpendingKey } from './viewing.js';
+import { StealthKeyring } from './keyring.js';
+import { buildAnnouncementKeyFilter, decodeAnnouncementEvent } from './events.js';
+import type { RawRegistryEvent } from './events.js';
+import { RpcAnnouncementSource } from './sources.js';
+import type { RpcFetchOptions } from './sources.js';
+import { StealthSubscription } from './watch.js';
+import type { WatchOptions } from './watch.js';
 
 // ============================================================================
 // Scanner Class
 // ============================================================================
 
+/**
+ * Keys for one recipient: a keyring, or raw scalars
+ * 
+ * Without spendingPrivKey the scan is view-only: matches carry the stealth
+ * public key and shared-secret hash, and the spending key is derived later
+ * (see deriveMatchSpendingKey).
+ */
+export type RecipientKeys = StealthKeyring | RawRecipientKeys;
+
+/**
+ * Arguments accepted by StealthScanner.scan()
+ */
+export type ScanArgs =
+  | [keys: RecipientKeys, options?: ScanOptions]
+  | [keyring: StealthKeyring, fromBlock?: number, toBlock?: number]
+  | [
+      spendingPubkey: Point,
+      viewingPrivKey: bigint,
+      spendingPrivKey: bigint,
+      fromBlock?: number,
+      toBlock?: number,
+    ];
+
+/**
+ * Subset of AbortSignal used to cancel scans
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+}
+
+/**
+ * Options for scan(), scanIter() and BatchScanner
+ */
+export interface ScanOptions {
+  /** Start block (default: 0) */
+  fromBlock?: number;
+  /** End block, inclusive (default: latest) */
+  toBlock?: number;
+  /** Announcements per page requested from the source */
+  pageSize?: number;
+  /** Stops the scan between announcements */
+  signal?: AbortSignalLike;
+  /** Called after each page */
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+/**
+ * Progress reported after each page
+ */
+export interface ScanProgress {
+  /** Pages processed so far */
+  pages: number;
+  /** Announcements checked so far */
+  announcements: number;
+  /** Matches found so far */
+  matches: number;
+  /** Block of the last announcement in the page */
+  blockNumber?: number;
+}
+
+/**
+ * A match for one recipient of a batch scan
+ */
+export interface BatchScanMatch {
+  /** Index into the recipients array */
+  recipient: number;
+  result: ScanResult;
+}
+
+/**
+ * Options for StealthScanner
+ */
+export interface StealthScannerOptions {
+  /** Where announcements are read from (default: the registry via RPC) */
+  source?: AnnouncementSource;
+  /** Paging and sharding of the default RPC source */
+  fetchOptions?: RpcFetchOptions;
+  /** Persist progress so scan() resumes where it left off */
+  checkpointStore?: ScanCheckpointStore;
+  /** Only report announcements from blocks this settled (default: 'accepted') */
+  confirmationDepth?: ConfirmationDepth;
+  /** Number of recent blocks remembered for reorg detection (default: 64) */
+  reorgWindow?: number;
+  /** Called when a reorg rolls back matches from an earlier scan */
+  onReorg?: (reorg: ScanReorg) => void | Promise<void>;
+  /** Check announcements on worker threads (raw keys only) */
+  workerPool?: ScanWorkerPool;
+}
+
+const DEFAULT_REORG_WINDOW = 64;
+
+function announcementId(announcement: Announcement): string {
+  return announcement.index !== undefined
+    ? `index:${announcement.index}`
+    : `${announcement.txHash}:${announcement.stealthAddress}`;
+}
+
+function isProcessed(announcement: Announcement, checkpoint: ScanCheckpoint | null): boolean {
+  if (!checkpoint) {
+    return false;
+  }
+  if (
+    announcement.index !== undefined &&
+    checkpoint.lastIndex !== undefined &&
+    announcement.index <= checkpoint.lastIndex
+  ) {
+    return true;
+  }
+  const id = announcementId(announcement);
+  return checkpoint.matches.some((match) => announcementId(match) === id);
+}
+
+function throwIfAborted(signal?: AbortSignalLike): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new Error('Scan aborted');
+  }
+}
+
+/** Fail before scanning, rather than treating every announcement as not ours */
+function assertNotWiped(recipients: RecipientKeys[]): void {
+  if (recipients.some((recipient) => recipient instanceof StealthKeyring && recipient.isWiped)) {
+    throw new Error('Keyring has been wiped');
+  }
+}
+
+function resolveScanArgs(args: ScanArgs): {
+  recipient: RecipientKeys;
+  options: ScanOptions;
+} {
+  if (args[0] instanceof StealthKeyring || 'spendingPubkey' in args[0]) {
+    const [recipient, second, toBlock] = args as [RecipientKeys, (number | ScanOptions)?, number?];
+    const options = typeof second === 'object' ? second : { fromBlock: second, toBlock };
+    return { recipient, options };
+  }
+  const [spendingPubkey, viewingPrivKey, spendingPrivKey, fromBlock, toBlock] =
+    args as [Point, bigint, bigint, number?, number?];
+  return {
+    recipient: { spendingPubkey, viewingPrivKey, spendingPrivKey },
+    options: { fromBlock, toBlock },
+  };
+}
+
+/**
+ * Accumulates the next checkpoint while a scan streams announcements
+ */
+class CheckpointBuilder {
+  private previous: ScanCheckpoint | null;
+  private contiguous: boolean;
+  private window: number;
+  private lastIndex?: number;
+  private scanned: ScannedBlock[] = [];
+  private matches: Announcement[] = [];
+
+  constructor(previous: ScanCheckpoint | null, startBlock: number, window: number) {
+    this.previous = previous;
+    // Only advance over a contiguous range, never past a gap
+    this.contiguous = !previous || startBlock <= previous.lastScannedBlock + 1;
+    this.window = window;
+    this.lastIndex = previous?.lastIndex;
+  }
+
+  /**
+   * Record an announcement of the scanned range (in chain order)
+   */
+  observe(announcement: Announcement): void {
+    // Announcement indices grow with block number, so only a contiguous range
+    // may raise lastIndex (otherwise the gap's announcements would be skipped).
+    // Remember each block's hash alongside the index reached at that block.
+    if (!this.contiguous) {
+      return;
+    }
+    if (announcement.index !== undefined) {
+      this.lastIndex = Math.max(this.lastIndex ?? announcement.index, announcement.index);
+    }
+    if (announcement.blockNumber === undefined || !announcement.blockHash) {
+      return;
+    }
+    const last = this.scanned[this.scanned.length - 1];
+    if (last?.blockNumber === announcement.blockNumber) {
+      last.lastIndex = this.lastIndex;
+      return;
+    }
+    this.scanned.push({
+      blockNumber: announcement.blockNumber,
+      blockHash: announcement.blockHash,
+      lastIndex: this.lastIndex,
+    });
+    if (this.scanned.length > 2 * this.window) {
+      this.scanned = this.scanned.slice(-this.window);
+    }
+  }
+
+  addMatch(announcement: Announcement): void {
+    this.matches.push(announcement);
+  }
+
+  build(endBlock: number, endBlockHash: string | null): ScanCheckpoint {
+    const previous = this.previous;
+    let lastScannedBlock = previous?.lastScannedBlock ?? -1;
+    let recentBlocks = previous?.recentBlocks ?? [];
+    if (this.contiguous) {
+      lastScannedBlock = Math.max(lastScannedBlock, endBlock);
+      const scanned = [...this.scanned];
+      if (endBlockHash && scanned[scanned.length - 1]?.blockNumber !== endBlock) {
+        scanned.push({ blockNumber: endBlock, blockHash: endBlockHash, lastIndex: this.lastIndex });
+      }
+      recentBlocks = [...recentBlocks, ...scanned].slice(-this.window);
+    }
+
+    return {
+      lastScannedBlock,
+      lastIndex: this.lastIndex,
+      matches: [...(previous?.matches ?? []), ...this.matches],
+      recentBlocks,
+    };
+  }
+}
+
 /**
  * StealthScanner - Scans for incoming stealth payments
  * 
  * Usage:
  * ```typescript
  * const scanner = new StealthScanner(config);
- * const results = await scanner.scan(spendingPubkey, viewingPrivKey, fromBlock);
+ * const results = await scanner.scan(keyring, fromBlock);
  * 
  * for (const result of results) {
  *   if (result.isOurs) {
  *     console.log(`Found payment at ${result.stealthAddress}`);
- *     console.log(`Spending key: ${result.spendingKey}`);
+ *     const signer = new StealthKeyringSigner(keyring, result.keyHandle!);
  *   }
  * }
  * ```
@@ -49,8 +285,13 @@ import {
 export class StealthScanner {
   private provider: RpcProvider;
   private config: StealthConfig;
+  private options: StealthScannerOptions;
   private registryContract: Contract | null = null;
   private accountClassHash: string | null = null;
+  private finalizedBlockHint = 0;
+  private matchers = new WeakMap<RawRecipientKeys, AnnouncementMatcher>();
+  // Kept across scans, so a chunk size the node rejected is not retried
+  private rpcSource: RpcAnnouncementSource | null = null;
   
   // Scanning statistics
   public stats = {
@@ -60,26 +301,54 @@ export class StealthScanner {
     scanTimeMs: 0,
   };
   
-  constructor(config: StealthConfig) {
+  constructor(config: StealthConfig, options: StealthScannerOptions = {}) {
     this.config = config;
+    this.options = options;
     this.provider = new RpcProvider({ nodeUrl: config.rpcUrl });
   }
   
   /**
-   * Initialize the scanner with contract ABIs
+   * Initialize the scanner
+   * 
+   * - initialize(): reads the account class hash from the factory
+   * - initialize(accountClassHash): with the bundled registry ABI
+   * - initialize(registryAbi, accountClassHash): with a custom registry ABI
    */
-  async initialize(registryAbi: any[], accountClassHash: string): Promise<void> {
+  async initialize(accountClassHash?: string): Promise<void>;
+  async initialize(registryAbi: Abi, accountClassHash: string): Promise<void>;
+  async initialize(...args: [string?] | [Abi, string]): Promise<void> {
+    const [registryAbi, accountClassHash] =
+      args.length === 2
+        ? args
+        : [
+            STEALTH_REGISTRY_ABI,
+            args[0] ??
+              (await new StealthFactoryClient(
+                this.config.factoryAddress,
+                this.provider
+              ).getAccountClassHash()),
+          ];
     this.registryContract = new Contract(
       registryAbi,
       this.config.registryAddress,
       this.provider
     );
     this.accountClassHash = accountClassHash;
+    this.matchers = new WeakMap();
   }
   
   /**
    * Scan for announcements belonging to us
    * 
+   * Accepts a StealthKeyring or raw keys, with an options object or
+   * positional block numbers:
+   * - scan(keys, options?)
+   * - scan(keyring, fromBlock?, toBlock?)
+   * - scan(spendingPubkey, viewingPrivKey, spendingPrivKey, fromBlock?, toBlock?)
+   * 
+   * Collects the results of scanIter(); use scanIter() directly to handle
+   * matches as they are found.
+   * 
    * @param spendingPubkey - Our spending public key
    * @param viewingPrivKey - Our viewing private key
    * @param spendingPrivKey - Our spending private key (for key derivation)
@@ -87,15 +356,35 @@ export class StealthScanner {
    * @param toBlock - End block for scanning (default: latest)
    * @returns Array of scan results
    */
-  async scan(
-    spendingPubkey: Point,
-    viewingPrivKey: bigint,
-    spendingPrivKey: bigint,
-    fromBlock: number = 0,
-    toBlock?: number
-  ): Promise<ScanResult[]> {
-    const startTime = Date.now();
+  async scan(...args: ScanArgs): Promise<ScanResult[]> {
+    const { recipient, options } = resolveScanArgs(args);
     const results: ScanResult[] = [];
+    for await (const result of this.scanIter(recipient, options)) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Stream matches as the source's pages are consumed
+   * 
+   * Only one page of announcements is held at a time. With a checkpoint
+   * store, the checkpoint is saved once the whole range has been scanned.
+   * 
+   * Usage:
+   * ```typescript
+   * for await (const result of scanner.scanIter(keyring, { fromBlock, signal })) {
+   *   console.log(`Found payment at ${result.stealthAddress}`);
+   * }
+   * ```
+   * 
+   * @param keys - Keyring or raw keys of the recipient
+   * @param options - Range, page size, abort signal and progress callback
+   */
+  async *scanIter(keys: RecipientKeys, options: ScanOptions = {}): AsyncGenerator<ScanResult> {
+    const { signal, onProgress } = options;
+    const fromBlock = options.fromBlock ?? 0;
+    const startTime = Date.now();
     
     // Reset stats
     this.stats = {
@@ -104,228 +393,488 @@ export class StealthScanner {
       confirmedMatches: 0,
       scanTimeMs: 0,
     };
+    throwIfAborted(signal);
+    assertNotWiped([keys]);
+
+    // Resume from the checkpoint, and pin the range so it records a fully scanned block
+    const store = this.options.checkpointStore;
+    const checkpointKey = this.getCheckpointKey(keys);
+    let checkpoint = store ? await store.load(checkpointKey) : null;
+    if (store && checkpoint) {
+      checkpoint = await this.reconcileCheckpoint(checkpointKey, checkpoint);
+    }
+
+    let startBlock = fromBlock;
+    let endBlock = options.toBlock;
+    let endBlockHash: string | null = null;
+    if (store || this.options.confirmationDepth !== undefined) {
+      if (checkpoint) {
+        startBlock = Math.max(fromBlock, checkpoint.lastScannedBlock + 1);
+      }
+      const head = await this.getConfirmedBlockNumber();
+      endBlock = endBlock === undefined ? head : Math.min(endBlock, head);
+      if (startBlock > endBlock) {
+        this.stats.scanTimeMs = Date.now() - startTime;
+        return;
+      }
+      // Read the end block hash before its events, so a reorg in between is
+      // caught by the next scan rather than missed
+      if (store) {
+        endBlockHash = await this.getCanonicalBlockHash(endBlock);
+      }
+    }
+    const builder = store
+      ? new CheckpointBuilder(
+          checkpoint,
+          startBlock,
+          this.options.reorgWindow ?? DEFAULT_REORG_WINDOW
+        )
+      : null;
     
-    // Fetch announcements
-    const announcements = await this.fetchAnnouncements(fromBlock, toBlock);
-    this.stats.totalAnnouncements = announcements.length;
-    
-    // Scan each announcement
-    for (const announcement of announcements) {
-      const result = await this.checkAnnouncement(
-        announcement,
-        spendingPubkey,
-        viewingPrivKey,
-        spendingPrivKey
-      );
-      
-      if (result.isOurs) {
-        results.push(result);
+    // Check each page as it arrives
+    let pages = 0;
+    for await (const page of this.fetchAnnouncementPages(startBlock, endBlock, options.pageSize)) {
+      throwIfAborted(signal);
+      // With a worker pool, the page is checked in parallel up front
+      const checked = this.options.workerPool
+        ? await this.checkAnnouncements(
+            page.filter((announcement) => !isProcessed(announcement, checkpoint)),
+            [keys]
+          )
+        : null;
+
+      let next = 0;
+      for (const announcement of page) {
+        throwIfAborted(signal);
+        this.stats.totalAnnouncements++;
+        builder?.observe(announcement);
+        if (isProcessed(announcement, checkpoint)) {
+          continue;
+        }
+
+        const result = checked
+          ? checked[next++][0]
+          : await this.checkRecipient(announcement, keys);
+        if (result.isOurs) {
+          builder?.addMatch(announcement);
+          this.stats.scanTimeMs = Date.now() - startTime;
+          yield result;
+        }
       }
+
+      pages++;
+      onProgress?.({
+        pages,
+        announcements: this.stats.totalAnnouncements,
+        matches: this.stats.confirmedMatches,
+        blockNumber: page[page.length - 1]?.blockNumber,
+      });
+      throwIfAborted(signal);
+    }
+
+    if (store && builder && endBlock !== undefined) {
+      await store.save(checkpointKey, builder.build(endBlock, endBlockHash));
     }
     
     this.stats.scanTimeMs = Date.now() - startTime;
-    return results;
+  }
+
+  /**
+   * Watch for new payments
+   * 
+   * Returns a subscription emitting 'payment', 'progress' and 'error' events.
+   * Uses starknet_subscribeEvents when `options.wsUrl` is set, block polling
+   * otherwise. With a confirmationDepth other than 'accepted' the
+   * subscription always polls, since WebSocket events arrive unconfirmed.
+   * 
+   * @param keys - Keyring or raw keys of the recipient
+   * @param options - Start block, WebSocket endpoint, polling interval
+   */
+  watch(keys: RecipientKeys, options: WatchOptions = {}): StealthSubscription {
+    if (!this.registryContract) {
+      throw new Error('Scanner not initialized - call initialize() first');
+    }
+    assertNotWiped([keys]);
+    const confirmed = (this.options.confirmationDepth ?? 'accepted') === 'accepted';
+    return new StealthSubscription(
+      {
+        registryAddress: this.config.registryAddress,
+        // decodeEvent filters scheme ids: a key filter would drop legacy events
+        keys: buildAnnouncementKeyFilter(),
+        getHead: () => this.getConfirmedBlockNumber(),
+        fetchAnnouncements: (fromBlock, toBlock) => this.fetchAnnouncements(fromBlock, toBlock),
+        decodeEvent: (event) => this.parseAnnouncementEvent(event),
+        checkAnnouncement: (announcement) => this.checkRecipient(announcement, keys),
+        announcementId,
+        reorgWindow: this.options.reorgWindow ?? DEFAULT_REORG_WINDOW,
+      },
+      confirmed ? options : { ...options, wsUrl: undefined }
+    );
+  }
+
+  /**
+   * Load the scan checkpoint for a recipient
+   * 
+   * @returns null if no checkpoint store is configured or nothing was scanned yet
+   */
+  async getCheckpoint(recipient: RecipientKeys): Promise<ScanCheckpoint | null> {
+    const store = this.options.checkpointStore;
+    return store ? store.load(this.getCheckpointKey(recipient)) : null;
+  }
+
+  /**
+   * Checkpoint key: one per chain, registry and spending key
+   */
+  private getCheckpointKey(recipient: RecipientKeys): string {
+    return [
+      num.toHex(this.config.chainId),
+      num.toHex(this.config.registryAddress),
+      num.toHex(recipient.spendingPubkey.x),
+    ].join(':');
+  }
+
+  /**
+   * Roll the checkpoint back to the newest remembered block that is still
+   * canonical, dropping matches from replaced blocks
+   * 
+   * Block hashes commit to their parent, so once one remembered block
+   * matches the chain, every block before it does too.
+   */
+  private async reconcileCheckpoint(
+    key: string,
+    checkpoint: ScanCheckpoint
+  ): Promise<ScanCheckpoint> {
+    const recentBlocks = checkpoint.recentBlocks ?? [];
+    let canonical = recentBlocks.length;
+    while (canonical > 0) {
+      const block = recentBlocks[canonical - 1];
+      const hash = await this.getCanonicalBlockHash(block.blockNumber);
+      if (hash !== null && BigInt(hash) === BigInt(block.blockHash)) {
+        break;
+      }
+      canonical--;
+    }
+    if (canonical === recentBlocks.length) {
+      return checkpoint;
+    }
+
+    // Rescan after the last canonical block, or (deeper than the window) from
+    // the oldest remembered block
+    const anchor = recentBlocks[canonical - 1];
+    const fromBlock = anchor ? anchor.blockNumber + 1 : recentBlocks[0].blockNumber;
+    const rolledBack: ScanCheckpoint = {
+      lastScannedBlock: fromBlock - 1,
+      lastIndex: anchor?.lastIndex,
+      matches: checkpoint.matches.filter(
+        (match) => match.blockNumber === undefined || match.blockNumber < fromBlock
+      ),
+      recentBlocks: recentBlocks.slice(0, canonical),
+    };
+    const removed = checkpoint.matches.filter(
+      (match) => match.blockNumber !== undefined && match.blockNumber >= fromBlock
+    );
+
+    await this.options.checkpointStore!.save(key, rolledBack);
+    await this.options.onReorg?.({ fromBlock, removed });
+    return rolledBack;
+  }
+
+  /**
+   * Hash of the canonical block at a height, or null if there is none
+   */
+  private async getCanonicalBlockHash(blockNumber: number): Promise<string | null> {
+    try {
+      const block = await this.provider.getBlockWithTxHashes(blockNumber);
+      return (block as { block_hash?: string }).block_hash ?? null;
+    } catch (error) {
+      // The chain may now be shorter than the remembered block
+      if (/block not found/i.test(String((error as Error)?.message ?? error))) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Highest block that satisfies the configured confirmation depth
+   */
+  private async getConfirmedBlockNumber(): Promise<number> {
+    const depth = this.options.confirmationDepth ?? 'accepted';
+    // The source may lag the node (e.g. an indexer): never go past its data
+    const latest = await this.getSource().getBlockNumber();
+    if (depth === 'accepted') {
+      return latest;
+    }
+    if (typeof depth === 'number') {
+      if (!Number.isInteger(depth) || depth < 0) {
+        throw new Error('confirmationDepth must be a non-negative integer');
+      }
+      return latest - depth;
+    }
+
+    // Binary search for the last block accepted on L1 (L1 acceptance is
+    // monotonic in block number)
+    let low = this.finalizedBlockHint;
+    let high = latest;
+    let finalized = low - 1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await this.provider.getBlockWithTxHashes(mid);
+      if ((block as { status?: string }).status === 'ACCEPTED_ON_L1') {
+        finalized = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    this.finalizedBlockHint = Math.max(finalized, 0);
+    return finalized;
   }
   
   /**
    * Check a single announcement
+   * 
+   * - checkAnnouncement(announcement, keys) (keyring, raw or view-only keys)
+   * - checkAnnouncement(announcement, spendingPubkey, viewingPrivKey, spendingPrivKey)
    */
   async checkAnnouncement(
     announcement: Announcement,
-    spendingPubkey: Point,
-    viewingPrivKey: bigint,
-    spendingPrivKey: bigint
+    ...keys:
+      | [keys: RecipientKeys]
+      | [spendingPubkey: Point, viewingPrivKey: bigint, spendingPrivKey: bigint]
   ): Promise<ScanResult> {
-    const ephemeralPubkey: Point = {
-      x: announcement.ephemeralPubkeyX,
-      y: announcement.ephemeralPubkeyY,
-    };
-    
-    // Step 1: Quick view tag check (fast path)
-    let viewTagMatches = false;
-    try {
-      viewTagMatches = checkViewTag(
-        viewingPrivKey,
-        ephemeralPubkey,
-        announcement.viewTag
-      );
-    } catch {
-      // Invalid curve point or scalar, treat as not ours
-      return { isOurs: false };
+    const recipient: RecipientKeys =
+      keys.length === 1
+        ? keys[0]
+        : { spendingPubkey: keys[0], viewingPrivKey: keys[1], spendingPrivKey: keys[2] };
+    return this.checkRecipient(announcement, recipient);
+  }
+
+  /**
+   * Check a single announcement against one recipient's keys
+   */
+  async checkRecipient(
+    announcement: Announcement,
+    recipient: RecipientKeys
+  ): Promise<ScanResult> {
+    if (!(recipient instanceof StealthKeyring)) {
+      return this.checkRawRecipient(announcement, recipient);
     }
-    
-    if (!viewTagMatches) {
+    if (!this.accountClassHash) {
+      throw new Error('Scanner not initialized - call initialize() first');
+    }
+
+    // Single pass inside the keyring: one ECDH and one hash of S. Invalid
+    // points are not ours, but a wiped keyring throws: that must end the scan
+    const { viewTagMatches, keyHandle } = recipient.match(
+      announcement,
+      this.config.factoryAddress,
+      this.accountClassHash
+    );
+    if (viewTagMatches) {
+      this.stats.viewTagMatches++;
+    }
+    if (!keyHandle) {
       return { isOurs: false };
     }
-    
-    this.stats.viewTagMatches++;
-    
-    // Step 2: Full verification (only if view tag matches)
+    this.stats.confirmedMatches++;
+    return {
+      isOurs: true,
+      announcement,
+      keyHandle,
+      stealthAddress: announcement.stealthAddress,
+    };
+  }
+
+  /**
+   * Check announcements for several recipients
+   * 
+   * With a worker pool, raw-key recipients are checked on worker threads
+   * and their stealth keys derived here; keyrings are checked on this
+   * thread. Results and stats are the same as checking one by one.
+   * 
+   * @param announcements - Announcements, in chain order
+   * @param recipients - Keyrings or raw keys
+   * @returns results[i][j] for announcement i and recipient j
+   */
+  async checkAnnouncements(
+    announcements: Announcement[],
+    recipients: RecipientKeys[]
+  ): Promise<ScanResult[][]> {
+    const pool = this.options.workerPool;
+    const pooled = recipients.flatMap((recipient, index) =>
+      recipient instanceof StealthKeyring ? [] : [index]
+    );
+    if (!pool || pooled.length === 0 || announcements.length === 0) {
+      const results: ScanResult[][] = [];
+      for (const announcement of announcements) {
+        const row: ScanResult[] = [];
+        for (const recipient of recipients) {
+          row.push(await this.checkRecipient(announcement, recipient));
+        }
+        results.push(row);
+      }
+      return results;
+    }
     if (!this.accountClassHash) {
       throw new Error('Scanner not initialized - call initialize() first');
     }
-    
-    let sharedSecret: Point | null = null;
-    try {
-      sharedSecret = verifyStealthAddress(
-        spendingPubkey,
-        viewingPrivKey,
-        ephemeralPubkey,
-        announcement.stealthAddress,
+
+    const checked = pool.check(
+      announcements,
+      pooled.map((index) => recipients[index] as RawRecipientKeys),
+      this.config.factoryAddress,
+      this.accountClassHash
+    );
+    // Rejections are handled below, after the keyrings
+    checked.catch(() => undefined);
+    // Keyrings run here while the workers are busy
+    const results: ScanResult[][] = [];
+    for (const announcement of announcements) {
+      const row: ScanResult[] = [];
+      for (const recipient of recipients) {
+        row.push(
+          recipient instanceof StealthKeyring
+            ? await this.checkRecipient(announcement, recipient)
+            : { isOurs: false }
+        );
+      }
+      results.push(row);
+    }
+
+    const { matches, viewTagMatches } = await checked;
+    this.stats.viewTagMatches += viewTagMatches;
+    for (const match of matches) {
+      const announcement = announcements[match.announcement];
+      const recipient = recipients[pooled[match.recipient]] as RawRecipientKeys;
+      const result: ScanResult = {
+        isOurs: true,
+        announcement,
+        stealthAddress: announcement.stealthAddress,
+        stealthPubkey: match.stealthPubkey,
+        sharedSecretHash: match.sharedSecretHash,
+      };
+      if (recipient.spendingPrivKey !== undefined) {
+        result.spendingKey = deriveMatchSpendingKey(result, recipient.spendingPrivKey);
+      }
+      this.stats.confirmedMatches++;
+      results[match.announcement][pooled[match.recipient]] = result;
+    }
+    return results;
+  }
+
+  /**
+   * Check an announcement against raw keys in a single pass
+   * 
+   * The recipient's AnnouncementMatcher is reused across calls, so keys are
+   * normalized once per recipient rather than once per announcement.
+   */
+  private checkRawRecipient(announcement: Announcement, recipient: RawRecipientKeys): ScanResult {
+    if (!this.accountClassHash) {
+      throw new Error('Scanner not initialized - call initialize() first');
+    }
+    let matcher = this.matchers.get(recipient);
+    if (!matcher) {
+      matcher = new AnnouncementMatcher(
+        recipient,
         this.config.factoryAddress,
         this.accountClassHash
       );
-    } catch {
-      return { isOurs: false };
+      this.matchers.set(recipient, matcher);
     }
-    
-    if (!sharedSecret) {
-      // False positive from view tag collision
+
+    const { viewTagMatches, match } = matcher.check(announcement);
+    if (viewTagMatches) {
+      this.stats.viewTagMatches++;
+    }
+    if (!match) {
       return { isOurs: false };
     }
     
     this.stats.confirmedMatches++;
-    
-    // Step 3: Derive spending key
-    const derivedSpendingKey = deriveStealthPrivateKey(
-      spendingPrivKey,
-      sharedSecret
-    );
-    
     return {
       isOurs: true,
       announcement,
-      spendingKey: derivedSpendingKey,
+      spendingKey: match.stealthPrivKey,
       stealthAddress: announcement.stealthAddress,
+      stealthPubkey: match.stealthPubkey,
+      sharedSecretHash: match.sharedSecretHash,
     };
   }
+
   
   /**
-   * Fetch announcements from the registry contract
+   * Fetch announcements from the announcement source
    */
   async fetchAnnouncements(
     fromBlock: number,
     toBlock?: number
   ): Promise<Announcement[]> {
-    // In a real implementation, you would use events.getEvents()
-    // This is a simplified version using direct event fetching
-    
     if (!this.registryContract) {
       throw new Error('Scanner not initialized - call initialize() first');
     }
     
-    const announcements: Announcement[] = [];
-    
-    try {
-      let continuation: string | undefined = undefined;
-      let page = 0;
-      const maxPages = 1000;
-
-      while (true) {
-        const eventResponse = await this.provider.getEvents({
-          address: this.config.registryAddress,
-          from_block: { block_number: fromBlock },
-          to_block: toBlock ? { block_number: toBlock } : 'latest',
-          keys: [],
-          chunk_size: 1000,
-          continuation_token: continuation,
-        });
-
-        for (const event of eventResponse.events) {
-          const announcement = this.parseAnnouncementEvent(event);
-          if (announcement) {
-            announcements.push(announcement);
-          }
-        }
+    const announcements = await this.getSource().fetchAnnouncements(fromBlock, toBlock);
+    return announcements.filter((announcement) => this.isWatchedScheme(announcement));
+  }
 
-        continuation = eventResponse.continuation_token;
-        if (!continuation) {
-          break;
-        }
+  /**
+   * Fetch announcements from the announcement source, one page at a time
+   * 
+   * Sources without page support return everything as one page.
+   */
+  async *fetchAnnouncementPages(
+    fromBlock: number,
+    toBlock?: number,
+    pageSize?: number
+  ): AsyncGenerator<Announcement[]> {
+    if (!this.registryContract) {
+      throw new Error('Scanner not initialized - call initialize() first');
+    }
 
-        page += 1;
-        if (page > maxPages) {
-          throw new Error('Event pagination limit exceeded');
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching announcements:', error);
-      throw error;
+    const source = this.getSource();
+    const pages = source.fetchAnnouncementPages
+      ? source.fetchAnnouncementPages(fromBlock, toBlock, { pageSize })
+      : [await source.fetchAnnouncements(fromBlock, toBlock)];
+    for await (const page of pages) {
+      yield page.filter((announcement) => this.isWatchedScheme(announcement));
     }
-    
-    return announcements;
+  }
+
+  /**
+   * The configured source, or the registry on this scanner's provider
+   */
+  private getSource(): AnnouncementSource {
+    if (this.options.source) {
+      return this.options.source;
+    }
+    this.rpcSource ??= new RpcAnnouncementSource({
+      ...this.options.fetchOptions,
+      provider: this.provider,
+      registryAddress: this.config.registryAddress,
+      schemeIds: this.config.schemeIds,
+    });
+    return this.rpcSource;
+  }
+
+  private isWatchedScheme(announcement: Announcement): boolean {
+    const { schemeIds } = this.config;
+    return !schemeIds || schemeIds.length === 0 || schemeIds.includes(announcement.schemeId);
   }
   
   /**
    * Parse a raw event into an Announcement
+   * 
+   * Decoding is driven by the event selector (see events.ts); events that
+   * are not announcements, or are for other scheme ids, return null.
    */
-  private parseAnnouncementEvent(event: any): Announcement | null {
+  private parseAnnouncementEvent(event: RawRegistryEvent): Announcement | null {
     try {
-      // The event data structure depends on your contract's event definition
-      // This is a generic parser - adjust based on actual event structure
-      const data = event.data || [];
-      const keys = event.keys || [];
-      
-      // Expected event structure (current):
-      // keys[0] = event selector
-      // keys[1] = scheme_id (indexed)
-      // keys[2] = view_tag (indexed)
-      // data[0] = ephemeral_pubkey_x
-      // data[1] = ephemeral_pubkey_y
-      // data[2] = stealth_address (felt)
-      // data[3] = metadata
-      // data[4] = index
-      //
-      // Legacy layout (fallback):
-      // keys[0] = event selector
-      // keys[1] = view_tag (indexed)
-      // data[0] = scheme_id
-      // data[1] = ephemeral_pubkey_x
-      // data[2] = ephemeral_pubkey_y
-      // data[3] = stealth_address
-      // data[4] = metadata
-      if (data.length < 5) {
+      const announcement = decodeAnnouncementEvent(event);
+      if (!announcement || !this.isWatchedScheme(announcement)) {
         return null;
       }
-
-      let schemeId = 0;
-      let viewTag = 0;
-      let ephemeralPubkeyX: bigint;
-      let ephemeralPubkeyY: bigint;
-      let stealthAddress: string;
-      let metadata: bigint;
-      let index: number | undefined;
-
-      if (keys.length >= 3) {
-        schemeId = Number(BigInt(keys[1]) % 256n);
-        viewTag = Number(BigInt(keys[2]) % 256n);
-        ephemeralPubkeyX = BigInt(data[0]);
-        ephemeralPubkeyY = BigInt(data[1]);
-        stealthAddress = num.toHex(BigInt(data[2]));
-        metadata = BigInt(data[3] || 0);
-        index = data[4] !== undefined ? Number(BigInt(data[4])) : undefined;
-      } else if (keys.length >= 2) {
-        schemeId = Number(data[0]);
-        viewTag = Number(BigInt(keys[1]) % 256n);
-        ephemeralPubkeyX = BigInt(data[1]);
-        ephemeralPubkeyY = BigInt(data[2]);
-        stealthAddress = num.toHex(BigInt(data[3]));
-        metadata = BigInt(data[4] || 0);
-      } else {
-        return null;
-      }
-
-      return {
-        schemeId,
-        ephemeralPubkeyX,
-        ephemeralPubkeyY,
-        stealthAddress,
-        viewTag,
-        metadata,
-        blockNumber: event.block_number,
-        txHash: event.transaction_hash,
-        index,
-      };
+      return announcement;
     } catch (error) {
       console.error('Error parsing announcement event:', error);
       return null;
@@ -365,32 +914,49 @@ export class StealthScanner {
  */
 export class BatchScanner {
   private scanner: StealthScanner;
+  private workerPool?: ScanWorkerPool;
   
-  constructor(config: StealthConfig) {
-    this.scanner = new StealthScanner(config);
+  /**
+   * @param config - Network and contract addresses
+   * @param options - Announcement source, RPC fetch options and worker pool
+   *   (checkpoints are per recipient and not used by batch scans)
+   */
+  constructor(
+    config: StealthConfig,
+    options: Pick<StealthScannerOptions, 'source' | 'fetchOptions' | 'workerPool'> = {}
+  ) {
+    this.scanner = new StealthScanner(config, options);
+    this.workerPool = options.workerPool;
   }
   
-  async initialize(registryAbi: any[], accountClassHash: string): Promise<void> {
-    await this.scanner.initialize(registryAbi, accountClassHash);
+  /**
+   * Initialize the scanner (see StealthScanner.initialize)
+   */
+  async initialize(accountClassHash?: string): Promise<void>;
+  async initialize(registryAbi: Abi, accountClassHash: string): Promise<void>;
+  async initialize(...args: [string?] | [Abi, string]): Promise<void> {
+    await (args.length === 2
+      ? this.scanner.initialize(args[0], args[1])
+      : this.scanner.initialize(args[0]));
   }
   
   /**
    * Scan for multiple recipients
    * 
-   * @param recipients - Array of recipient key sets
+   * - scanBatch(recipients, options?)
+   * - scanBatch(recipients, fromBlock?, toBlock?)
+   * 
+   * @param recipients - Array of recipient key sets or keyrings
    * @param fromBlock - Start block
    * @param toBlock - End block
    * @returns Map of recipient index to their scan results
    */
   async scanBatch(
-    recipients: Array<{
-      spendingPubkey: Point;
-      viewingPrivKey: bigint;
-      spendingPrivKey: bigint;
-    }>,
-    fromBlock: number = 0,
+    recipients: RecipientKeys[],
+    fromBlock: number | ScanOptions = 0,
     toBlock?: number
   ): Promise<Map<number, ScanResult[]>> {
+    const options = typeof fromBlock === 'object' ? fromBlock : { fromBlock, toBlock };
     const results = new Map<number, ScanResult[]>();
     
     // Initialize result arrays
@@ -398,27 +964,65 @@ export class BatchScanner {
       results.set(i, []);
     }
     
-    // Fetch announcements once
-    const announcements = await this.scanner.fetchAnnouncements(fromBlock, toBlock);
+    for await (const match of this.scanBatchIter(recipients, options)) {
+      results.get(match.recipient)!.push(match.result);
+    }
     
-    // Check each announcement against all recipients
-    for (const announcement of announcements) {
-      for (let i = 0; i < recipients.length; i++) {
-        const recipient = recipients[i];
-        const result = await this.scanner.checkAnnouncement(
-          announcement,
-          recipient.spendingPubkey,
-          recipient.viewingPrivKey,
-          recipient.spendingPrivKey
-        );
-        
-        if (result.isOurs) {
-          results.get(i)!.push(result);
+    return results;
+  }
+
+  /**
+   * Stream matches for multiple recipients, one page at a time
+   * 
+   * Each page is fetched once and checked against every recipient.
+   */
+  async *scanBatchIter(
+    recipients: RecipientKeys[],
+    options: ScanOptions = {}
+  ): AsyncGenerator<BatchScanMatch> {
+    const { signal, onProgress } = options;
+    throwIfAborted(signal);
+    assertNotWiped(recipients);
+
+    let pages = 0;
+    let announcements = 0;
+    let matches = 0;
+    const pageIterator = this.scanner.fetchAnnouncementPages(
+      options.fromBlock ?? 0,
+      options.toBlock,
+      options.pageSize
+    );
+    for await (const page of pageIterator) {
+      // With a worker pool, the page is checked in parallel up front
+      const checked = this.workerPool
+        ? await this.scanner.checkAnnouncements(page, recipients)
+        : null;
+
+      // Check each announcement against all recipients
+      for (let a = 0; a < page.length; a++) {
+        throwIfAborted(signal);
+        announcements++;
+        for (let i = 0; i < recipients.length; i++) {
+          const result = checked
+            ? checked[a][i]
+            : await this.scanner.checkRecipient(page[a], recipients[i]);
+          
+          if (result.isOurs) {
+            matches++;
+            yield { recipient: i, result };
+          }
         }
       }
+
+      pages++;
+      onProgress?.({
+        pages,
+        announcements,
+        matches,
+        blockNumber: page[page.length - 1]?.blockNumber,
+      });
+      throwIfAborted(signal);
     }
-    
-    return results;
   }
 }
 
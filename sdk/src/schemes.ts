@@ -0,0 +1,247 @@
+/**
+ * Stealth Scheme Registry
+ *
+ * Maps on-chain `scheme_id` values to their cryptographic implementation.
+ * Mirrors `SchemeId` in src/types/announcement.cairo:
+ *
+ * - 0: STARK curve ECDH, single key (V = K)
+ * - 1: STARK curve ECDH, dual key (view + spend separation)
+ * - 2: secp256k1 ECDH, ERC-5564 compatible (see secp256k1.ts)
+ * - 255: reserved for post-quantum schemes
+ *
+ * New schemes implement StealthScheme and call registerScheme().
+ */
+
+import type { Point, RandomBytesFn, StealthMetaAddress } from './types.js';
+import { SECP256K1_SCHEME } from './secp256k1.js';
+import {
+  computeNormalizedSharedSecret,
+  computeSharedSecret,
+  computeStealthContractAddress,
+  computeStealthSalt,
+  computeViewTag,
+  decompressPoint,
+  deriveStealthPrivateKey,
+  deriveStealthKeysFromHash,
+  deriveStealthPrivateKeyFromHash,
+  deriveStealthPubkey,
+  generatePrivateKey,
+  getPublicKey,
+  hashSharedSecret,
+  hashSharedSecretWithViewTag,
+  isPointOnCurve,
+  normalizePrivateKey,
+} from './stealth.js';
+
+/**
+ * A stealth address scheme (curve + hash + address derivation)
+ */
+export interface StealthScheme {
+  /** On-chain scheme_id */
+  readonly id: number;
+  /** Human-readable name */
+  readonly name: string;
+  /** Curve name, for error messages */
+  readonly curve: string;
+  /** Whether meta-addresses carry a separate viewing key */
+  readonly dualKey: boolean;
+
+  // Key generation
+  /** Generate a random private key */
+  generatePrivateKey(rng?: RandomBytesFn): bigint;
+  /** Map a private key to its canonical form */
+  normalizePrivateKey(privateKey: bigint): bigint;
+  /** Derive a public key */
+  getPublicKey(privateKey: bigint): Point;
+  /** Validate a public key, recovering y when omitted */
+  decodePublicKey(x: bigint, y?: bigint): Point;
+  /** Validate a meta-address for this scheme (throws on error) */
+  validateMetaAddress(metaAddress: StealthMetaAddress): void;
+
+  // Announcement encoding
+  /** Encode an ephemeral public key as the announcement's two felts */
+  encodeAnnouncementKey(ephemeralPubkey: Point): { x: bigint; y: bigint };
+  /** Decode the announcement's two felts into an ephemeral public key */
+  decodeAnnouncementKey(x: bigint, y: bigint): Point;
+
+  // Shared secret and view tag
+  /** ECDH: scalar * point */
+  computeSharedSecret(privateKey: bigint, publicKey: Point): Point;
+  /** 8-bit view tag from the shared secret */
+  computeViewTag(sharedSecret: Point): number;
+
+  // Stealth key derivation
+  /** h = hash(S), as a scalar */
+  hashSharedSecret(sharedSecret: Point): bigint;
+  /** P = K + hash(S)*G */
+  deriveStealthPubkey(spendingPubkey: Point, sharedSecret: Point): Point;
+  /** p = k + hash(S) mod n */
+  deriveStealthPrivateKey(spendingPrivKey: bigint, sharedSecret: Point): bigint;
+  /** p = k + h mod n, from h = hashSharedSecret(S) */
+  deriveStealthPrivateKeyFromHash(spendingPrivKey: bigint, sharedSecretHash: bigint): bigint;
+
+  // Single-pass scanning (see AnnouncementMatcher)
+  /** ECDH with a private key already passed through normalizePrivateKey() */
+  computeNormalizedSharedSecret(normalizedPrivKey: bigint, publicKey: Point): Point;
+  /** View tag and h = hash(S) from one hash evaluation */
+  hashSharedSecretWithViewTag(sharedSecret: Point): { viewTag: number; sharedSecretHash: bigint };
+  /** P = K + h*G, and p = k + h mod n when the normalized spending key is given */
+  deriveStealthKeysFromHash(
+    spendingPubkey: Point,
+    sharedSecretHash: bigint,
+    normalizedSpendingPrivKey?: bigint
+  ): { stealthPubkey: Point; stealthPrivKey?: bigint };
+
+  // Address computation
+  /** Deployment salt for the stealth account */
+  computeSalt(ephemeralPubkey: Point): bigint;
+  /** Starknet address of the stealth account */
+  computeStealthAddress(
+    stealthPubkey: Point,
+    salt: bigint,
+    factoryAddress: string,
+    accountClassHash: string
+  ): string;
+}
+
+// ============================================================================
+// STARK Curve Schemes (0 and 1)
+// ============================================================================
+
+function createStarkScheme(id: number, name: string, dualKey: boolean): StealthScheme {
+  return {
+    id,
+    name,
+    curve: 'STARK',
+    dualKey,
+    generatePrivateKey: (rng) => generatePrivateKey(rng),
+    normalizePrivateKey: (privateKey) => normalizePrivateKey(privateKey),
+    getPublicKey: (privateKey) => getPublicKey(privateKey),
+    decodePublicKey(x, y) {
+      if (y === undefined) {
+        return decompressPoint(x);
+      }
+      const point = { x, y };
+      if (!isPointOnCurve(point)) {
+        throw new Error('Invalid public key point (not on STARK curve)');
+      }
+      return point;
+    },
+    validateMetaAddress(metaAddress) {
+      if (!isPointOnCurve(metaAddress.spendingKey)) {
+        throw new Error('Invalid spending public key point (not on STARK curve)');
+      }
+      if (!isPointOnCurve(metaAddress.viewingKey)) {
+        throw new Error('Invalid viewing public key point (not on STARK curve)');
+      }
+      const sameKey =
+        metaAddress.spendingKey.x === metaAddress.viewingKey.x &&
+        metaAddress.spendingKey.y === metaAddress.viewingKey.y;
+      if (!dualKey && !sameKey) {
+        throw new Error(`Viewing key must match spending key for scheme_id ${id}`);
+      }
+    },
+    encodeAnnouncementKey: (ephemeralPubkey) => ({ x: ephemeralPubkey.x, y: ephemeralPubkey.y }),
+    // A y of 0 marks an x-only canonical key
+    decodeAnnouncementKey: (x, y) => (y === 0n ? decompressPoint(x) : { x, y }),
+    computeSharedSecret: (privateKey, publicKey) => computeSharedSecret(privateKey, publicKey),
+    computeViewTag: (sharedSecret) => computeViewTag(sharedSecret),
+    hashSharedSecret: (sharedSecret) => hashSharedSecret(sharedSecret),
+    deriveStealthPubkey: (spendingPubkey, sharedSecret) =>
+      deriveStealthPubkey(spendingPubkey, sharedSecret),
+    deriveStealthPrivateKey: (spendingPrivKey, sharedSecret) =>
+      deriveStealthPrivateKey(spendingPrivKey, sharedSecret),
+    deriveStealthPrivateKeyFromHash: (spendingPrivKey, sharedSecretHash) =>
+      deriveStealthPrivateKeyFromHash(spendingPrivKey, sharedSecretHash),
+    computeNormalizedSharedSecret: (normalizedPrivKey, publicKey) =>
+      computeNormalizedSharedSecret(normalizedPrivKey, publicKey),
+    hashSharedSecretWithViewTag: (sharedSecret) => hashSharedSecretWithViewTag(sharedSecret),
+    deriveStealthKeysFromHash: (spendingPubkey, sharedSecretHash, normalizedSpendingPrivKey) =>
+      deriveStealthKeysFromHash(spendingPubkey, sharedSecretHash, normalizedSpendingPrivKey),
+    computeSalt: (ephemeralPubkey) => computeStealthSalt(ephemeralPubkey),
+    computeStealthAddress: (stealthPubkey, salt, factoryAddress, accountClassHash) =>
+      computeStealthContractAddress({
+        classHash: accountClassHash,
+        deployerAddress: factoryAddress,
+        salt,
+        constructorCalldata: [stealthPubkey.x, stealthPubkey.y],
+      }),
+  };
+}
+
+/** Scheme 0: single-key STARK curve ECDH */
+export const STARK_SINGLE_KEY_SCHEME: StealthScheme = createStarkScheme(
+  0,
+  'stark-single-key',
+  false
+);
+
+/** Scheme 1: dual-key STARK curve ECDH */
+export const STARK_DUAL_KEY_SCHEME: StealthScheme = createStarkScheme(
+  1,
+  'stark-dual-key',
+  true
+);
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Map<number, StealthScheme>();
+
+/**
+ * Register a scheme implementation
+ *
+ * @param scheme - Scheme to register
+ * @param options - Set `replace` to override an existing registration
+ */
+export function registerScheme(
+  scheme: StealthScheme,
+  options: { replace?: boolean } = {}
+): void {
+  if (!Number.isInteger(scheme.id) || scheme.id < 0 || scheme.id > 255) {
+    throw new Error('scheme_id must be an 8-bit value');
+  }
+  if (registry.has(scheme.id) && !options.replace) {
+    throw new Error(`scheme_id ${scheme.id} is already registered`);
+  }
+  registry.set(scheme.id, scheme);
+}
+
+/**
+ * Remove a scheme registration
+ */
+export function unregisterScheme(id: number): void {
+  registry.delete(id);
+}
+
+/**
+ * Get the scheme for a scheme_id
+ *
+ * @throws if no scheme is registered for the id
+ */
+export function getScheme(id: number): StealthScheme {
+  const scheme = registry.get(id);
+  if (!scheme) {
+    throw new Error(`Unsupported scheme_id: ${id}`);
+  }
+  return scheme;
+}
+
+/**
+ * Check whether a scheme is registered for a scheme_id
+ */
+export function hasScheme(id: number): boolean {
+  return registry.has(id);
+}
+
+/**
+ * List registered scheme ids
+ */
+export function listSchemes(): number[] {
+  return [...registry.keys()].sort((a, b) => a - b);
+}
+
+registerScheme(STARK_SINGLE_KEY_SCHEME);
+registerScheme(STARK_DUAL_KEY_SCHEME);
+registerScheme(SECP256K1_SCHEME);
@@ -0,0 +1,318 @@
+/**
+ * secp256k1 Stealth Scheme (scheme_id 2)
+ *
+ * ERC-5564 scheme 1 cryptography on Starknet, so a single `st:eth:`
+ * meta-address can receive on Ethereum and Starknet:
+ *
+ * - S = r * V (secp256k1 ECDH)
+ * - h = keccak256(compressed S)
+ * - view tag = first byte of h
+ * - P = K + h*G, p = k + h mod n
+ *
+ * The stealth account is any Starknet account class controlled by a
+ * secp256k1 key whose constructor takes the public key as two u256
+ * (e.g. OpenZeppelin EthAccount): calldata [x.low, x.high, y.low, y.high].
+ *
+ * Announcements carry the 33-byte compressed ephemeral key split across the
+ * two felts: the first 17 bytes (prefix and high x bytes) and the last 16.
+ * The deployed StealthRegistry only accepts scheme_id 0 and 1, so scheme 2
+ * announcements need a registry that allows it.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { poseidonHashMany } from '@scure/starknet';
+import { hash, uint256 } from 'starknet';
+import type { Point, RandomBytesFn, StealthMetaAddress } from './types.js';
+import type { StealthScheme } from './schemes.js';
+
+/** On-chain scheme_id (SchemeId::SECP256K1_ECDH) */
+export const SECP256K1_SCHEME_ID = 2;
+
+/** ERC-5564 meta-address URI prefix (Ethereum mainnet short name) */
+export const ERC5564_META_ADDRESS_PREFIX = 'st:eth:';
+
+const CURVE_ORDER = secp256k1.CURVE.n;
+const COMPRESSED_BYTES = 33;
+const ANNOUNCEMENT_HIGH_BYTES = 17;
+
+function defaultRandomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + bytesToHex(bytes));
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  return hexToBytes(value.toString(16).padStart(length * 2, '0'));
+}
+
+function toCurvePoint(point: Point) {
+  const p = secp256k1.Point.fromAffine(point);
+  p.assertValidity();
+  return p;
+}
+
+function fromCurvePoint(point: InstanceType<typeof secp256k1.Point>): Point {
+  const { x, y } = point.toAffine();
+  return { x, y };
+}
+
+function assertScalar(scalar: bigint): void {
+  if (scalar <= 0n || scalar >= CURVE_ORDER) {
+    throw new Error('Invalid secp256k1 private key (must be in [1, n-1])');
+  }
+}
+
+/**
+ * Encode a secp256k1 public key in SEC1 compressed form (33 bytes)
+ */
+export function compressSecp256k1Point(point: Point): Uint8Array {
+  return toCurvePoint(point).toBytes(true);
+}
+
+/**
+ * Decode a SEC1 (compressed or uncompressed) secp256k1 public key
+ */
+export function decompressSecp256k1Point(bytes: Uint8Array): Point {
+  const point = secp256k1.Point.fromHex(bytes);
+  point.assertValidity();
+  return fromCurvePoint(point);
+}
+
+/**
+ * Hash the shared secret: h = keccak256(compressed S)
+ */
+function hashSharedSecret(sharedSecret: Point): Uint8Array {
+  return keccak_256(compressSecp256k1Point(sharedSecret));
+}
+
+function hashSharedSecretScalar(sharedSecret: Point): bigint {
+  const scalar = bytesToBigInt(hashSharedSecret(sharedSecret)) % CURVE_ORDER;
+  if (scalar === 0n) {
+    throw new Error('Invalid shared secret hash');
+  }
+  return scalar;
+}
+
+/**
+ * Compute the Ethereum address of a secp256k1 public key (EIP-55 checksummed)
+ *
+ * This is where the same ERC-5564 payment lands on Ethereum.
+ */
+export function computeEthereumAddress(publicKey: Point): string {
+  const uncompressed = toCurvePoint(publicKey).toBytes(false);
+  const address = bytesToHex(keccak_256(uncompressed.slice(1)).slice(-20));
+  const checksum = bytesToHex(keccak_256(utf8ToBytes(address)));
+  let result = '0x';
+  for (let i = 0; i < address.length; i++) {
+    result += parseInt(checksum[i], 16) >= 8 ? address[i].toUpperCase() : address[i];
+  }
+  return result;
+}
+
+/**
+ * Create a scheme 2 meta-address from secp256k1 private keys
+ *
+ * @param spendingKey - Spending private key (k)
+ * @param viewingKey - Viewing private key (v), defaults to k
+ */
+export function createSecp256k1MetaAddress(
+  spendingKey: bigint,
+  viewingKey: bigint = spendingKey
+): StealthMetaAddress {
+  return {
+    spendingKey: SECP256K1_SCHEME.getPublicKey(spendingKey),
+    viewingKey: SECP256K1_SCHEME.getPublicKey(viewingKey),
+    schemeId: SECP256K1_SCHEME_ID,
+  };
+}
+
+/**
+ * Format a scheme 2 meta-address as an ERC-5564 URI
+ *
+ * @returns st:eth:0x<spending key (33 bytes)><viewing key (33 bytes)>
+ */
+export function formatErc5564MetaAddress(metaAddress: StealthMetaAddress): string {
+  if (metaAddress.schemeId !== SECP256K1_SCHEME_ID) {
+    throw new Error(`ERC-5564 meta-addresses require scheme_id ${SECP256K1_SCHEME_ID}`);
+  }
+  const keys = concatBytes(
+    compressSecp256k1Point(metaAddress.spendingKey),
+    compressSecp256k1Point(metaAddress.viewingKey)
+  );
+  return `${ERC5564_META_ADDRESS_PREFIX}0x${bytesToHex(keys)}`;
+}
+
+/**
+ * Parse an ERC-5564 `st:eth:` meta-address into a scheme 2 meta-address
+ *
+ * A single 33-byte key is used for both spending and viewing.
+ */
+export function parseErc5564MetaAddress(uri: string): StealthMetaAddress {
+  const trimmed = uri.trim();
+  if (!trimmed.startsWith(ERC5564_META_ADDRESS_PREFIX)) {
+    throw new Error('Not an ERC-5564 st:eth: meta-address');
+  }
+
+  const payload = trimmed.slice(ERC5564_META_ADDRESS_PREFIX.length).replace(/^0x/i, '');
+  if (
+    !/^[0-9a-fA-F]*$/.test(payload) ||
+    (payload.length !== COMPRESSED_BYTES * 2 && payload.length !== COMPRESSED_BYTES * 4)
+  ) {
+    throw new Error('Malformed ERC-5564 meta-address');
+  }
+
+  const bytes = hexToBytes(payload.toLowerCase());
+  let spendingKey: Point;
+  let viewingKey: Point;
+  try {
+    spendingKey = decompressSecp256k1Point(bytes.slice(0, COMPRESSED_BYTES));
+    viewingKey = bytes.length > COMPRESSED_BYTES
+      ? decompressSecp256k1Point(bytes.slice(COMPRESSED_BYTES))
+      : spendingKey;
+  } catch {
+    throw new Error('Invalid ERC-5564 meta-address key (not on secp256k1 curve)');
+  }
+
+  return { spendingKey, viewingKey, schemeId: SECP256K1_SCHEME_ID };
+}
+
+/** Scheme 2: secp256k1 ECDH with ERC-5564 hashing and view tags */
+export const SECP256K1_SCHEME: StealthScheme = {
+  id: SECP256K1_SCHEME_ID,
+  name: 'secp256k1-erc5564',
+  curve: 'secp256k1',
+  dualKey: true,
+
+  generatePrivateKey(rng: RandomBytesFn = defaultRandomBytes) {
+    for (;;) {
+      const randomBytes = rng(32);
+      if (randomBytes.length !== 32) {
+        throw new Error('Random source must return 32 bytes');
+      }
+      const key = bytesToBigInt(randomBytes);
+      if (key > 0n && key < CURVE_ORDER) {
+        return key;
+      }
+    }
+  },
+  normalizePrivateKey(privateKey) {
+    assertScalar(privateKey);
+    return privateKey;
+  },
+  getPublicKey(privateKey) {
+    assertScalar(privateKey);
+    return fromCurvePoint(secp256k1.Point.BASE.multiply(privateKey));
+  },
+  decodePublicKey(x, y) {
+    if (y === undefined) {
+      throw new Error('secp256k1 public keys need a y coordinate or SEC1 prefix');
+    }
+    return fromCurvePoint(toCurvePoint({ x, y }));
+  },
+  validateMetaAddress(metaAddress) {
+    try {
+      toCurvePoint(metaAddress.spendingKey);
+    } catch {
+      throw new Error('Invalid spending public key point (not on secp256k1 curve)');
+    }
+    try {
+      toCurvePoint(metaAddress.viewingKey);
+    } catch {
+      throw new Error('Invalid viewing public key point (not on secp256k1 curve)');
+    }
+  },
+
+  encodeAnnouncementKey(ephemeralPubkey) {
+    const bytes = compressSecp256k1Point(ephemeralPubkey);
+    return {
+      x: bytesToBigInt(bytes.slice(0, ANNOUNCEMENT_HIGH_BYTES)),
+      y: bytesToBigInt(bytes.slice(ANNOUNCEMENT_HIGH_BYTES)),
+    };
+  },
+  decodeAnnouncementKey(x, y) {
+    const high = ANNOUNCEMENT_HIGH_BYTES;
+    const low = COMPRESSED_BYTES - ANNOUNCEMENT_HIGH_BYTES;
+    if (x >= 1n << BigInt(high * 8) || y >= 1n << BigInt(low * 8)) {
+      throw new Error('Invalid secp256k1 announcement key encoding');
+    }
+    return decompressSecp256k1Point(concatBytes(bigIntToBytes(x, high), bigIntToBytes(y, low)));
+  },
+
+  computeSharedSecret(privateKey, publicKey) {
+    assertScalar(privateKey);
+    return fromCurvePoint(toCurvePoint(publicKey).multiply(privateKey));
+  },
+  computeViewTag(sharedSecret) {
+    return hashSharedSecret(sharedSecret)[0];
+  },
+
+  hashSharedSecret: (sharedSecret) => hashSharedSecretScalar(sharedSecret),
+  deriveStealthPubkey(spendingPubkey, sharedSecret) {
+    return SECP256K1_SCHEME.deriveStealthKeysFromHash(
+      spendingPubkey,
+      hashSharedSecretScalar(sharedSecret)
+    ).stealthPubkey;
+  },
+  deriveStealthPrivateKey(spendingPrivKey, sharedSecret) {
+    return SECP256K1_SCHEME.deriveStealthPrivateKeyFromHash(
+      spendingPrivKey,
+      hashSharedSecretScalar(sharedSecret)
+    );
+  },
+  deriveStealthPrivateKeyFromHash(spendingPrivKey, sharedSecretHash) {
+    assertScalar(spendingPrivKey);
+    if (sharedSecretHash <= 0n || sharedSecretHash >= CURVE_ORDER) {
+      throw new Error('Invalid shared secret hash');
+    }
+    return (spendingPrivKey + sharedSecretHash) % CURVE_ORDER;
+  },
+
+  // Private keys need no normalization on secp256k1
+  computeNormalizedSharedSecret: (privateKey, publicKey) =>
+    SECP256K1_SCHEME.computeSharedSecret(privateKey, publicKey),
+  hashSharedSecretWithViewTag(sharedSecret) {
+    const digest = hashSharedSecret(sharedSecret);
+    const sharedSecretHash = bytesToBigInt(digest) % CURVE_ORDER;
+    if (sharedSecretHash === 0n) {
+      throw new Error('Invalid shared secret hash');
+    }
+    return { viewTag: digest[0], sharedSecretHash };
+  },
+  deriveStealthKeysFromHash(spendingPubkey, sharedSecretHash, spendingPrivKey) {
+    if (sharedSecretHash <= 0n || sharedSecretHash >= CURVE_ORDER) {
+      throw new Error('Invalid shared secret hash');
+    }
+    const hashPoint = secp256k1.Point.BASE.multiply(sharedSecretHash);
+    const stealthPubkey = fromCurvePoint(toCurvePoint(spendingPubkey).add(hashPoint));
+    if (spendingPrivKey === undefined) {
+      return { stealthPubkey };
+    }
+    return {
+      stealthPubkey,
+      stealthPrivKey: SECP256K1_SCHEME.deriveStealthPrivateKeyFromHash(
+        spendingPrivKey,
+        sharedSecretHash
+      ),
+    };
+  },
+
+  computeSalt(ephemeralPubkey) {
+    // Same construction as the STARK schemes, over the announced felts
+    const { x, y } = SECP256K1_SCHEME.encodeAnnouncementKey(ephemeralPubkey);
+    return poseidonHashMany([x, y]);
+  },
+  computeStealthAddress(stealthPubkey, salt, factoryAddress, accountClassHash) {
+    const x = uint256.bnToUint256(stealthPubkey.x);
+    const y = uint256.bnToUint256(stealthPubkey.y);
+    return hash.calculateContractAddressFromHash(
+      salt,
+      accountClassHash,
+      [x.low, x.high, y.low, y.high],
+      factoryAddress
+    );
+  },
+};
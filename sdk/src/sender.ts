@@ -0,0 +1,190 @@
+/**
+ * Stealth Sender
+ *
+ * Pays a recipient in one transaction: a multicall of
+ *
+ * 1. deploy_stealth_account on the factory (skipped with `deploy: false`)
+ * 2. ERC-20 transfer to the stealth address
+ * 3. announce on the registry
+ *
+ * so the announcement never precedes the deployment and nothing links the
+ * steps across transactions (see "Front-Running" in SNIP.md).
+ *
+ * Usage:
+ * ```typescript
+ * const sender = new StealthSender(account, config, { strict: true });
+ * const { transactionHash, payment } = await sender.pay({
+ *   recipient: recipientAddress,
+ *   token: STRK_ADDRESS,
+ *   amount: 10n ** 18n,
+ * });
+ * ```
+ */
+
+import { cairo, CallData } from 'starknet';
+import type { AccountInterface, Call } from 'starknet';
+import type {
+  StealthAddressOptions,
+  StealthAddressResult,
+  StealthConfig,
+  StealthMetaAddress,
+} from './types.js';
+import { StealthFactoryClient } from './factory.js';
+import { StealthRegistryClient } from './registry.js';
+import { getScheme } from './schemes.js';
+import { generateStealthAddress } from './stealth.js';
+
+/**
+ * What to pay, and to whom
+ */
+export interface StealthPayParams extends StealthAddressOptions {
+  /** Recipient account (looked up in the registry) or their meta-address */
+  recipient: string | StealthMetaAddress;
+  /** ERC-20 token contract address */
+  token: string;
+  /** Amount in the token's base units */
+  amount: bigint;
+  /** Announcement metadata (default: 0) */
+  metadata?: bigint;
+  /** Deploy the stealth account in the same transaction (default: true) */
+  deploy?: boolean;
+}
+
+/**
+ * Record of a stealth payment, for the sender's books
+ *
+ * Leaves out the shared secret: only the recipient needs it.
+ */
+export interface StealthPaymentRecord extends Omit<StealthAddressResult, 'sharedSecret'> {
+  /** Recipient's meta-address */
+  metaAddress: StealthMetaAddress;
+  /** Recipient account, when looked up in the registry */
+  recipientAddress?: string;
+  token: string;
+  amount: bigint;
+  metadata: bigint;
+  /** Whether the multicall deploys the stealth account */
+  deployed: boolean;
+  /** The multicall: deploy (if any), transfer, announce */
+  calls: Call[];
+}
+
+/**
+ * Options for StealthSender
+ */
+export interface StealthSenderOptions {
+  /** Check each stealth address against the factory before paying (default: false) */
+  strict?: boolean;
+}
+
+/** Schemes the factory deploys accounts for and the registry announces */
+const SENDER_SCHEME_IDS = [0, 1];
+
+/**
+ * StealthSender - One-transaction stealth payments
+ */
+export class StealthSender {
+  readonly registry: StealthRegistryClient;
+  readonly factory: StealthFactoryClient;
+  private account: AccountInterface;
+
+  /**
+   * @param account - Paying account
+   * @param config - Registry and factory addresses
+   * @param options - Strict mode
+   */
+  constructor(
+    account: AccountInterface,
+    config: Pick<StealthConfig, 'registryAddress' | 'factoryAddress'>,
+    options: StealthSenderOptions = {}
+  ) {
+    this.account = account;
+    this.registry = new StealthRegistryClient(config.registryAddress, account);
+    this.factory = new StealthFactoryClient(config.factoryAddress, account, {
+      strict: options.strict,
+    });
+  }
+
+  /**
+   * Build a payment without sending it (e.g. to add calls to the multicall)
+   *
+   * @throws if the recipient has no meta-address, or one of a scheme the
+   *   factory cannot deploy
+   */
+  async preparePayment(params: StealthPayParams): Promise<StealthPaymentRecord> {
+    const recipientAddress = typeof params.recipient === 'string' ? params.recipient : undefined;
+    const metaAddress =
+      recipientAddress !== undefined
+        ? await this.registry.getStealthMetaAddress(recipientAddress)
+        : (params.recipient as StealthMetaAddress);
+    if (!metaAddress) {
+      throw new Error(`No meta-address registered for ${recipientAddress}`);
+    }
+    if (!SENDER_SCHEME_IDS.includes(metaAddress.schemeId)) {
+      throw new Error(`Cannot pay scheme_id ${metaAddress.schemeId} meta-addresses`);
+    }
+
+    const result = generateStealthAddress(
+      metaAddress,
+      this.factory.address,
+      await this.factory.getAccountClassHash(),
+      params
+    );
+    if (this.factory.strict) {
+      await this.factory.assertStealthAddress(result);
+    }
+
+    const deployed = params.deploy ?? true;
+    const metadata = params.metadata ?? 0n;
+    const ephemeral = getScheme(metaAddress.schemeId).encodeAnnouncementKey(
+      result.ephemeralPubkey
+    );
+    const calls: Call[] = [
+      ...(deployed ? [this.factory.buildDeployCall(result)] : []),
+      {
+        contractAddress: params.token,
+        entrypoint: 'transfer',
+        calldata: CallData.compile({
+          recipient: result.stealthAddress,
+          amount: cairo.uint256(params.amount),
+        }),
+      },
+      this.registry.buildAnnounceCall({
+        schemeId: metaAddress.schemeId,
+        ephemeralPubkeyX: ephemeral.x,
+        ephemeralPubkeyY: ephemeral.y,
+        stealthAddress: result.stealthAddress,
+        viewTag: result.viewTag,
+        metadata,
+      }),
+    ];
+
+    return {
+      stealthAddress: result.stealthAddress,
+      stealthPubkey: result.stealthPubkey,
+      ephemeralPubkey: result.ephemeralPubkey,
+      viewTag: result.viewTag,
+      salt: result.salt,
+      metaAddress,
+      recipientAddress,
+      token: params.token,
+      amount: params.amount,
+      metadata,
+      deployed,
+      calls,
+    };
+  }
+
+  /**
+   * Pay a recipient in one multicall
+   *
+   * @returns The transaction hash and the payment record
+   */
+  async pay(
+    params: StealthPayParams
+  ): Promise<{ transactionHash: string; payment: StealthPaymentRecord }> {
+    const payment = await this.preparePayment(params);
+    const { transaction_hash } = await this.account.execute(payment.calls);
+    return { transactionHash: transaction_hash, payment };
+  }
+}
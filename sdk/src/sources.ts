@@ -0,0 +1,646 @@
+/**
+ * Announcement Sources
+ *
+ * StealthScanner reads announcements through an AnnouncementSource, so the
+ * same scanning and verification code can run against:
+ *
+ * - RpcAnnouncementSource: a Starknet node (starknet_getEvents), the default
+ * - HttpIndexerAnnouncementSource: an indexer serving decoded announcements
+ * - ArchiveAnnouncementSource: an offline JSON / NDJSON export
+ * - MemoryAnnouncementSource: announcements held in memory (tests, tooling)
+ *
+ * ## Indexer API
+ *
+ * - `GET {url}/head` → `{ "block_number": number }`
+ * - `GET {url}/announcements?from_block=N[&to_block=M][&scheme_ids=0,1][&cursor=C]`
+ *   → `{ "announcements": SerializedAnnouncement[], "cursor"?: string }`
+ *
+ * Announcements are JSON with bigints as hex strings (see
+ * serializeAnnouncement); a response with a `cursor` has more pages. When
+ * the scanner asks for a page size it is sent as `limit`.
+ */
+
+import { RpcProvider, num } from 'starknet';
+import type { Announcement, AnnouncementSource } from './types.js';
+import { buildAnnouncementKeyFilter, decodeAnnouncementEvent } from './events.js';
+import type { RawRegistryEvent } from './events.js';
+
+// ============================================================================
+// JSON encoding
+// ============================================================================
+
+/**
+ * JSON form of an Announcement (bigints as hex strings)
+ */
+export interface SerializedAnnouncement extends Omit<
+  Announcement,
+  'ephemeralPubkeyX' | 'ephemeralPubkeyY' | 'metadata'
+> {
+  ephemeralPubkeyX: string;
+  ephemeralPubkeyY: string;
+  metadata: string;
+}
+
+/**
+ * Convert an Announcement to its JSON form
+ */
+export function serializeAnnouncement(announcement: Announcement): SerializedAnnouncement {
+  return {
+    ...announcement,
+    ephemeralPubkeyX: num.toHex(announcement.ephemeralPubkeyX),
+    ephemeralPubkeyY: num.toHex(announcement.ephemeralPubkeyY),
+    metadata: num.toHex(announcement.metadata),
+  };
+}
+
+const isOptional = (value: unknown, type: 'number' | 'string') =>
+  value === undefined || typeof value === type;
+
+/**
+ * Parse the JSON form of an Announcement
+ *
+ * @throws if a field is missing or has the wrong type
+ */
+export function deserializeAnnouncement(value: unknown): Announcement {
+  const record = value as Partial<Record<keyof SerializedAnnouncement, unknown>>;
+  if (
+    typeof record !== 'object' ||
+    record === null ||
+    typeof record.schemeId !== 'number' ||
+    typeof record.viewTag !== 'number' ||
+    typeof record.stealthAddress !== 'string' ||
+    typeof record.ephemeralPubkeyX !== 'string' ||
+    typeof record.ephemeralPubkeyY !== 'string' ||
+    typeof record.metadata !== 'string' ||
+    !isOptional(record.index, 'number') ||
+    !isOptional(record.blockNumber, 'number') ||
+    !isOptional(record.blockHash, 'string') ||
+    !isOptional(record.txHash, 'string')
+  ) {
+    throw new Error('Invalid announcement record');
+  }
+
+  try {
+    return {
+      ...(record as SerializedAnnouncement),
+      ephemeralPubkeyX: BigInt(record.ephemeralPubkeyX),
+      ephemeralPubkeyY: BigInt(record.ephemeralPubkeyY),
+      metadata: BigInt(record.metadata),
+    };
+  } catch {
+    throw new Error('Invalid announcement record');
+  }
+}
+
+async function collectPages(pages: AsyncIterable<Announcement[]>): Promise<Announcement[]> {
+  const announcements: Announcement[] = [];
+  for await (const page of pages) {
+    announcements.push(...page);
+  }
+  return announcements;
+}
+
+const inRange = (announcement: Announcement, fromBlock: number, toBlock?: number) => {
+  const blockNumber = announcement.blockNumber ?? 0;
+  return blockNumber >= fromBlock && (toBlock === undefined || blockNumber <= toBlock);
+};
+
+// ============================================================================
+// RPC node
+// ============================================================================
+
+/**
+ * Paging and sharding options of RpcAnnouncementSource
+ */
+export interface RpcFetchOptions {
+  /** Events per getEvents page (default: 1000, halved while the node rejects it) */
+  chunkSize?: number;
+  /** Pages per shard before giving up (default: 1000) */
+  maxPages?: number;
+  /** Blocks per shard (default: 50000) */
+  shardSize?: number;
+  /** Shards fetched at the same time (default: 4) */
+  concurrency?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_MAX_PAGES = 1000;
+const DEFAULT_SHARD_SIZE = 50_000;
+const DEFAULT_CONCURRENCY = 4;
+
+/** PAGE_SIZE_TOO_BIG, or a provider's own wording of it */
+function isPageSizeError(error: unknown): boolean {
+  if ((error as { code?: unknown })?.code === 31) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /(page|chunk).?size.*(too (big|large)|exceed)/i.test(message);
+}
+
+function assertPositiveInteger(value: number, name: string): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+}
+
+/** Pages a shard fetches ahead of its consumer */
+const SHARD_BUFFER_PAGES = 2;
+
+/**
+ * Pages of one shard, fetched ahead while an earlier shard is being consumed
+ *
+ * At most SHARD_BUFFER_PAGES pages are buffered; the fetch then waits for
+ * the consumer. stop() ends the fetch after the request in flight.
+ */
+class ShardFetch {
+  private pages: Announcement[][] = [];
+  private done = false;
+  private failed = false;
+  private stopped = false;
+  private error: unknown;
+  /** Settles on the next change: a page added or taken, the end, or stop() */
+  private changed!: Promise<void>;
+  private notify!: () => void;
+
+  constructor(pages: AsyncIterable<Announcement[]>) {
+    this.reset();
+    void this.fetch(pages);
+  }
+
+  /** The shard's pages in order, as they arrive */
+  async *drain(): AsyncGenerator<Announcement[]> {
+    while (true) {
+      if (this.pages.length > 0) {
+        const page = this.pages.shift()!;
+        this.signal();
+        yield page;
+      } else if (this.failed) {
+        throw this.error;
+      } else if (this.done) {
+        return;
+      } else {
+        await this.changed;
+      }
+    }
+  }
+
+  /** Stop fetching and drop the buffered pages */
+  stop(): void {
+    this.stopped = true;
+    this.pages = [];
+    this.signal();
+  }
+
+  private async fetch(pages: AsyncIterable<Announcement[]>): Promise<void> {
+    try {
+      // Leaving the loop returns the page generator, so no further requests are sent
+      for await (const page of pages) {
+        if (this.stopped) {
+          break;
+        }
+        this.pages.push(page);
+        this.signal();
+        while (this.pages.length >= SHARD_BUFFER_PAGES && !this.stopped) {
+          await this.changed;
+        }
+        if (this.stopped) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.failed = true;
+      this.error = error;
+    }
+    this.done = true;
+    this.signal();
+  }
+
+  private signal(): void {
+    this.notify();
+    this.reset();
+  }
+
+  private reset(): void {
+    this.changed = new Promise((resolve) => (this.notify = resolve));
+  }
+}
+
+/**
+ * RpcAnnouncementSource - Announcements from a node's starknet_getEvents
+ *
+ * Long ranges are split into shards of `shardSize` blocks, fetched
+ * `concurrency` at a time. Each shard follows its own continuation tokens
+ * and buffers a couple of pages ahead of the consumer; shards are emitted in
+ * block order, which is announcement-index order.
+ * When the node rejects the chunk size, it is halved and the page retried,
+ * and the smaller size is kept for later requests.
+ */
+export class RpcAnnouncementSource implements AnnouncementSource {
+  private provider: RpcProvider;
+  private registryAddress: string;
+  private schemeIds?: number[];
+  private chunkSize: number;
+  private maxPages: number;
+  private shardSize: number;
+  private concurrency: number;
+
+  /**
+   * @param options.provider - Starknet RPC provider
+   * @param options.registryAddress - StealthRegistry contract address
+   * @param options.schemeIds - Only return these scheme ids (default: all)
+   * @param options.chunkSize - Events per getEvents page (default: 1000)
+   * @param options.maxPages - Pages per shard before giving up (default: 1000)
+   * @param options.shardSize - Blocks per shard (default: 50000)
+   * @param options.concurrency - Shards fetched at the same time (default: 4)
+   */
+  constructor(
+    options: {
+      provider: RpcProvider;
+      registryAddress: string;
+      schemeIds?: number[];
+    } & RpcFetchOptions
+  ) {
+    this.provider = options.provider;
+    this.registryAddress = options.registryAddress;
+    this.schemeIds = options.schemeIds;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    this.shardSize = options.shardSize ?? DEFAULT_SHARD_SIZE;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    assertPositiveInteger(this.chunkSize, 'chunkSize');
+    assertPositiveInteger(this.maxPages, 'maxPages');
+    assertPositiveInteger(this.shardSize, 'shardSize');
+    assertPositiveInteger(this.concurrency, 'concurrency');
+  }
+
+  async fetchAnnouncements(fromBlock: number, toBlock?: number): Promise<Announcement[]> {
+    return collectPages(this.fetchAnnouncementPages(fromBlock, toBlock));
+  }
+
+  /**
+   * One page per getEvents call, shard by shard in block order
+   *
+   * Later shards are fetched ahead while earlier ones are consumed, a few
+   * pages each. Returning the generator (e.g. an aborted scan) stops them.
+   *
+   * @param options.pageSize - getEvents chunk_size (default: the source's chunkSize)
+   */
+  async *fetchAnnouncementPages(
+    fromBlock: number,
+    toBlock?: number,
+    options: { pageSize?: number } = {}
+  ): AsyncGenerator<Announcement[]> {
+    const fetching: ShardFetch[] = [];
+    try {
+      // Without an end block the last shard runs to 'latest'
+      const lastBlock = toBlock ?? Math.max(fromBlock, await this.provider.getBlockNumber());
+      const shards: [number, number | undefined][] = [];
+      for (let start = fromBlock; start <= lastBlock; start += this.shardSize) {
+        const end = start + this.shardSize - 1;
+        shards.push([start, end >= lastBlock ? toBlock : end]);
+      }
+
+      const startShard = ([start, end]: [number, number | undefined]) =>
+        fetching.push(new ShardFetch(this.fetchShardPages(start, end, options.pageSize)));
+      shards.slice(0, this.concurrency).forEach(startShard);
+      for (let i = 0; i < shards.length; i++) {
+        yield* fetching[i].drain();
+        const next = shards[i + this.concurrency];
+        if (next) {
+          startShard(next);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching announcements:', error);
+      throw error;
+    } finally {
+      for (const shard of fetching) {
+        shard.stop();
+      }
+    }
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  private isRequestedScheme(schemeId: number): boolean {
+    return !this.schemeIds || this.schemeIds.length === 0 || this.schemeIds.includes(schemeId);
+  }
+
+  /**
+   * Pages of one shard, following continuation tokens
+   */
+  private async *fetchShardPages(
+    fromBlock: number,
+    toBlock: number | undefined,
+    pageSize?: number
+  ): AsyncGenerator<Announcement[]> {
+    let continuation: string | undefined = undefined;
+    let page = 0;
+    let chunkSize = pageSize ?? this.chunkSize;
+
+    while (true) {
+      let eventResponse: Awaited<ReturnType<RpcProvider['getEvents']>>;
+      try {
+        eventResponse = await this.provider.getEvents({
+          address: this.registryAddress,
+          from_block: { block_number: fromBlock },
+          to_block: toBlock !== undefined ? { block_number: toBlock } : 'latest',
+          // Scheme ids are filtered below: a key filter would drop legacy events
+          keys: buildAnnouncementKeyFilter(),
+          chunk_size: chunkSize,
+          continuation_token: continuation,
+        });
+      } catch (error) {
+        if (!isPageSizeError(error) || chunkSize === 1) {
+          throw error;
+        }
+        // Retry the page smaller, and start later requests there too
+        chunkSize = Math.floor(chunkSize / 2);
+        this.chunkSize = Math.min(this.chunkSize, chunkSize);
+        continue;
+      }
+
+      const announcements: Announcement[] = [];
+      for (const event of eventResponse.events) {
+        try {
+          const announcement = decodeAnnouncementEvent(event);
+          if (announcement && this.isRequestedScheme(announcement.schemeId)) {
+            announcements.push(announcement);
+          }
+        } catch (error) {
+          console.error('Error parsing announcement event:', error);
+        }
+      }
+      yield announcements;
+
+      continuation = eventResponse.continuation_token;
+      if (!continuation) {
+        break;
+      }
+
+      page += 1;
+      if (page > this.maxPages) {
+        throw new Error('Event pagination limit exceeded');
+      }
+    }
+  }
+}
+
+// ============================================================================
+// HTTP indexer
+// ============================================================================
+
+/**
+ * Subset of the fetch API used by HttpIndexerAnnouncementSource
+ */
+export type FetchLike = (
+  url: string,
+  init?: { headers?: Record<string, string> }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/**
+ * HttpIndexerAnnouncementSource - Announcements from an indexer (see the
+ * module documentation for the API)
+ */
+export class HttpIndexerAnnouncementSource implements AnnouncementSource {
+  private url: string;
+  private schemeIds?: number[];
+  private headers?: Record<string, string>;
+  private fetch: FetchLike;
+
+  /**
+   * @param options.url - Indexer base URL
+   * @param options.schemeIds - Only request these scheme ids (default: all)
+   * @param options.headers - Extra request headers (e.g. an API key)
+   * @param options.fetch - fetch implementation (default: globalThis.fetch)
+   */
+  constructor(options: {
+    url: string;
+    schemeIds?: number[];
+    headers?: Record<string, string>;
+    fetch?: FetchLike;
+  }) {
+    const fetchImpl = options.fetch ?? (globalThis as { fetch?: FetchLike }).fetch;
+    if (!fetchImpl) {
+      throw new Error('fetch is not available in this environment');
+    }
+    this.url = options.url.replace(/\/+$/, '');
+    this.schemeIds = options.schemeIds;
+    this.headers = options.headers;
+    // Called unbound: browsers reject window.fetch with another `this`
+    this.fetch = (url, init) => fetchImpl(url, init);
+  }
+
+  async fetchAnnouncements(fromBlock: number, toBlock?: number): Promise<Announcement[]> {
+    return collectPages(this.fetchAnnouncementPages(fromBlock, toBlock));
+  }
+
+  /**
+   * One page per indexer response, following cursors
+   *
+   * @param options.pageSize - Sent as `limit` (default: the indexer's choice)
+   */
+  async *fetchAnnouncementPages(
+    fromBlock: number,
+    toBlock?: number,
+    options: { pageSize?: number } = {}
+  ): AsyncGenerator<Announcement[]> {
+    let cursor: string | undefined = undefined;
+    let page = 0;
+    const maxPages = 1000;
+
+    while (true) {
+      const params = new URLSearchParams({ from_block: String(fromBlock) });
+      if (toBlock !== undefined) {
+        params.set('to_block', String(toBlock));
+      }
+      if (this.schemeIds && this.schemeIds.length > 0) {
+        params.set('scheme_ids', this.schemeIds.join(','));
+      }
+      if (options.pageSize !== undefined) {
+        params.set('limit', String(options.pageSize));
+      }
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = (await this.get(`/announcements?${params}`)) as {
+        announcements?: unknown;
+        cursor?: unknown;
+      };
+      if (
+        !Array.isArray(response?.announcements) ||
+        (response.cursor !== undefined && typeof response.cursor !== 'string')
+      ) {
+        throw new Error('Invalid indexer response');
+      }
+      yield response.announcements.map(deserializeAnnouncement);
+
+      cursor = response.cursor as string | undefined;
+      if (!cursor) {
+        break;
+      }
+
+      page += 1;
+      if (page > maxPages) {
+        throw new Error('Indexer pagination limit exceeded');
+      }
+    }
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const response = (await this.get('/head')) as { block_number?: unknown };
+    if (!Number.isSafeInteger(response?.block_number)) {
+      throw new Error('Invalid indexer response');
+    }
+    return response.block_number as number;
+  }
+
+  private async get(path: string): Promise<unknown> {
+    const response = await this.fetch(`${this.url}${path}`, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`Indexer request failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+// ============================================================================
+// In memory
+// ============================================================================
+
+/**
+ * MemoryAnnouncementSource - Announcements held in memory
+ *
+ * Announcements without a block number are treated as block 0.
+ */
+export class MemoryAnnouncementSource implements AnnouncementSource {
+  private announcements: Announcement[] = [];
+  private head?: number;
+
+  /**
+   * @param announcements - Initial announcements
+   * @param options.head - Latest block (default: highest announcement block)
+   */
+  constructor(announcements: Announcement[] = [], options: { head?: number } = {}) {
+    this.head = options.head;
+    this.add(...announcements);
+  }
+
+  /**
+   * Add announcements (kept in block order)
+   */
+  add(...announcements: Announcement[]): void {
+    this.announcements.push(...announcements);
+    // Stable sort: same-block announcements keep their insertion order
+    this.announcements.sort((a, b) => (a.blockNumber ?? 0) - (b.blockNumber ?? 0));
+  }
+
+  /**
+   * Set the latest block reported by getBlockNumber()
+   */
+  setBlockNumber(head: number): void {
+    this.head = head;
+  }
+
+  async fetchAnnouncements(fromBlock: number, toBlock?: number): Promise<Announcement[]> {
+    return this.announcements
+      .filter((announcement) => inRange(announcement, fromBlock, toBlock))
+      .map((announcement) => ({ ...announcement }));
+  }
+
+  async *fetchAnnouncementPages(
+    fromBlock: number,
+    toBlock?: number,
+    options: { pageSize?: number } = {}
+  ): AsyncGenerator<Announcement[]> {
+    if (options.pageSize !== undefined) {
+      assertPositiveInteger(options.pageSize, 'pageSize');
+    }
+    const announcements = await this.fetchAnnouncements(fromBlock, toBlock);
+    const pageSize = options.pageSize ?? Math.max(announcements.length, 1);
+    for (let i = 0; i === 0 || i < announcements.length; i += pageSize) {
+      yield announcements.slice(i, i + pageSize);
+    }
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.head !== undefined) {
+      return this.head;
+    }
+    let head = 0;
+    for (const announcement of this.announcements) {
+      head = Math.max(head, announcement.blockNumber ?? 0);
+    }
+    return head;
+  }
+}
+
+// ============================================================================
+// Offline archive
+// ============================================================================
+
+/**
+ * ArchiveAnnouncementSource - Announcements from a JSON or NDJSON export
+ *
+ * Records are either serialized announcements (see serializeAnnouncement) or
+ * raw registry events as returned by starknet_getEvents (`keys` / `data`),
+ * which are decoded like events from a node.
+ */
+export class ArchiveAnnouncementSource extends MemoryAnnouncementSource {
+  /**
+   * Parse an archive: a JSON array, or one JSON record per line
+   *
+   * @param text - Archive contents
+   * @param options.head - Latest block covered (default: highest announcement block)
+   */
+  static parse(text: string, options: { head?: number } = {}): ArchiveAnnouncementSource {
+    const trimmed = text.trim();
+    let records: unknown[];
+    try {
+      records = trimmed.startsWith('[')
+        ? JSON.parse(trimmed)
+        : trimmed
+            .split('\n')
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line));
+    } catch {
+      throw new Error('Malformed announcement archive');
+    }
+
+    const announcements: Announcement[] = [];
+    for (const record of records) {
+      if (typeof record === 'object' && record !== null && 'keys' in record) {
+        const announcement = decodeAnnouncementEvent(record as RawRegistryEvent);
+        if (announcement) {
+          announcements.push(announcement);
+        }
+      } else {
+        announcements.push(deserializeAnnouncement(record));
+      }
+    }
+    return new ArchiveAnnouncementSource(announcements, options);
+  }
+
+  /**
+   * Load an archive file (Node only)
+   */
+  static async fromFile(
+    path: string,
+    options: { head?: number } = {}
+  ): Promise<ArchiveAnnouncementSource> {
+    const { readFile } = await import('node:fs/promises');
+    return ArchiveAnnouncementSource.parse(await readFile(path, 'utf8'), options);
+  }
+}
+
+/**
+ * Format announcements as an NDJSON archive
+ */
+export function formatAnnouncementArchive(announcements: Announcement[]): string {
+  return announcements
+    .map((announcement) => `${JSON.stringify(serializeAnnouncement(announcement))}\n`)
+    .join('');
+}
@@ -23,7 +23,12 @@ import type {
   EphemeralKeyPair,
   StealthAddressResult,
   AddressComputationInput,
+  StealthKeySet,
+  StealthAddressOptions,
+  RandomBytesFn,
 } from './types.js';
+import { getScheme } from './schemes.js';
+import type { StealthScheme } from './schemes.js';
 
 // ============================================================================
 // STARK Curve Constants
@@ -80,6 +85,52 @@ export function isPointOnCurve(point: Point): boolean {
   return lhs === rhs;
 }
 
+// ============================================================================
+// Point Compression
+// ============================================================================
+
+/**
+ * Compress a public key to its x coordinate
+ * 
+ * The SDK only uses the canonical (low-y) point for each x, so x alone
+ * identifies the key. Non-canonical points are normalized first.
+ * 
+ * @param point - Public key point
+ * @returns The x coordinate
+ */
+export function compressPoint(point: Point): bigint {
+  const canonical = normalizePoint(point);
+  assertPointOnCurve(canonical, 'public key');
+  return canonical.x;
+}
+
+/**
+ * Recover the canonical public key for an x coordinate
+ * 
+ * Solves y² = x³ + αx + β with a modular square root on the STARK field
+ * and picks the low-y root.
+ * 
+ * @param x - The x coordinate of a public key
+ * @returns Canonical point (x, y)
+ */
+export function decompressPoint(x: bigint): Point {
+  if (x <= 0n || x >= FIELD_PRIME) {
+    throw new Error('Invalid compressed point (x out of range)');
+  }
+
+  const rhs = modField(x * x * x + CURVE_ALPHA * x + CURVE_BETA);
+  let y: bigint;
+  try {
+    y = ec.starkCurve.CURVE.Fp.sqrt(rhs);
+  } catch {
+    throw new Error('Invalid compressed point (not on STARK curve)');
+  }
+
+  const point = normalizePoint({ x, y });
+  assertPointOnCurve(point, 'compressed');
+  return point;
+}
+
 function assertPointOnCurve(point: Point, context: string): void {
   if (!isPointOnCurve(point)) {
     throw new Error(`Invalid ${context} point (not on STARK curve)`);
@@ -96,11 +147,20 @@ function assertValidScalar(scalar: bigint, context: string): void {
 // Key Generation
 // ============================================================================
 
+function defaultRandomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
 /**
  * Generate a random private key (scalar on STARK curve)
+ * 
+ * @param rng - Optional random byte source (defaults to WebCrypto)
  */
-export function generatePrivateKey(): bigint {
-  const randomBytes = crypto.getRandomValues(new Uint8Array(32));
+export function generatePrivateKey(rng: RandomBytesFn = defaultRandomBytes): bigint {
+  const randomBytes = rng(32);
+  if (randomBytes.length !== 32) {
+    throw new Error('Random source must return 32 bytes');
+  }
   let key = BigInt('0x' + Buffer.from(randomBytes).toString('hex'));
   // Ensure key is in valid range [1, n-1]
   key = key % (CURVE_ORDER - 1n) + 1n;
@@ -143,9 +203,11 @@ export function getPublicKey(privateKey: bigint): Point {
 
 /**
  * Generate an ephemeral key pair for a stealth payment
+ * 
+ * @param rng - Optional random byte source (defaults to WebCrypto)
  */
-export function generateEphemeralKeyPair(): EphemeralKeyPair {
-  const privateKey = generatePrivateKey();
+export function generateEphemeralKeyPair(rng?: RandomBytesFn): EphemeralKeyPair {
+  const privateKey = generatePrivateKey(rng);
   const publicKey = getPublicKey(privateKey);
   return { privateKey, publicKey };
 }
@@ -153,16 +215,20 @@ export function generateEphemeralKeyPair(): EphemeralKeyPair {
 /**
  * Create a stealth meta-address from spending and viewing keys
  * 
- * @param spendingPrivKey - Spending private key
+ * @param spendingPrivKey - Spending private key, or a derived key set
  * @param viewingPrivKey - Viewing private key (optional, defaults to spending key)
  * @returns Meta-address with canonical public keys
  *
  * Security: treat private keys as sensitive and avoid logging them.
  */
 export function createMetaAddress(
-  spendingPrivKey: bigint,
+  spendingPrivKey: bigint | StealthKeySet,
   viewingPrivKey?: bigint
 ): StealthMetaAddress {
+  if (typeof spendingPrivKey !== 'bigint') {
+    return createMetaAddress(spendingPrivKey.spendingKey, spendingPrivKey.viewingKey);
+  }
+
   const normalizedSpendingPrivKey = normalizePrivateKey(spendingPrivKey);
   const normalizedViewingPrivKey = viewingPrivKey
     ? normalizePrivateKey(viewingPrivKey)
@@ -193,7 +259,21 @@ export function createMetaAddress(
  * @returns Shared secret point
  */
 export function computeSharedSecret(scalar: bigint, point: Point): Point {
-  const normalizedScalar = normalizePrivateKey(scalar);
+  return computeNormalizedSharedSecret(normalizePrivateKey(scalar), point);
+}
+
+/**
+ * ECDH with a private key already normalized by normalizePrivateKey()
+ * 
+ * Skips the normalization scalar multiplication, for callers that
+ * normalize a key once and reuse it (e.g. a scanner's viewing key).
+ * 
+ * @param normalizedScalar - Normalized private key
+ * @param point - Public key point
+ * @returns Shared secret point
+ */
+export function computeNormalizedSharedSecret(normalizedScalar: bigint, point: Point): Point {
+  assertValidScalar(normalizedScalar, 'private key');
   assertPointOnCurve(point, 'ECDH public key');
 
   // Use starknet's ec.starkCurve for point multiplication
@@ -235,6 +315,21 @@ export function computeViewTag(sharedSecret: Point): number {
   return Number(hashResult % 256n);
 }
 
+/**
+ * Compute the view tag and hash(S) from a single Poseidon hash
+ * 
+ * Same values as computeViewTag() and hashSharedSecret(), hashing once.
+ */
+export function hashSharedSecretWithViewTag(sharedSecret: Point): {
+  viewTag: number;
+  sharedSecretHash: bigint;
+} {
+  const hashResult = poseidonHashMany([sharedSecret.x, sharedSecret.y]);
+  const sharedSecretHash = hashResult % CURVE_ORDER;
+  assertValidScalar(sharedSecretHash, 'shared secret hash');
+  return { viewTag: Number(hashResult % 256n), sharedSecretHash };
+}
+
 /**
  * Add two points on the STARK curve
  */
@@ -270,63 +365,113 @@ export function deriveStealthPubkey(
   spendingPubkey: Point,
   sharedSecret: Point
 ): Point {
-  // Compute hash(S) * G
-  const hashScalar = hashSharedSecret(sharedSecret);
-  const hashPoint = getRawPublicKey(hashScalar);
-  
-  // P = K + hash(S)*G
-  return normalizePoint(addPoints(spendingPubkey, hashPoint));
+  return deriveStealthKeysFromHash(spendingPubkey, hashSharedSecret(sharedSecret)).stealthPubkey;
+}
+
+/**
+ * Derive the stealth key pair from h = hash(S)
+ * 
+ * P = K + h*G, and p = k + h mod n when the spending private key is given.
+ * p is made canonical from the y parity of K + h*G, which saves the scalar
+ * multiplication normalizePrivateKey() would need.
+ * 
+ * @param spendingPubkey - Recipient's spending public key (K)
+ * @param sharedSecretHash - h = hashSharedSecret(S)
+ * @param normalizedSpendingPrivKey - Spending private key (k), normalized so that K = k*G
+ * @returns Stealth public key (P) and, with k, its private key (p)
+ */
+export function deriveStealthKeysFromHash(
+  spendingPubkey: Point,
+  sharedSecretHash: bigint,
+  normalizedSpendingPrivKey?: bigint
+): { stealthPubkey: Point; stealthPrivKey?: bigint } {
+  assertValidScalar(sharedSecretHash, 'shared secret hash');
+
+  // P = K + h*G, before normalization
+  const rawStealthPubkey = addPoints(spendingPubkey, getRawPublicKey(sharedSecretHash));
+  const stealthPubkey = normalizePoint(rawStealthPubkey);
+  if (normalizedSpendingPrivKey === undefined) {
+    return { stealthPubkey };
+  }
+
+  assertValidScalar(normalizedSpendingPrivKey, 'private key');
+  const derived = (normalizedSpendingPrivKey + sharedSecretHash) % CURVE_ORDER;
+  assertValidScalar(derived, 'private key');
+  // (k + h)*G is the raw point, so flip p when the point was flipped
+  const stealthPrivKey = rawStealthPubkey.y > FIELD_HALF ? CURVE_ORDER - derived : derived;
+  return { stealthPubkey, stealthPrivKey };
+}
+
+/**
+ * Compute the deployment salt for a stealth account
+ * 
+ * salt = poseidon(R.x, R.y), as passed to deploy_stealth_account
+ * 
+ * @param ephemeralPubkey - The ephemeral public key (R)
+ */
+export function computeStealthSalt(ephemeralPubkey: Point): bigint {
+  return poseidonHashMany([ephemeralPubkey.x, ephemeralPubkey.y]);
+}
+
+function resolveEphemeralKeyPair(
+  scheme: StealthScheme,
+  options: StealthAddressOptions
+): EphemeralKeyPair {
+  const privateKey = options.ephemeralPrivateKey !== undefined
+    ? scheme.normalizePrivateKey(options.ephemeralPrivateKey)
+    : scheme.generatePrivateKey(options.rng);
+  return { privateKey, publicKey: scheme.getPublicKey(privateKey) };
 }
 
 /**
  * Generate a stealth address for a recipient
  * 
  * This is the main function senders use to create stealth payments.
+ * The cryptography is selected by the meta-address scheme_id (see schemes.ts).
  * 
  * @param metaAddress - Recipient's stealth meta-address
  * @param factoryAddress - Factory contract address
  * @param accountClassHash - StealthAccount class hash
+ * @param options - Optional fixed ephemeral key or random source (for reproducible payments)
  * @returns Stealth address result with all necessary data
  */
 export function generateStealthAddress(
   metaAddress: StealthMetaAddress,
   factoryAddress: string,
-  accountClassHash: string
+  accountClassHash: string,
+  options: StealthAddressOptions = {}
 ): StealthAddressResult {
-  if (metaAddress.schemeId !== 0 && metaAddress.schemeId !== 1) {
-    throw new Error('Unsupported scheme_id: only 0 or 1 is supported');
-  }
-  assertPointOnCurve(metaAddress.spendingKey, 'spending public key');
-  assertPointOnCurve(metaAddress.viewingKey, 'viewing public key');
+  const scheme = getScheme(metaAddress.schemeId);
+  scheme.validateMetaAddress(metaAddress);
 
-  // 1. Generate fresh ephemeral key pair
-  const ephemeral = generateEphemeralKeyPair();
+  // 1. Generate fresh ephemeral key pair (or use the caller's)
+  const ephemeral = resolveEphemeralKeyPair(scheme, options);
   
   // 2. Compute shared secret: S = r * V
-  const sharedSecret = computeSharedSecret(
+  const sharedSecret = scheme.computeSharedSecret(
     ephemeral.privateKey,
     metaAddress.viewingKey
   );
   
   // 3. Derive stealth public key: P = K + hash(S)*G
-  const stealthPubkey = deriveStealthPubkey(
+  const stealthPubkey = scheme.deriveStealthPubkey(
     metaAddress.spendingKey,
     sharedSecret
   );
   
   // 4. Compute view tag for efficient scanning
-  const viewTag = computeViewTag(sharedSecret);
+  const viewTag = scheme.computeViewTag(sharedSecret);
   
   // 5. Compute salt (derived from ephemeral key for determinism)
-  const salt = poseidonHashMany([ephemeral.publicKey.x, ephemeral.publicKey.y]);
+  const salt = scheme.computeSalt(ephemeral.publicKey);
   
   // 6. Compute the contract address
-  const stealthAddress = computeStealthContractAddress({
-    classHash: accountClassHash,
-    deployerAddress: factoryAddress,
+  const stealthAddress = scheme.computeStealthAddress(
+    stealthPubkey,
     salt,
-    constructorCalldata: [stealthPubkey.x, stealthPubkey.y],
-  });
+    factoryAddress,
+    accountClassHash
+  );
   
   return {
     stealthAddress,
@@ -334,6 +479,7 @@ export function generateStealthAddress(
     ephemeralPubkey: ephemeral.publicKey,
     viewTag,
     sharedSecret,
+    salt,
   };
 }
 
@@ -382,10 +528,26 @@ export function computeStealthContractAddress(
 export function deriveStealthPrivateKey(
   spendingPrivKey: bigint,
   sharedSecret: Point
+): bigint {
+  return deriveStealthPrivateKeyFromHash(spendingPrivKey, hashSharedSecret(sharedSecret));
+}
+
+/**
+ * Derive the spending private key from a shared-secret hash
+ * 
+ * p = k + h mod n, where h = hashSharedSecret(S). Lets a view-only scan
+ * hand over h so the spending key is only needed for this last step.
+ * 
+ * @param spendingPrivKey - Recipient's spending private key (k)
+ * @param sharedSecretHash - h = hash(S)
+ */
+export function deriveStealthPrivateKeyFromHash(
+  spendingPrivKey: bigint,
+  sharedSecretHash: bigint
 ): bigint {
   const normalizedSpendingPrivKey = normalizePrivateKey(spendingPrivKey);
-  const hashScalar = hashSharedSecret(sharedSecret);
-  const derived = (normalizedSpendingPrivKey + hashScalar) % CURVE_ORDER;
+  assertValidScalar(sharedSecretHash, 'shared secret hash');
+  const derived = (normalizedSpendingPrivKey + sharedSecretHash) % CURVE_ORDER;
   return normalizePrivateKey(derived);
 }
 
@@ -397,17 +559,19 @@ export function deriveStealthPrivateKey(
  * @param viewingPrivKey - Our viewing private key
  * @param ephemeralPubkey - The ephemeral public key from announcement
  * @param announcedViewTag - The view tag from announcement
+ * @param scheme - Scheme of the announcement (defaults to the STARK curve)
  * @returns true if view tag matches (potential match, needs full verification)
  */
 export function checkViewTag(
   viewingPrivKey: bigint,
   ephemeralPubkey: Point,
-  announcedViewTag: number
+  announcedViewTag: number,
+  scheme: StealthScheme = getScheme(0)
 ): boolean {
   try {
     // Compute S' = v * R
-    const sharedSecret = computeSharedSecret(viewingPrivKey, ephemeralPubkey);
-    const computedViewTag = computeViewTag(sharedSecret);
+    const sharedSecret = scheme.computeSharedSecret(viewingPrivKey, ephemeralPubkey);
+    const computedViewTag = scheme.computeViewTag(sharedSecret);
     return computedViewTag === announcedViewTag;
   } catch {
     return false;
@@ -425,6 +589,7 @@ export function checkViewTag(
  * @param announcedStealthAddress - The stealth address from announcement
  * @param factoryAddress - Factory contract address
  * @param accountClassHash - StealthAccount class hash
+ * @param scheme - Scheme of the announcement (defaults to the STARK curve)
  * @returns The shared secret if this is ours, null otherwise
  */
 export function verifyStealthAddress(
@@ -433,25 +598,26 @@ export function verifyStealthAddress(
   ephemeralPubkey: Point,
   announcedStealthAddress: string,
   factoryAddress: string,
-  accountClassHash: string
+  accountClassHash: string,
+  scheme: StealthScheme = getScheme(0)
 ): Point | null {
   try {
     // Compute S' = v * R
-    const sharedSecret = computeSharedSecret(viewingPrivKey, ephemeralPubkey);
+    const sharedSecret = scheme.computeSharedSecret(viewingPrivKey, ephemeralPubkey);
 
     // Derive expected stealth pubkey: P' = K + hash(S')*G
-    const stealthPubkey = deriveStealthPubkey(spendingPubkey, sharedSecret);
+    const stealthPubkey = scheme.deriveStealthPubkey(spendingPubkey, sharedSecret);
 
     // Compute salt
-    const salt = poseidonHashMany([ephemeralPubkey.x, ephemeralPubkey.y]);
+    const salt = scheme.computeSalt(ephemeralPubkey);
 
     // Compute expected address
-    const expectedAddress = computeStealthContractAddress({
-      classHash: accountClassHash,
-      deployerAddress: factoryAddress,
+    const expectedAddress = scheme.computeStealthAddress(
+      stealthPubkey,
       salt,
-      constructorCalldata: [stealthPubkey.x, stealthPubkey.y],
-    });
+      factoryAddress,
+      accountClassHash
+    );
 
     // Compare addresses (case-insensitive hex comparison)
     if (expectedAddress.toLowerCase() === announcedStealthAddress.toLowerCase()) {
@@ -487,54 +653,44 @@ export function encodeMetaAddress(metaAddress: StealthMetaAddress): {
   };
 }
 
+function decodePublicKey(
+  scheme: StealthScheme,
+  x: string,
+  y: string | undefined,
+  context: string
+): Point {
+  try {
+    return scheme.decodePublicKey(BigInt(x), y ? BigInt(y) : undefined);
+  } catch {
+    throw new Error(`Invalid ${context} point (not on ${scheme.curve} curve)`);
+  }
+}
+
 /**
  * Decode a meta-address from on-chain format
+ * 
+ * Y coordinates are optional: when omitted (x-only canonical keys), they are
+ * recovered by the scheme (decompressPoint() for STARK schemes).
  */
 export function decodeMetaAddress(
   spendingX: string,
-  spendingY: string,
+  spendingY?: string,
   viewingX?: string,
   viewingY?: string,
   schemeId: number = 0
 ): StealthMetaAddress {
-  if (schemeId !== 0 && schemeId !== 1) {
-    throw new Error('Unsupported scheme_id: only 0 or 1 is supported');
-  }
+  const scheme = getScheme(schemeId);
 
-  const spendingKey: Point = {
-    x: BigInt(spendingX),
-    y: BigInt(spendingY),
-  };
-  assertPointOnCurve(spendingKey, 'spending public key');
-
-  if (schemeId === 0) {
-    if (viewingX && viewingY) {
-      const vx = BigInt(viewingX);
-      const vy = BigInt(viewingY);
-      if (vx !== spendingKey.x || vy !== spendingKey.y) {
-        throw new Error('Viewing key must match spending key for scheme_id 0');
-      }
-    }
-    return {
-      spendingKey,
-      viewingKey: spendingKey,
-      schemeId: 0,
-    };
-  }
+  const spendingKey = decodePublicKey(scheme, spendingX, spendingY, 'spending public key');
 
-  if (!viewingX || !viewingY) {
-    throw new Error('Viewing key required for scheme_id 1');
+  let viewingKey = spendingKey;
+  if (viewingX) {
+    viewingKey = decodePublicKey(scheme, viewingX, viewingY, 'viewing public key');
+  } else if (scheme.dualKey) {
+    throw new Error(`Viewing key required for scheme_id ${schemeId}`);
   }
 
-  const viewingKey: Point = {
-    x: BigInt(viewingX),
-    y: BigInt(viewingY),
-  };
-  assertPointOnCurve(viewingKey, 'viewing public key');
-
-  return {
-    spendingKey,
-    viewingKey,
-    schemeId: 1,
-  };
+  const metaAddress = { spendingKey, viewingKey, schemeId };
+  scheme.validateMetaAddress(metaAddress);
+  return metaAddress;
 }
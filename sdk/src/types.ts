@@ -4,7 +4,7 @@
  * Based on ERC-5564 adapted for Starknet's STARK curve
  */
 
-import type { BigNumberish } from 'starknet';
+import type { BigNumberish, Call } from 'starknet';
 
 /**
  * A point on the STARK curve (public key)
@@ -33,6 +33,48 @@ export interface StealthMetaAddress {
   schemeId: number;
 }
 
+/**
+ * Stealth Key Set
+ * 
+ * The private keys behind a meta-address (from a generator or a derivation)
+ */
+export interface StealthKeySet {
+  /** Spending private key (k) */
+  spendingKey: bigint;
+  /** Viewing private key (v) */
+  viewingKey: bigint;
+  /** Meta-address index (for mnemonic-derived keys) */
+  index?: number;
+}
+
+/**
+ * Keys derived from a wallet signature, with their meta-address
+ */
+export interface SignatureDerivedKeys extends StealthKeySet {
+  /** Dual-key meta-address for the derived keys */
+  metaAddress: StealthMetaAddress;
+}
+
+/**
+ * Options for deriving stealth keys from a mnemonic
+ */
+export interface KeyDerivationOptions {
+  /** Meta-address index (default: 0) */
+  index?: number;
+  /** Optional BIP-39 passphrase */
+  passphrase?: string;
+}
+
+/**
+ * A meta-address decoded from its URI form
+ */
+export interface ParsedMetaAddressUri {
+  /** The decoded meta-address */
+  metaAddress: StealthMetaAddress;
+  /** Chain ID the URI is bound to (hex) */
+  chainId: string;
+}
+
 /**
  * Ephemeral Key Pair
  * 
@@ -61,6 +103,65 @@ export interface StealthAddressResult {
   viewTag: number;
   /** Shared secret (for deriving spending key) */
   sharedSecret: Point;
+  /** Deployment salt: poseidon(R.x, R.y) (for deploy_stealth_account) */
+  salt: bigint;
+}
+
+/**
+ * Random byte source
+ * 
+ * Must return `length` cryptographically secure random bytes.
+ */
+export type RandomBytesFn = (length: number) => Uint8Array;
+
+/**
+ * Options for generating a stealth address
+ */
+export interface StealthAddressOptions {
+  /** Fixed ephemeral private key (for reproducible payments and test vectors) */
+  ephemeralPrivateKey?: bigint;
+  /** Random byte source used when no ephemeral key is given */
+  rng?: RandomBytesFn;
+}
+
+/**
+ * Stealth Payment Request
+ * 
+ * What a recipient asks for: who to pay, in which token, how much, until when
+ */
+export interface StealthPaymentRequest {
+  /** Recipient's meta-address */
+  metaAddress: StealthMetaAddress;
+  /** Chain ID the request is bound to (hex) */
+  chainId: string;
+  /** ERC-20 token contract address (hex) */
+  token: string;
+  /** Amount in the token's base units */
+  amount: bigint;
+  /** Optional note for the sender (not published on-chain) */
+  memo?: string;
+  /** Optional expiry (unix seconds) */
+  expiresAt?: number;
+}
+
+/**
+ * Options for turning a payment request into a payment
+ */
+export interface StealthPaymentOptions extends StealthAddressOptions {
+  /** Current time in unix seconds, for the expiry check (default: now) */
+  now?: number;
+  /** Registry address; when set, an announce call is included */
+  registryAddress?: string;
+}
+
+/**
+ * A stealth payment ready to sign
+ */
+export interface StealthPayment extends StealthAddressResult {
+  /** The request this payment fulfills */
+  request: StealthPaymentRequest;
+  /** Token transfer to the stealth address, then the announcement (if requested) */
+  calls: Call[];
 }
 
 /**
@@ -85,6 +186,8 @@ export interface Announcement {
   index?: number;
   /** Block number */
   blockNumber?: number;
+  /** Block hash (used to detect reorgs) */
+  blockHash?: string;
   /** Transaction hash */
   txHash?: string;
 }
@@ -99,10 +202,107 @@ export interface ScanResult {
   isOurs: boolean;
   /** The matched announcement (if isOurs) */
   announcement?: Announcement;
-  /** The derived spending private key (if isOurs) */
+  /** The derived spending private key (if isOurs, full raw-key scans only) */
   spendingKey?: bigint;
+  /** Handle to the derived key held by a StealthKeyring (keyring scans only) */
+  keyHandle?: StealthKeyHandle;
   /** The stealth address (if isOurs) */
   stealthAddress?: string;
+  /** The stealth public key P (if isOurs, raw-key and view-only scans) */
+  stealthPubkey?: Point;
+  /** h = hash(S), enough to derive the stealth key with the spending key later */
+  sharedSecretHash?: bigint;
+}
+
+/**
+ * Scan Checkpoint
+ * 
+ * Progress of incremental scanning for one recipient. Holds only public
+ * announcement data, never keys.
+ */
+export interface ScanCheckpoint {
+  /** Last block whose announcements were all processed */
+  lastScannedBlock: number;
+  /** Highest announcement index processed (if the registry emits indices) */
+  lastIndex?: number;
+  /** Announcements found to be ours so far */
+  matches: Announcement[];
+  /** Hashes of recently scanned blocks, oldest first (reorg detection) */
+  recentBlocks?: ScannedBlock[];
+}
+
+/**
+ * A scanned block remembered for reorg detection
+ */
+export interface ScannedBlock {
+  blockNumber: number;
+  blockHash: string;
+  /** Highest announcement index at or before this block */
+  lastIndex?: number;
+}
+
+/**
+ * Matches rolled back because their blocks left the canonical chain
+ */
+export interface ScanReorg {
+  /** First block rescanned: the one after the last block still canonical */
+  fromBlock: number;
+  /** Matches that were removed from the checkpoint */
+  removed: Announcement[];
+}
+
+/**
+ * How settled a block must be before the scanner reports its announcements
+ * 
+ * - 'accepted': accepted on L2 (the latest block, may still be reorged)
+ * - 'finalized': accepted on L1
+ * - number: at least this many blocks on top of the latest accepted block
+ */
+export type ConfirmationDepth = 'accepted' | 'finalized' | number;
+
+/**
+ * Where the scanner reads announcements from (see sources.ts)
+ */
+export interface AnnouncementSource {
+  /**
+   * Announcements emitted in [fromBlock, toBlock], in chain order
+   * 
+   * @param toBlock - Last block, inclusive (default: latest)
+   */
+  fetchAnnouncements(fromBlock: number, toBlock?: number): Promise<Announcement[]>;
+  /**
+   * Same announcements, one page at a time (optional; without it the
+   * scanner treats fetchAnnouncements() as a single page)
+   */
+  fetchAnnouncementPages?(
+    fromBlock: number,
+    toBlock?: number,
+    options?: { pageSize?: number }
+  ): AsyncIterable<Announcement[]>;
+  /** Highest block the source has complete data for */
+  getBlockNumber(): Promise<number>;
+}
+
+/**
+ * Persistent storage for scan checkpoints
+ */
+export interface ScanCheckpointStore {
+  /** Load the checkpoint for a key, or null if none */
+  load(key: string): Promise<ScanCheckpoint | null>;
+  /** Save (replace) the checkpoint for a key */
+  save(key: string, checkpoint: ScanCheckpoint): Promise<void>;
+  /** Delete the checkpoint for a key */
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * Opaque reference to a stealth key held by a StealthKeyring
+ */
+export interface StealthKeyHandle {
+  /** The stealth address controlled by the key */
+  readonly stealthAddress: string;
+  /** The stealth public key (P) */
+  readonly stealthPubkey: Point;
 }
 
 /**
@@ -117,6 +317,8 @@ export interface StealthConfig {
   rpcUrl: string;
   /** Chain ID */
   chainId: BigNumberish;
+  /** Only fetch announcements with these scheme ids (default: all) */
+  schemeIds?: number[];
 }
 
 /**
@@ -152,3 +354,158 @@ export interface WithdrawalStep {
   amount: bigint;
   delayMs: number;
 }
+
+/**
+ * State of a scheduled withdrawal
+ *
+ * pending -> sending (nonce reserved) -> submitted (tx sent) -> done | failed,
+ * or pending -> cancelled
+ */
+export type WithdrawalStatus =
+  | 'pending'
+  | 'sending'
+  | 'submitted'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * One transfer out of a stealth account, as persisted by WithdrawalExecutor
+ */
+export interface ScheduledWithdrawal {
+  /** Stable id: `${stealthAddress}:${token}:${step}` */
+  id: string;
+  stealthAddress: string;
+  token: string;
+  destination: string;
+  amount: bigint;
+  /** When the step becomes due (ms since epoch) */
+  executeAt: number;
+  status: WithdrawalStatus;
+  /** Account nonce the transfer is sent with (from `sending` on) */
+  nonce?: string;
+  /** Transfer transaction hash, recorded when it is signed (before it is sent) */
+  transactionHash?: string;
+  /** Why the step failed, or the last error of a step that will be retried */
+  error?: string;
+}
+
+/**
+ * A persisted withdrawal schedule
+ */
+export interface WithdrawalSchedule {
+  /** When the schedule was planned (ms since epoch) */
+  createdAt: number;
+  /** Steps in planning order */
+  steps: ScheduledWithdrawal[];
+}
+
+/**
+ * Storage for withdrawal schedules (see WithdrawalExecutor)
+ */
+export interface WithdrawalScheduleStore {
+  /** Load the schedule for a key, or null if none */
+  load(key: string): Promise<WithdrawalSchedule | null>;
+  /** Save (replace) the schedule for a key */
+  save(key: string, schedule: WithdrawalSchedule): Promise<void>;
+  /** Delete the schedule for a key */
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * Keys for a watch-only (scan-only) wallet
+ */
+export interface WatchOnlyKeySet {
+  /** Viewing private key (v) */
+  viewingKey: bigint;
+  /** Spending public key (K) */
+  spendingPubkey: Point;
+  /** Scheme ID of the meta-address */
+  schemeId: number;
+}
+
+/**
+ * Viewing bundle (version 1)
+ * 
+ * JSON credentials for a delegated, view-only scanner: the viewing key,
+ * the spending public key and optionally where to scan. Holders can find
+ * and link your payments but cannot spend them.
+ */
+export interface ViewingBundle {
+  /** Format version */
+  version: number;
+  /** Scheme ID of the meta-address (must be dual-key) */
+  schemeId: number;
+  /** Spending public key (hex) */
+  spendingPubkey: { x: string; y: string };
+  /** Viewing private key (hex) */
+  viewingKey: string;
+  /** Chain ID (hex) */
+  chainId?: string;
+  /** StealthRegistry address */
+  registryAddress?: string;
+  /** StealthAccountFactory address */
+  factoryAddress?: string;
+  /** StealthAccount class hash */
+  accountClassHash?: string;
+  /** First block worth scanning */
+  fromBlock?: number;
+}
+
+/**
+ * Where a viewing bundle's holder should scan
+ */
+export type ViewingBundleContext = Pick<
+  ViewingBundle,
+  'chainId' | 'registryAddress' | 'factoryAddress' | 'accountClassHash' | 'fromBlock'
+>;
+
+/**
+ * Keys and context read from a viewing bundle
+ */
+export interface DecodedViewingBundle extends WatchOnlyKeySet {
+  context: ViewingBundleContext;
+}
+
+/**
+ * Encrypted keystore (version 1)
+ */
+export interface StealthKeystore {
+  /** Format version */
+  version: number;
+  /** Random keystore identifier (UUID v4) */
+  id: string;
+  /** Full (spend + view) or watch-only (view) */
+  type: 'full' | 'watch-only';
+  /** Scheme ID of the meta-address */
+  schemeId: number;
+  /** Spending public key (hex), public so the keystore can be identified */
+  spendingPubkey: { x: string; y: string };
+  /** Encryption parameters and ciphertext */
+  crypto: {
+    cipher: 'aes-256-gcm';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; dklen: number; salt: string };
+  };
+}
+
+/**
+ * Keystore encryption options
+ */
+export interface KeystoreOptions {
+  /** scrypt CPU/memory cost, a power of two up to 2^20 (default: 2^17) */
+  scryptN?: number;
+  /** scrypt block size (default: 8; r * p at most 16, 128 * N * r bytes at most 1 GiB) */
+  scryptR?: number;
+  /** scrypt parallelization (default: 1) */
+  scryptP?: number;
+}
+
+/**
+ * Keys recovered from a keystore
+ */
+export type DecryptedKeystore =
+  | (WatchOnlyKeySet & { type: 'full'; spendingKey: bigint })
+  | (WatchOnlyKeySet & { type: 'watch-only' });
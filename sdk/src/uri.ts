@@ -0,0 +1,148 @@
+/**
+ * Stealth Meta-Address URI Format
+ *
+ * A single pasteable string for sharing a meta-address in chats, profiles
+ * and QR codes:
+ *
+ * ```
+ * st:starknet:<chainId>:<payload>
+ * ```
+ *
+ * - chainId: chain name as a short string (e.g. SN_SEPOLIA), or hex
+ * - payload: hex of version (1) | scheme_id (1) | K.x (32) | V.x (32) | checksum (4)
+ *
+ * Public keys are compressed to their x coordinate: the SDK only uses the
+ * canonical (low-y) point for each x. The checksum is the first 4 bytes of
+ * sha256 over the URI prefix (including the chain) and the payload body, so
+ * a URI copied to the wrong chain fails the checksum as well as the chain check.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { num, shortString } from 'starknet';
+import type { BigNumberish } from 'starknet';
+import type { ParsedMetaAddressUri, StealthMetaAddress } from './types.js';
+import { compressPoint, decodeMetaAddress } from './stealth.js';
+
+/** URI scheme and network prefix */
+export const META_ADDRESS_URI_PREFIX = 'st:starknet:';
+
+/** Payload format version */
+const META_ADDRESS_URI_VERSION = 1;
+
+const KEY_BYTES = 32;
+const CHECKSUM_BYTES = 4;
+const BODY_BYTES = 2 + 2 * KEY_BYTES;
+const CHAIN_NAME_PATTERN = /^[A-Za-z0-9_]{1,31}$/;
+
+function formatChainId(chainId: BigNumberish): string {
+  const hex = num.toHex(chainId);
+  const name = shortString.decodeShortString(hex);
+  return CHAIN_NAME_PATTERN.test(name) ? name : hex;
+}
+
+function parseChainId(segment: string): bigint {
+  if (segment.startsWith('0x')) {
+    return BigInt(segment);
+  }
+  if (!CHAIN_NAME_PATTERN.test(segment)) {
+    throw new Error('Invalid chain ID in meta-address URI');
+  }
+  return BigInt(shortString.encodeShortString(segment));
+}
+
+function checksum(prefix: string, body: Uint8Array): Uint8Array {
+  return sha256(concatBytes(utf8ToBytes(prefix), body)).slice(0, CHECKSUM_BYTES);
+}
+
+function keyToBytes(x: bigint): Uint8Array {
+  return hexToBytes(x.toString(16).padStart(KEY_BYTES * 2, '0'));
+}
+
+/**
+ * Encode a meta-address as a chain-bound URI
+ *
+ * @param metaAddress - Meta-address to share
+ * @param chainId - Chain the meta-address is published for
+ * @returns URI of the form st:starknet:<chainId>:<payload>
+ */
+export function formatMetaAddressUri(
+  metaAddress: StealthMetaAddress,
+  chainId: BigNumberish
+): string {
+  // Validates scheme, curve membership and the single-key invariant
+  const canonical = decodeMetaAddress(
+    num.toHex(metaAddress.spendingKey.x),
+    num.toHex(metaAddress.spendingKey.y),
+    num.toHex(metaAddress.viewingKey.x),
+    num.toHex(metaAddress.viewingKey.y),
+    metaAddress.schemeId
+  );
+
+  const prefix = `${META_ADDRESS_URI_PREFIX}${formatChainId(chainId)}:`;
+  const body = concatBytes(
+    new Uint8Array([META_ADDRESS_URI_VERSION, canonical.schemeId]),
+    keyToBytes(compressPoint(canonical.spendingKey)),
+    keyToBytes(compressPoint(canonical.viewingKey))
+  );
+
+  return prefix + bytesToHex(concatBytes(body, checksum(prefix, body)));
+}
+
+/**
+ * Parse and validate a meta-address URI
+ *
+ * @param uri - URI produced by formatMetaAddressUri()
+ * @param expectedChainId - Reject URIs bound to any other chain
+ * @returns Decoded meta-address and the chain ID it is bound to
+ */
+export function parseMetaAddressUri(
+  uri: string,
+  expectedChainId?: BigNumberish
+): ParsedMetaAddressUri {
+  const trimmed = uri.trim();
+  if (!trimmed.startsWith(META_ADDRESS_URI_PREFIX)) {
+    throw new Error('Not a Starknet stealth meta-address URI');
+  }
+
+  const rest = trimmed.slice(META_ADDRESS_URI_PREFIX.length);
+  const separator = rest.lastIndexOf(':');
+  if (separator <= 0) {
+    throw new Error('Malformed meta-address URI');
+  }
+
+  const chainSegment = rest.slice(0, separator);
+  const payloadHex = rest.slice(separator + 1).toLowerCase();
+  const chainId = parseChainId(chainSegment);
+
+  if (expectedChainId !== undefined && chainId !== BigInt(expectedChainId)) {
+    throw new Error('Meta-address URI is bound to a different chain');
+  }
+
+  if (!/^[0-9a-f]*$/.test(payloadHex) || payloadHex.length !== (BODY_BYTES + CHECKSUM_BYTES) * 2) {
+    throw new Error('Malformed meta-address URI payload');
+  }
+
+  const payload = hexToBytes(payloadHex);
+  const body = payload.slice(0, BODY_BYTES);
+  const expected = checksum(`${META_ADDRESS_URI_PREFIX}${formatChainId(chainId)}:`, body);
+  if (bytesToHex(payload.slice(BODY_BYTES)) !== bytesToHex(expected)) {
+    throw new Error('Invalid meta-address URI checksum');
+  }
+
+  if (body[0] !== META_ADDRESS_URI_VERSION) {
+    throw new Error(`Unsupported meta-address URI version: ${body[0]}`);
+  }
+
+  const schemeId = body[1];
+  // x-only keys: decodeMetaAddress recovers and validates the canonical points
+  const metaAddress = decodeMetaAddress(
+    '0x' + bytesToHex(body.slice(2, 2 + KEY_BYTES)),
+    undefined,
+    '0x' + bytesToHex(body.slice(2 + KEY_BYTES)),
+    undefined,
+    schemeId
+  );
+
+  return { metaAddress, chainId: num.toHex(chainId) };
+}
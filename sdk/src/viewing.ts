@@ -0,0 +1,182 @@
+/**
+ * View-Only Scanning
+ *
+ * Dual-key meta-addresses (scheme_id 1 and 2) separate finding
+ * payments from spending them. A view-only scanner holds the viewing key and
+ * the spending public key only: its matches carry the stealth public key and
+ * the shared-secret hash h, and the spending key holder derives the stealth
+ * key later with deriveMatchSpendingKey().
+ *
+ * ## Viewing bundle format (version 1)
+ *
+ * Plain JSON, for handing scanning to a server or auditor:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "schemeId": 1,
+ *   "spendingPubkey": { "x": "0x...", "y": "0x..." },
+ *   "viewingKey": "0x...",
+ *   "chainId": "0x534e5f5345504f4c4941",
+ *   "registryAddress": "0x...",
+ *   "fromBlock": 120000
+ * }
+ * ```
+ *
+ * The bundle is not encrypted: anyone holding it can link every payment to
+ * the meta-address. Use encryptWatchOnlyKeystore() to store it at rest.
+ */
+
+import { num } from 'starknet';
+import type {
+  DecodedViewingBundle,
+  ScanResult,
+  ViewingBundle,
+  ViewingBundleContext,
+  WatchOnlyKeySet,
+} from './types.js';
+import { getScheme } from './schemes.js';
+import type { StealthScheme } from './schemes.js';
+
+/** Current viewing bundle format version */
+export const VIEWING_BUNDLE_VERSION = 1;
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+
+function getViewingScheme(schemeId: number): StealthScheme {
+  const scheme = getScheme(schemeId);
+  if (!scheme.dualKey) {
+    // The viewing key of a single-key scheme is the spending key
+    throw new Error(
+      `Viewing bundles require a dual-key scheme (scheme_id ${schemeId} is single-key)`
+    );
+  }
+  return scheme;
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && HEX_PATTERN.test(value);
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+function isBlockNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Create a viewing bundle for a delegated scanner
+ *
+ * @param keys - Viewing private key and spending public key
+ * @param context - Where the holder should scan
+ * @throws if the scheme is single-key or the spending public key is invalid
+ */
+export function createViewingBundle(
+  keys: WatchOnlyKeySet,
+  context: ViewingBundleContext = {}
+): ViewingBundle {
+  const scheme = getViewingScheme(keys.schemeId);
+  const spendingPubkey = scheme.decodePublicKey(keys.spendingPubkey.x, keys.spendingPubkey.y);
+  const viewingKey = scheme.normalizePrivateKey(keys.viewingKey);
+
+  const bundle: ViewingBundle = {
+    version: VIEWING_BUNDLE_VERSION,
+    schemeId: scheme.id,
+    spendingPubkey: { x: num.toHex(spendingPubkey.x), y: num.toHex(spendingPubkey.y) },
+    viewingKey: num.toHex(viewingKey),
+  };
+  // Leave absent fields out of the JSON
+  for (const [field, value] of Object.entries(context)) {
+    if (value !== undefined) {
+      (bundle as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  return bundle;
+}
+
+/**
+ * Read a viewing bundle
+ *
+ * @param input - Bundle JSON, or the parsed object
+ * @returns Keys for a view-only scan, plus the bundle's scan context
+ * @throws on unknown versions and malformed bundles
+ */
+export function parseViewingBundle(input: string | ViewingBundle): DecodedViewingBundle {
+  let bundle: ViewingBundle;
+  try {
+    bundle = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch {
+    throw new Error('Invalid viewing bundle');
+  }
+  if (typeof bundle !== 'object' || bundle === null) {
+    throw new Error('Invalid viewing bundle');
+  }
+  if (bundle.version !== VIEWING_BUNDLE_VERSION) {
+    throw new Error(`Unsupported viewing bundle version: ${bundle.version}`);
+  }
+
+  const valid =
+    Number.isInteger(bundle.schemeId) &&
+    typeof bundle.spendingPubkey === 'object' &&
+    bundle.spendingPubkey !== null &&
+    isHex(bundle.spendingPubkey.x) &&
+    isHex(bundle.spendingPubkey.y) &&
+    isHex(bundle.viewingKey) &&
+    isOptional(bundle.chainId, isHex) &&
+    isOptional(bundle.registryAddress, isHex) &&
+    isOptional(bundle.factoryAddress, isHex) &&
+    isOptional(bundle.accountClassHash, isHex) &&
+    isOptional(bundle.fromBlock, isBlockNumber);
+  if (!valid) {
+    throw new Error('Invalid viewing bundle');
+  }
+
+  const scheme = getViewingScheme(bundle.schemeId);
+  return {
+    schemeId: scheme.id,
+    spendingPubkey: scheme.decodePublicKey(
+      BigInt(bundle.spendingPubkey.x),
+      BigInt(bundle.spendingPubkey.y)
+    ),
+    viewingKey: scheme.normalizePrivateKey(BigInt(bundle.viewingKey)),
+    context: {
+      chainId: bundle.chainId,
+      registryAddress: bundle.registryAddress,
+      factoryAddress: bundle.factoryAddress,
+      accountClassHash: bundle.accountClassHash,
+      fromBlock: bundle.fromBlock,
+    },
+  };
+}
+
+/**
+ * Derive the stealth private key for a view-only match
+ *
+ * @param result - Match from a view-only (or raw-key) scan
+ * @param spendingPrivKey - Spending private key (k)
+ * @returns p = k + h mod n
+ * @throws if the result has no shared-secret hash, or k does not own the payment
+ */
+export function deriveMatchSpendingKey(result: ScanResult, spendingPrivKey: bigint): bigint {
+  if (
+    !result.isOurs ||
+    !result.announcement ||
+    result.sharedSecretHash === undefined ||
+    !result.stealthPubkey
+  ) {
+    throw new Error('Scan result has no shared secret hash');
+  }
+  const scheme = getScheme(result.announcement.schemeId);
+  const stealthKey = scheme.deriveStealthPrivateKeyFromHash(
+    spendingPrivKey,
+    result.sharedSecretHash
+  );
+
+  const derived = scheme.getPublicKey(stealthKey);
+  if (derived.x !== result.stealthPubkey.x || derived.y !== result.stealthPubkey.y) {
+    throw new Error('Spending key does not match the stealth public key');
+  }
+  return stealthKey;
+}
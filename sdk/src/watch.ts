@@ -0,0 +1,446 @@
+/**
+ * Live Payment Watching
+ *
+ * A StealthSubscription (see StealthScanner.watch) follows new announcements
+ * and emits:
+ *
+ * - 'payment': a ScanResult for each announcement that is ours
+ * - 'progress': the latest block whose announcements were checked
+ * - 'error': failures; the subscription keeps running (dropped without a listener)
+ *
+ * New events arrive through `starknet_subscribeEvents` when a WebSocket
+ * endpoint is configured, and through block polling otherwise. If the
+ * WebSocket subscription is refused or drops, the subscription falls back
+ * to polling from the last block it saw.
+ */
+
+import type { Announcement, ScanResult } from './types.js';
+import type { RawRegistryEvent } from './events.js';
+
+/**
+ * Subset of the WebSocket API used for subscriptions (browser WebSocket,
+ * Node 22+ global WebSocket, or the `ws` package)
+ */
+export interface WebSocketLike {
+  onopen: (() => void) | null;
+  onmessage: ((message: { data: unknown }) => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  onclose: (() => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/** Opens a WebSocket connection */
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+/**
+ * Options for StealthScanner.watch()
+ */
+export interface WatchOptions {
+  /** First block to check (default: the block after the current head) */
+  fromBlock?: number;
+  /** WebSocket RPC endpoint supporting starknet_subscribeEvents */
+  wsUrl?: string;
+  /** WebSocket implementation (default: globalThis.WebSocket) */
+  webSocket?: WebSocketFactory;
+  /** Polling interval without WebSockets, in milliseconds (default: 10000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Payload of 'progress' events
+ */
+export interface WatchProgress {
+  /** Latest block whose announcements were checked */
+  blockNumber: number;
+  /** Announcements checked since the previous progress event */
+  announcements: number;
+}
+
+/**
+ * Events emitted by a StealthSubscription
+ */
+export interface StealthSubscriptionEvents {
+  payment: ScanResult;
+  progress: WatchProgress;
+  error: unknown;
+}
+
+type Listener<E extends keyof StealthSubscriptionEvents> = (
+  payload: StealthSubscriptionEvents[E]
+) => void;
+
+/**
+ * Scanner hooks used by a subscription
+ */
+export interface WatchContext {
+  registryAddress: string;
+  /** getEvents / subscribeEvents key filter */
+  keys: string[][];
+  /** Highest block to report (honours the scanner's confirmation depth) */
+  getHead(): Promise<number>;
+  fetchAnnouncements(fromBlock: number, toBlock: number): Promise<Announcement[]>;
+  decodeEvent(event: RawRegistryEvent): Announcement | null;
+  checkAnnouncement(announcement: Announcement): Promise<ScanResult>;
+  /** Identity used to skip announcements seen twice (e.g. after a fallback) */
+  announcementId(announcement: Announcement): string;
+  /** Blocks before the next one to fetch whose announcement ids are remembered */
+  reorgWindow: number;
+}
+
+const SUBSCRIBE_REQUEST_ID = 1;
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+
+/** A JSON object, or null for anything else */
+function asObject(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function defaultWebSocketFactory(): WebSocketFactory | undefined {
+  const WebSocketImpl = (globalThis as { WebSocket?: new (url: string) => WebSocketLike })
+    .WebSocket;
+  return WebSocketImpl ? (url) => new WebSocketImpl(url) : undefined;
+}
+
+/**
+ * StealthSubscription - Live stream of incoming stealth payments
+ *
+ * Usage:
+ * ```typescript
+ * const subscription = scanner.watch(keyring, { wsUrl: 'wss://...' });
+ * subscription.on('payment', (result) => console.log(result.stealthAddress));
+ * subscription.on('error', (error) => console.warn(error));
+ * // ...
+ * await subscription.stop();
+ * ```
+ */
+export class StealthSubscription {
+  private context: WatchContext;
+  private options: WatchOptions;
+  private listeners: { [E in keyof StealthSubscriptionEvents]: Set<Listener<E>> } = {
+    payment: new Set(),
+    progress: new Set(),
+    error: new Set(),
+  };
+  private nextBlock: number | null = null;
+  /** Announcement ids checked recently, with their block numbers */
+  private seen = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private socket: WebSocketLike | null = null;
+  private subscriptionId: string | null = null;
+  private stopped = false;
+  private currentMode: 'websocket' | 'polling' | null = null;
+
+  constructor(context: WatchContext, options: WatchOptions = {}) {
+    this.context = context;
+    this.options = options;
+    this.enqueue(() => this.start());
+  }
+
+  /**
+   * How new events are received (null until started)
+   */
+  get mode(): 'websocket' | 'polling' | null {
+    return this.currentMode;
+  }
+
+  /**
+   * Add an event listener
+   */
+  on<E extends keyof StealthSubscriptionEvents>(event: E, listener: Listener<E>): this {
+    this.listeners[event].add(listener);
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   */
+  off<E extends keyof StealthSubscriptionEvents>(event: E, listener: Listener<E>): this {
+    this.listeners[event].delete(listener);
+    return this;
+  }
+
+  /**
+   * Stop watching
+   *
+   * Resolves once in-flight checks have finished; no events are emitted
+   * afterwards.
+   */
+  async stop(): Promise<void> {
+    if (!this.stopped) {
+      this.stopped = true;
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+      this.closeSocket();
+    }
+    await this.queue;
+    for (const listeners of Object.values(this.listeners)) {
+      listeners.clear();
+    }
+  }
+
+  private emit<E extends keyof StealthSubscriptionEvents>(
+    event: E,
+    payload: StealthSubscriptionEvents[E]
+  ): void {
+    if (this.stopped) {
+      return;
+    }
+    for (const listener of this.listeners[event]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        if (event !== 'error') {
+          this.emit('error', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run tasks one at a time, so announcements are checked in order
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(async () => {
+      if (this.stopped) {
+        return;
+      }
+      try {
+        await task();
+      } catch (error) {
+        this.emit('error', error);
+      }
+    });
+  }
+
+  private async start(): Promise<void> {
+    // Catch up on blocks before the live stream
+    try {
+      await this.poll();
+    } catch (error) {
+      this.emit('error', error);
+    }
+    // stop() may have run during the catch-up poll
+    if (this.stopped) {
+      return;
+    }
+
+    const webSocket = this.options.webSocket ?? defaultWebSocketFactory();
+    if (this.options.wsUrl && webSocket) {
+      this.subscribe(this.options.wsUrl, webSocket);
+    } else {
+      this.startPolling();
+    }
+  }
+
+  // ==========================================================================
+  // Polling
+  // ==========================================================================
+
+  private startPolling(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.currentMode = 'polling';
+    this.schedulePoll();
+  }
+
+  private schedulePoll(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueue(async () => {
+        try {
+          await this.poll();
+        } finally {
+          this.schedulePoll();
+        }
+      });
+    }, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+  }
+
+  private async poll(): Promise<void> {
+    const head = await this.context.getHead();
+    if (this.nextBlock === null) {
+      this.nextBlock = this.options.fromBlock ?? head + 1;
+    }
+    if (this.nextBlock > head) {
+      return;
+    }
+    const announcements = await this.context.fetchAnnouncements(this.nextBlock, head);
+    await this.process(announcements);
+    this.nextBlock = head + 1;
+    this.emit('progress', { blockNumber: head, announcements: announcements.length });
+  }
+
+  // ==========================================================================
+  // WebSocket (starknet_subscribeEvents)
+  // ==========================================================================
+
+  private subscribe(url: string, webSocket: WebSocketFactory): void {
+    if (this.stopped) {
+      return;
+    }
+    let socket: WebSocketLike;
+    try {
+      socket = webSocket(url);
+    } catch {
+      this.startPolling();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: SUBSCRIBE_REQUEST_ID,
+          method: 'starknet_subscribeEvents',
+          params: {
+            from_address: this.context.registryAddress,
+            keys: this.context.keys,
+            block_id:
+              this.nextBlock === null ? 'latest' : { block_number: this.nextBlock },
+          },
+        })
+      );
+    };
+
+    socket.onmessage = (message) => {
+      let payload: Record<string, unknown> | null;
+      try {
+        payload = asObject(JSON.parse(String(message.data)) as unknown);
+      } catch {
+        return;
+      }
+      if (!payload) {
+        return;
+      }
+
+      if (payload.id === SUBSCRIBE_REQUEST_ID) {
+        if (payload.error) {
+          // Node without subscription support
+          this.fallBackToPolling(null);
+        } else {
+          this.subscriptionId = String(payload.result);
+          this.currentMode = 'websocket';
+        }
+        return;
+      }
+
+      const params = asObject(payload.params);
+      const event = asObject(params?.result);
+      if (
+        payload.method === 'starknet_subscriptionEvents' &&
+        String(params?.subscription_id) === this.subscriptionId &&
+        event
+      ) {
+        // decodeEvent() skips events that are not well-formed announcements
+        this.enqueue(() => this.handleEvent(event as unknown as RawRegistryEvent));
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles the fallback
+    };
+
+    socket.onclose = () => {
+      const wasSubscribed = this.subscriptionId !== null;
+      this.fallBackToPolling(
+        wasSubscribed ? new Error('WebSocket subscription closed, polling instead') : null
+      );
+    };
+  }
+
+  private async handleEvent(event: RawRegistryEvent): Promise<void> {
+    const announcement = this.context.decodeEvent(event);
+    if (!announcement) {
+      return;
+    }
+    await this.process([announcement]);
+    if (announcement.blockNumber !== undefined) {
+      // The block may have more events: resume from it (duplicates are skipped)
+      this.nextBlock = Math.max(this.nextBlock ?? 0, announcement.blockNumber);
+      this.emit('progress', { blockNumber: announcement.blockNumber, announcements: 1 });
+    }
+  }
+
+  private fallBackToPolling(error: Error | null): void {
+    if (!this.socket || this.stopped) {
+      return;
+    }
+    this.closeSocket();
+    if (error) {
+      this.emit('error', error);
+    }
+    this.startPolling();
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      if (this.subscriptionId !== null) {
+        socket.send(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: SUBSCRIBE_REQUEST_ID + 1,
+            method: 'starknet_unsubscribe',
+            params: { subscription_id: this.subscriptionId },
+          })
+        );
+      }
+      socket.close();
+    } catch {
+      // Already closed
+    }
+    this.subscriptionId = null;
+  }
+
+  private async process(announcements: Announcement[]): Promise<void> {
+    for (const announcement of announcements) {
+      if (this.stopped) {
+        return;
+      }
+      const id = this.context.announcementId(announcement);
+      if (this.seen.has(id)) {
+        continue;
+      }
+      this.seen.set(id, announcement.blockNumber ?? this.nextBlock ?? 0);
+      const result = await this.context.checkAnnouncement(announcement);
+      if (result.isOurs) {
+        this.emit('payment', result);
+      }
+    }
+    this.forgetOldAnnouncements();
+  }
+
+  /**
+   * Drop ids of blocks too old to be fetched or delivered again
+   *
+   * Later fetches start at nextBlock; replays after a fallback or a reorg
+   * stay within the reorg window before it.
+   */
+  private forgetOldAnnouncements(): void {
+    const oldest = (this.nextBlock ?? 0) - this.context.reorgWindow;
+    for (const [id, blockNumber] of this.seen) {
+      if (blockNumber < oldest) {
+        this.seen.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ec, num } from 'starknet';
+import { openStealthAccount } from '../src/account.js';
+import { StealthKeyring } from '../src/keyring.js';
+import { StealthScanner } from '../src/scanner.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+import { computeStealthSalt, createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { ScanResult } from '../src/types.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const meta = createMetaAddress(1n, 2n);
+const keys = { spendingPubkey: meta.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+const payment = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+
+async function scanPayment(recipient: typeof keys | StealthKeyring): Promise<ScanResult> {
+  const source = new MemoryAnnouncementSource([
+    {
+      schemeId: 1,
+      ephemeralPubkeyX: payment.ephemeralPubkey.x,
+      ephemeralPubkeyY: payment.ephemeralPubkey.y,
+      viewTag: payment.viewTag,
+      stealthAddress: payment.stealthAddress,
+      metadata: 0n,
+      index: 0,
+      blockNumber: 1,
+    },
+  ]);
+  const scanner: any = new StealthScanner(config, { source });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  const [result] = await scanner.scan(recipient);
+  return result;
+}
+
+function createProvider(deployed: boolean) {
+  return {
+    channel: {},
+    getClassHashAt: deployed
+      ? vi.fn().mockResolvedValue(CLASS_HASH)
+      : vi.fn().mockRejectedValue(Object.assign(new Error('Contract not found'), { code: 20 })),
+    waitForTransaction: vi.fn().mockResolvedValue({}),
+  };
+}
+
+describe('SDK stealth account access', () => {
+  it('signs for a deployed stealth account with the derived key', async () => {
+    const result = await scanPayment(keys);
+    const provider = createProvider(true);
+    const account = await openStealthAccount(result, provider as any);
+
+    expect(BigInt(account.address)).toBe(BigInt(payment.stealthAddress));
+    expect(await account.signer.getPubKey()).toBe(num.toHex(payment.stealthPubkey.x));
+
+    // StealthAccount verifies (r, s) against the stored x coordinate
+    const msgHash = '0x1234abcd';
+    const signature = await (account.signer as any).signRaw(msgHash);
+    expect(ec.starkCurve.verify(signature, msgHash, ec.starkCurve.getPublicKey(
+      num.toHex(result.spendingKey!)
+    ))).toBe(true);
+    expect(provider.waitForTransaction).not.toHaveBeenCalled();
+  });
+
+  it('deploys an undeployed account through the factory first', async () => {
+    const keyring = StealthKeyring.fromKeys({ spendingKey: 1n, viewingKey: 2n });
+    const result = await scanPayment(keyring);
+    const provider = createProvider(false);
+    const deployer = { execute: vi.fn().mockResolvedValue({ transaction_hash: '0xabc' }) };
+
+    const account = await openStealthAccount(result, provider as any, {
+      factoryAddress: config.factoryAddress,
+      deployer: deployer as any,
+      keyring,
+    });
+
+    expect(deployer.execute).toHaveBeenCalledWith({
+      contractAddress: config.factoryAddress,
+      entrypoint: 'deploy_stealth_account',
+      calldata: [payment.stealthPubkey.x, payment.stealthPubkey.y, payment.salt].map(String),
+    });
+    expect(payment.salt).toBe(computeStealthSalt(payment.ephemeralPubkey));
+    expect(provider.waitForTransaction).toHaveBeenCalledWith('0xabc');
+    expect(await account.signer.getPubKey()).toBe(num.toHex(payment.stealthPubkey.x));
+  });
+
+  it('does not hand out an account whose deployment reverted', async () => {
+    const result = await scanPayment(keys);
+    const provider = createProvider(false);
+    provider.waitForTransaction.mockResolvedValue({
+      execution_status: 'REVERTED',
+      revert_reason: 'Insufficient max fee',
+    });
+    const deployer = { execute: vi.fn().mockResolvedValue({ transaction_hash: '0xabc' }) };
+
+    await expect(
+      openStealthAccount(result, provider as any, {
+        factoryAddress: config.factoryAddress,
+        deployer: deployer as any,
+      })
+    ).rejects.toThrow('deployment reverted: Insufficient max fee');
+  });
+
+  it('refuses results it cannot open', async () => {
+    const keyring = StealthKeyring.fromKeys({ spendingKey: 1n, viewingKey: 2n });
+    const keyringResult = await scanPayment(keyring);
+    await expect(openStealthAccount(keyringResult, createProvider(true) as any)).rejects.toThrow(
+      'Pass the keyring'
+    );
+    await expect(
+      openStealthAccount({ isOurs: false }, createProvider(true) as any)
+    ).rejects.toThrow('not a payment to us');
+
+    const result = await scanPayment(keys);
+    await expect(openStealthAccount(result, createProvider(false) as any)).rejects.toThrow(
+      'is not deployed'
+    );
+
+    const provider = { getClassHashAt: vi.fn().mockRejectedValue(new Error('rate limited')) };
+    await expect(openStealthAccount(result, provider as any)).rejects.toThrow('rate limited');
+  });
+});
@@ -0,0 +1,257 @@
+import { afterAll, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  IndexedDbCheckpointStore,
+  JsonFileCheckpointStore,
+  MemoryCheckpointStore,
+} from '../src/checkpoints.js';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
+import { StealthScanner } from '../src/scanner.js';
+import type { StealthScannerOptions } from '../src/scanner.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { ScanCheckpoint, ScanCheckpointStore } from '../src/types.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const checkpoint: ScanCheckpoint = {
+  lastScannedBlock: 120,
+  lastIndex: 7,
+  matches: [
+    {
+      schemeId: 1,
+      ephemeralPubkeyX: 2n ** 250n + 1n,
+      ephemeralPubkeyY: 3n,
+      stealthAddress: '0x33',
+      viewTag: 42,
+      metadata: 0n,
+      index: 7,
+      blockNumber: 120,
+      txHash: '0xabc',
+    },
+  ],
+};
+
+const tmpDirs: string[] = [];
+afterAll(async () => {
+  await Promise.all(tmpDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+async function jsonStore(): Promise<{ store: JsonFileCheckpointStore; path: string }> {
+  const dir = await mkdtemp(join(tmpdir(), 'stealth-checkpoints-'));
+  tmpDirs.push(dir);
+  const path = join(dir, 'checkpoints.json');
+  return { store: new JsonFileCheckpointStore(path), path };
+}
+
+function createScanner(
+  store: ScanCheckpointStore,
+  headBlock: number,
+  events: object[],
+  blockHash: (blockNumber: number) => string = (blockNumber) => `0xb${blockNumber}`,
+  options: StealthScannerOptions = {}
+) {
+  const scanner: any = new StealthScanner(config, { checkpointStore: store, ...options });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  const getEvents = vi.fn().mockResolvedValue({ events });
+  scanner.provider = {
+    getEvents,
+    getBlockNumber: vi.fn().mockResolvedValue(headBlock),
+    getBlockWithTxHashes: vi.fn(async (blockNumber: number) => ({
+      block_hash: blockHash(blockNumber),
+      status: blockNumber <= 120 ? 'ACCEPTED_ON_L1' : 'ACCEPTED_ON_L2',
+    })),
+  };
+  return { scanner, getEvents };
+}
+
+describe('SDK checkpoint stores', () => {
+  const stores: [string, () => Promise<ScanCheckpointStore>][] = [
+    ['memory', async () => new MemoryCheckpointStore()],
+    ['JSON file', async () => (await jsonStore()).store],
+    ['IndexedDB', async () => new IndexedDbCheckpointStore({ indexedDB: new IDBFactory() })],
+  ];
+
+  for (const [name, createStore] of stores) {
+    it(`round-trips checkpoints (${name})`, async () => {
+      const store = await createStore();
+      expect(await store.load('a')).toBeNull();
+
+      await store.save('a', checkpoint);
+      await store.save('b', { lastScannedBlock: 5, matches: [] });
+      expect(await store.load('a')).toEqual(checkpoint);
+      expect((await store.load('b'))?.lastScannedBlock).toBe(5);
+
+      await store.clear('a');
+      expect(await store.load('a')).toBeNull();
+      expect(await store.load('b')).not.toBeNull();
+    });
+  }
+
+  it('writes JSON with bigints as hex strings', async () => {
+    const { store, path } = await jsonStore();
+    await store.save('a', checkpoint);
+    const file = JSON.parse(await readFile(path, 'utf8'));
+    expect(file.a.matches[0].ephemeralPubkeyX).toBe(`0x${(2n ** 250n + 1n).toString(16)}`);
+  });
+});
+
+describe('SDK incremental scanning', () => {
+  const meta = createMetaAddress(1n, 2n);
+  const payment = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  const recipient = { spendingPubkey: meta.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+  const paymentEvent = {
+    keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', `0x${payment.viewTag.toString(16)}`],
+    data: [
+      `0x${payment.ephemeralPubkey.x.toString(16)}`,
+      `0x${payment.ephemeralPubkey.y.toString(16)}`,
+      payment.stealthAddress,
+      '0x0',
+      '0x3',
+    ],
+    block_number: 100,
+    transaction_hash: '0xabc',
+  };
+
+  it('resumes after the last scanned block without duplicate matches', async () => {
+    const store = new MemoryCheckpointStore();
+
+    const first = createScanner(store, 150, [paymentEvent]);
+    const found = await first.scanner.scan(meta.spendingKey, 2n, 1n, 10);
+    expect(found.length).toBe(1);
+    expect(first.getEvents.mock.calls[0][0].from_block).toEqual({ block_number: 10 });
+    expect(first.getEvents.mock.calls[0][0].to_block).toEqual({ block_number: 150 });
+
+    const saved = await first.scanner.getCheckpoint(recipient);
+    expect(saved?.lastScannedBlock).toBe(150);
+    expect(saved?.lastIndex).toBe(3);
+    expect(saved?.matches.map((match: any) => match.stealthAddress)).toEqual([
+      payment.stealthAddress,
+    ]);
+
+    // The node returns the same announcement again: it is skipped
+    const second = createScanner(store, 200, [paymentEvent]);
+    const again = await second.scanner.scan(meta.spendingKey, 2n, 1n, 10);
+    expect(again).toEqual([]);
+    expect(second.getEvents.mock.calls[0][0].from_block).toEqual({ block_number: 151 });
+    const resumed = await second.scanner.getCheckpoint(recipient);
+    expect(resumed?.lastScannedBlock).toBe(200);
+    expect(resumed?.matches.length).toBe(1);
+  });
+
+  it('does not fetch when already at the head', async () => {
+    const store = new MemoryCheckpointStore();
+    const { scanner } = createScanner(store, 150, [paymentEvent]);
+    await scanner.scan(meta.spendingKey, 2n, 1n);
+
+    const idle = createScanner(store, 150, [paymentEvent]);
+    expect(await idle.scanner.scan(meta.spendingKey, 2n, 1n)).toEqual([]);
+    expect(idle.getEvents).not.toHaveBeenCalled();
+  });
+});
+
+describe('SDK reorg handling', () => {
+  const meta = createMetaAddress(1n, 2n);
+  const recipient = { spendingPubkey: meta.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+
+  function announce(blockNumber: number, blockHash: string, index: number) {
+    const payment = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+    return {
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', `0x${payment.viewTag.toString(16)}`],
+      data: [
+        `0x${payment.ephemeralPubkey.x.toString(16)}`,
+        `0x${payment.ephemeralPubkey.y.toString(16)}`,
+        payment.stealthAddress,
+        '0x0',
+        `0x${index.toString(16)}`,
+      ],
+      block_number: blockNumber,
+      block_hash: blockHash,
+      transaction_hash: `0x${index}ff`,
+    };
+  }
+
+  const original = (blockNumber: number) => `0xa${blockNumber}`;
+  const forked = (blockNumber: number) =>
+    blockNumber >= 140 ? `0xf${blockNumber}` : `0xa${blockNumber}`;
+
+  it('rolls back matches from replaced blocks and rescans them', async () => {
+    const store = new MemoryCheckpointStore();
+    const stable = announce(130, original(130), 1);
+    const orphaned = announce(145, original(145), 2);
+
+    const first = createScanner(store, 150, [stable, orphaned], original);
+    expect((await first.scanner.scan(meta.spendingKey, 2n, 1n)).length).toBe(2);
+
+    // Block 140 onwards is replaced; the new chain re-includes nothing yet
+    const onReorg = vi.fn();
+    const second = createScanner(store, 160, [], forked, { onReorg });
+    expect(await second.scanner.scan(meta.spendingKey, 2n, 1n)).toEqual([]);
+
+    expect(onReorg).toHaveBeenCalledTimes(1);
+    const reorg = onReorg.mock.calls[0][0];
+    expect(reorg.fromBlock).toBe(131);
+    expect(reorg.removed.map((match: any) => match.index)).toEqual([2]);
+
+    // Rescanned from the last canonical block
+    expect(second.getEvents.mock.calls[0][0].from_block).toEqual({ block_number: 131 });
+    const checkpoint = await second.scanner.getCheckpoint(recipient);
+    expect(checkpoint?.matches.map((match: any) => match.index)).toEqual([1]);
+    expect(checkpoint?.lastScannedBlock).toBe(160);
+    expect(checkpoint?.lastIndex).toBe(1);
+  });
+
+  it('reports announcements re-included after a reorg', async () => {
+    const store = new MemoryCheckpointStore();
+    const orphaned = announce(145, original(145), 2);
+    await createScanner(store, 150, [orphaned], original).scanner.scan(meta.spendingKey, 2n, 1n);
+
+    const reincluded = { ...orphaned, block_number: 147, block_hash: forked(147) };
+    const { scanner } = createScanner(store, 150, [reincluded], forked);
+    const results = await scanner.scan(meta.spendingKey, 2n, 1n);
+    expect(results.map((result: any) => result.announcement.blockNumber)).toEqual([147]);
+  });
+
+  it('leaves the checkpoint alone when the chain is unchanged', async () => {
+    const store = new MemoryCheckpointStore();
+    await createScanner(store, 150, [announce(145, original(145), 2)], original).scanner.scan(
+      meta.spendingKey,
+      2n,
+      1n
+    );
+
+    const onReorg = vi.fn();
+    const { scanner } = createScanner(store, 150, [], original, { onReorg });
+    await scanner.scan(meta.spendingKey, 2n, 1n);
+    expect(onReorg).not.toHaveBeenCalled();
+    // Only the newest remembered block is checked
+    expect(scanner.provider.getBlockWithTxHashes).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits the scan to the requested confirmation depth', async () => {
+    const byDepth = async (confirmationDepth: StealthScannerOptions['confirmationDepth']) => {
+      const { scanner, getEvents } = createScanner(
+        new MemoryCheckpointStore(),
+        150,
+        [],
+        original,
+        { confirmationDepth }
+      );
+      await scanner.scan(meta.spendingKey, 2n, 1n);
+      return getEvents.mock.calls[0][0].to_block;
+    };
+
+    expect(await byDepth('accepted')).toEqual({ block_number: 150 });
+    expect(await byDepth(10)).toEqual({ block_number: 140 });
+    expect(await byDepth('finalized')).toEqual({ block_number: 120 });
+  });
+});
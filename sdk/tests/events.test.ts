@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { hash } from 'starknet';
+import {
+  ANNOUNCEMENT_EVENT_SELECTOR,
+  buildAnnouncementKeyFilter,
+  decodeAnnouncementEvent,
+} from '../src/events.js';
+import { StealthScanner } from '../src/scanner.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+
+const META_ADDRESS_REGISTERED = hash.getSelectorFromName('MetaAddressRegistered');
+
+describe('SDK registry event decoding', () => {
+  it('decodes the legacy layout only under the Announcement selector', () => {
+    const legacy = {
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x2a'],
+      data: ['0x1', '0x11', '0x22', '0x33', '0x44'],
+    };
+    const decoded = decodeAnnouncementEvent(legacy);
+    expect(decoded?.schemeId).toBe(1);
+    expect(decoded?.viewTag).toBe(0x2a);
+    expect(decoded?.stealthAddress).toBe('0x33');
+    expect(decoded?.index).toBeUndefined();
+
+    // MetaAddressRegistered has the legacy shape: [selector, user] + 5 felts
+    const registered = { ...legacy, keys: [META_ADDRESS_REGISTERED, '0x2a'] };
+    expect(decodeAnnouncementEvent(registered)).toBeNull();
+  });
+
+  it('ignores announcements with an unexpected number of fields', () => {
+    const event = {
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x2a'],
+      data: ['0x11', '0x22', '0x33', '0x44', '0x5', '0x6'],
+    };
+    expect(decodeAnnouncementEvent(event)).toBeNull();
+    expect(decodeAnnouncementEvent({ keys: [], data: [] })).toBeNull();
+  });
+
+  it('builds a selector-only key filter', () => {
+    expect(buildAnnouncementKeyFilter()).toEqual([[ANNOUNCEMENT_EVENT_SELECTOR]]);
+  });
+});
+
+describe('SDK scanner event filtering', () => {
+  it('requests only announcements and drops other scheme ids', async () => {
+    const scanner: any = new StealthScanner({ ...config, schemeIds: [1] });
+    scanner.registryContract = {};
+
+    const getEvents = vi.fn().mockResolvedValue({
+      events: [
+        {
+          keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', '0x01'],
+          data: ['0x11', '0x22', '0x33', '0x44', '0x1'],
+        },
+        // Legacy scheme 0 event whose view tag collides with the scheme id
+        {
+          keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1'],
+          data: ['0x0', '0x55', '0x66', '0x77', '0x88'],
+        },
+        // Legacy scheme 1 event: key 1 is its view tag, not its scheme id
+        {
+          keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x2a'],
+          data: ['0x1', '0x55', '0x66', '0x99', '0x88'],
+        },
+        {
+          keys: [META_ADDRESS_REGISTERED, '0x1'],
+          data: ['0x1', '0x11', '0x22', '0x33', '0x44'],
+        },
+      ],
+    });
+    scanner.provider = { getEvents, getBlockNumber: vi.fn().mockResolvedValue(10) };
+
+    const results = await scanner.fetchAnnouncements(0);
+    expect(results.map((a: any) => a.stealthAddress)).toEqual(['0x33', '0x99']);
+    // Only the selector goes to the node; scheme ids are filtered after decoding
+    expect(getEvents.mock.calls[0][0].keys).toEqual([[ANNOUNCEMENT_EVENT_SELECTOR]]);
+  });
+});
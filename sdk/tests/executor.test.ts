@@ -0,0 +1,390 @@
+import { afterAll, afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { constants, Signer } from 'starknet';
+import type { Call, V3InvocationsSignerDetails } from 'starknet';
+import {
+  JsonFileWithdrawalScheduleStore,
+  MemoryWithdrawalScheduleStore,
+  WithdrawalExecutor,
+} from '../src/executor.js';
+import type { WithdrawalExecutorOptions } from '../src/executor.js';
+import type { ScanResult } from '../src/types.js';
+
+const STRK = '0x4718';
+const ETH = '0x49d3';
+const ALICE = '0xa';
+const BOB = '0xb';
+const DESTINATIONS = ['0xd1', '0xd2'];
+
+const results: ScanResult[] = [
+  { isOurs: true, stealthAddress: ALICE },
+  { isOurs: true, stealthAddress: BOB },
+  { isOurs: false },
+];
+
+function createProvider(balances: Record<string, bigint>) {
+  return {
+    callContract: vi.fn(async (call: { contractAddress: string; calldata: string[] }) => {
+      const owner = `0x${BigInt(call.calldata[0]).toString(16)}`;
+      return [String(balances[`${call.contractAddress}:${owner}`] ?? 0n), '0'];
+    }),
+    waitForTransaction: vi.fn().mockResolvedValue({}),
+    getTransaction: vi.fn().mockRejectedValue(
+      Object.assign(new Error('Transaction hash not found'), { code: 29 })
+    ),
+  };
+}
+
+/** Signer that keeps the hashes it signs */
+class CapturingSigner extends Signer {
+  hashes: string[] = [];
+
+  protected async signRaw(msgHash: string) {
+    this.hashes.push(msgHash);
+    return super.signRaw(msgHash);
+  }
+}
+
+/** What Account.execute() passes to its signer for a V3 invoke */
+function signerDetails(address: string, nonce: string): V3InvocationsSignerDetails {
+  const noGas = { max_amount: '0x0', max_price_per_unit: '0x0' };
+  return {
+    walletAddress: address,
+    cairoVersion: '1',
+    chainId: constants.StarknetChainId.SN_SEPOLIA,
+    nonce,
+    version: '0x3',
+    resourceBounds: { l1_gas: { max_amount: '0x10', max_price_per_unit: '0x20' }, l2_gas: noGas },
+    tip: 0,
+    paymasterData: [],
+    accountDeploymentData: [],
+    nonceDataAvailabilityMode: 'L1',
+    feeDataAvailabilityMode: 'L1',
+  };
+}
+
+/** A stealth account whose nonce advances with each transaction */
+function createAccount(name: string, nonce = 0) {
+  const account = {
+    nonce,
+    signer: new CapturingSigner('0x5'),
+    getNonce: vi.fn(async () => `0x${account.nonce.toString(16)}`),
+    execute: vi.fn(async (call: Call, details: { nonce: string }) => {
+      expect(BigInt(details.nonce)).toBe(BigInt(account.nonce));
+      await account.signer.signTransaction([call], signerDetails(`0x${name}`, details.nonce));
+      account.nonce++;
+      return { transaction_hash: `0x${name}${account.nonce}` };
+    }),
+  };
+  return account;
+}
+
+function createExecutor(
+  provider: ReturnType<typeof createProvider>,
+  accounts: Record<string, ReturnType<typeof createAccount>>,
+  options: WithdrawalExecutorOptions = {},
+  scanResults = results
+) {
+  const executor: any = new WithdrawalExecutor(scanResults, provider as any, options);
+  for (const [address, account] of Object.entries(accounts)) {
+    executor.accounts.set(address, Promise.resolve(account));
+  }
+  return executor as WithdrawalExecutor;
+}
+
+describe('SDK withdrawal executor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sweeps every token balance in planned steps to the destinations', async () => {
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 100n, [`${ETH}:${BOB}`]: 7n });
+    const alice = createAccount('a');
+    const bob = createAccount('b');
+    const executor = createExecutor(provider, { [ALICE]: alice, [BOB]: bob });
+
+    const plan = await executor.plan({
+      destinations: DESTINATIONS,
+      tokens: [STRK, ETH],
+      reserves: { '0x04718': 10n },
+      splits: 3,
+    });
+    // Alice: 90 STRK in 3 steps, Bob: 7 ETH in 3 steps, nothing for empty balances
+    expect(plan.steps.map((step) => step.id)).toEqual([
+      '0xa:0x4718:0',
+      '0xa:0x4718:1',
+      '0xa:0x4718:2',
+      '0xb:0x49d3:0',
+      '0xb:0x49d3:1',
+      '0xb:0x49d3:2',
+    ]);
+    expect(plan.steps.slice(0, 3).reduce((sum, step) => sum + step.amount, 0n)).toBe(90n);
+    expect(plan.steps.slice(3).reduce((sum, step) => sum + step.amount, 0n)).toBe(7n);
+    expect(plan.steps.map((step) => step.destination)).toEqual([
+      ...DESTINATIONS,
+      ...DESTINATIONS,
+      ...DESTINATIONS,
+    ]);
+
+    const schedule = await executor.run();
+    expect(schedule.steps.every((step) => step.status === 'done')).toBe(true);
+    expect(schedule.steps.map((step) => step.transactionHash)).toEqual([
+      '0xa1',
+      '0xa2',
+      '0xa3',
+      '0xb1',
+      '0xb2',
+      '0xb3',
+    ]);
+    expect(alice.execute).toHaveBeenCalledWith(
+      {
+        contractAddress: STRK,
+        entrypoint: 'transfer',
+        calldata: [BigInt(DESTINATIONS[0]).toString(), plan.steps[0].amount.toString(), '0'],
+      },
+      { nonce: '0x0' }
+    );
+    expect(provider.waitForTransaction).toHaveBeenCalledTimes(6);
+
+    // A finished schedule can be replaced
+    await expect(
+      executor.plan({ destinations: DESTINATIONS, tokens: [STRK] })
+    ).resolves.toBeDefined();
+  });
+
+  it('executes steps when their delay expires and cancels single steps', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 100n });
+    const alice = createAccount('a');
+    const executor = createExecutor(provider, { [ALICE]: alice });
+
+    const plan = await executor.plan({
+      destinations: DESTINATIONS,
+      tokens: [STRK],
+      splits: 3,
+      minDelayMs: 1000,
+      maxDelayMs: 1000,
+    });
+    expect(plan.steps.map((step) => step.executeAt)).toEqual([1000, 2000, 3000]);
+    await expect(executor.plan({ destinations: DESTINATIONS, tokens: [STRK] })).rejects.toThrow(
+      'still running'
+    );
+
+    expect(await executor.executeDue()).toEqual([]);
+    vi.setSystemTime(1000);
+    const [first] = await executor.executeDue();
+    expect(first).toMatchObject({ id: plan.steps[0].id, status: 'done', transactionHash: '0xa1' });
+
+    await executor.cancel(plan.steps[1].id);
+    await expect(executor.cancel(plan.steps[0].id)).rejects.toThrow('Cannot cancel a done');
+    await expect(executor.cancel('0xa:0x4718:9')).rejects.toThrow('Unknown withdrawal step');
+
+    vi.setSystemTime(3000);
+    const handled = await executor.executeDue();
+    expect(handled.map((step) => step.id)).toEqual([plan.steps[2].id]);
+    expect((await executor.getSchedule()).steps.map((step) => step.status)).toEqual([
+      'done',
+      'cancelled',
+      'done',
+    ]);
+    expect(alice.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('resumes after a crash without sending a transfer twice', async () => {
+    const store = new MemoryWithdrawalScheduleStore();
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 90n, [`${STRK}:${BOB}`]: 30n });
+    const planner = createExecutor(provider, {}, { store });
+    const plan = await planner.plan({ destinations: DESTINATIONS, tokens: [STRK], splits: 3 });
+
+    // Stopped mid-way: Alice's first transfer was signed and went out, her second
+    // was signed but never reached the node. Bob's first awaits its receipt, and
+    // his second nonce went to a transaction sent from elsewhere.
+    const [aliceSent, aliceSigned, , bobSubmitted, bobReserved] = plan.steps;
+    Object.assign(aliceSent, { status: 'sending', nonce: '0x0', transactionHash: '0xa1' });
+    Object.assign(aliceSigned, { status: 'sending', nonce: '0x1', transactionHash: '0xa9' });
+    Object.assign(bobSubmitted, { status: 'submitted', nonce: '0x0', transactionHash: '0xb1' });
+    Object.assign(bobReserved, { status: 'sending', nonce: '0x1' });
+    await store.save('withdrawals', plan);
+    provider.getTransaction.mockImplementation(async (hash: string) => {
+      if (hash === '0xa1') return { transaction_hash: hash };
+      throw Object.assign(new Error('Transaction hash not found'), { code: 29 });
+    });
+
+    const alice = createAccount('a', 1);
+    const bob = createAccount('b', 2);
+    const executor = createExecutor(provider, { [ALICE]: alice, [BOB]: bob }, { store });
+    const schedule = await executor.run();
+
+    expect(schedule.steps.map((step) => [step.status, step.transactionHash])).toEqual([
+      ['done', '0xa1'],
+      ['done', '0xa2'],
+      ['done', '0xa3'],
+      ['done', '0xb1'],
+      ['failed', undefined],
+      ['done', '0xb3'],
+    ]);
+    expect(schedule.steps[4].error).toBe('Nonce 0x1 was used by another transaction');
+    expect(alice.execute).toHaveBeenCalledTimes(2);
+    expect(alice.execute.mock.calls[0][1]).toEqual({ nonce: '0x1' });
+    expect(bob.execute).toHaveBeenCalledTimes(1);
+    expect(provider.waitForTransaction).toHaveBeenCalledWith('0xa1');
+    expect(provider.waitForTransaction).toHaveBeenCalledWith('0xb1');
+  });
+
+  it('records the transaction hash before the transfer is sent', async () => {
+    const store = new MemoryWithdrawalScheduleStore();
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 10n });
+    const alice = createAccount('a');
+    const executor = createExecutor(provider, { [ALICE]: alice }, { store });
+    await executor.plan({ destinations: DESTINATIONS, tokens: [STRK], splits: 1 });
+
+    const { signer } = alice;
+    const stored: unknown[] = [];
+    alice.execute.mockImplementationOnce(async (call: Call, details: { nonce: string }) => {
+      // Account.execute() signs with whatever signer the account holds now
+      await alice.signer.signTransaction([call], signerDetails(ALICE, details.nonce));
+      stored.push((await store.load('withdrawals'))!.steps[0]);
+      return { transaction_hash: signer.hashes[0] };
+    });
+    const [step] = (await executor.run()).steps;
+
+    // The hash the key signed was saved before execute() could broadcast it
+    expect(signer.hashes).toHaveLength(1);
+    expect(stored).toEqual([
+      expect.objectContaining({ status: 'sending', transactionHash: signer.hashes[0] }),
+    ]);
+    expect(step).toMatchObject({ status: 'done', transactionHash: signer.hashes[0] });
+    expect(alice.signer).toBe(signer);
+  });
+
+  it('resumes a transfer whose send or receipt failed in transport', async () => {
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 10n, [`${STRK}:${BOB}`]: 10n });
+    const alice = createAccount('a');
+    const bob = createAccount('b');
+    const executor = createExecutor(provider, { [ALICE]: alice, [BOB]: bob });
+    await executor.plan({ destinations: DESTINATIONS, tokens: [STRK], splits: 1 });
+
+    // Alice's transfer is signed, then the connection drops: the node may have it
+    alice.execute.mockImplementationOnce(async (call: Call, details: { nonce: string }) => {
+      await alice.signer.signTransaction([call], signerDetails(ALICE, details.nonce));
+      throw new Error('socket hang up');
+    });
+    // Bob's goes out, but waiting for its receipt times out
+    provider.waitForTransaction.mockRejectedValueOnce(
+      new Error('waitForTransaction timed-out with retries 30')
+    );
+    await executor.executeDue();
+
+    const [aliceStep, bobStep] = (await executor.getSchedule()).steps;
+    expect(aliceStep).toMatchObject({
+      status: 'sending',
+      transactionHash: alice.signer.hashes[0],
+      error: 'socket hang up',
+    });
+    expect(bobStep).toMatchObject({ status: 'submitted', transactionHash: '0xb1' });
+
+    // Alice's transfer reached the node after all
+    provider.getTransaction.mockResolvedValue({ transaction_hash: alice.signer.hashes[0] });
+    await executor.executeDue();
+
+    const schedule = await executor.getSchedule();
+    expect(schedule.steps.map((step) => [step.status, step.transactionHash, step.error])).toEqual([
+      ['done', alice.signer.hashes[0], undefined],
+      ['done', '0xb1', undefined],
+    ]);
+    expect(alice.execute).toHaveBeenCalledTimes(1);
+    expect(bob.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a step when the node rejects its transfer', async () => {
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 10n, [`${STRK}:${BOB}`]: 10n });
+    const alice = createAccount('a');
+    alice.execute.mockRejectedValueOnce(
+      Object.assign(new Error('Invalid transaction nonce'), { code: 52 })
+    );
+    provider.waitForTransaction.mockRejectedValueOnce(
+      Object.assign(new Error('REJECTED: REJECTED'), {
+        response: { finality_status: 'REJECTED' },
+      })
+    );
+    const bob = createAccount('b');
+    const executor = createExecutor(provider, { [ALICE]: alice, [BOB]: bob });
+
+    await executor.plan({ destinations: DESTINATIONS, tokens: [STRK], splits: 1 });
+    const schedule = await executor.run();
+    expect(schedule.steps.map((step) => [step.status, step.error])).toEqual([
+      ['failed', 'Invalid transaction nonce'],
+      ['failed', 'REJECTED: REJECTED'],
+    ]);
+  });
+
+  it('records failed steps and carries on', async () => {
+    const provider = createProvider({ [`${STRK}:${ALICE}`]: 10n, [`${STRK}:${BOB}`]: 10n });
+    provider.waitForTransaction.mockResolvedValueOnce({
+      execution_status: 'REVERTED',
+      revert_reason: 'u256_sub Overflow',
+    });
+    (provider as any).getClassHashAt = vi.fn().mockRejectedValue(
+      Object.assign(new Error('Contract not found'), { code: 20 })
+    );
+    // Alice's account is not deployed and there is no deployer to deploy it
+    const undeployed: ScanResult = {
+      isOurs: true,
+      stealthAddress: ALICE,
+      spendingKey: 5n,
+      announcement: {
+        schemeId: 1,
+        ephemeralPubkeyX: 1n,
+        ephemeralPubkeyY: 2n,
+        stealthAddress: ALICE,
+        viewTag: 0,
+        metadata: 0n,
+      },
+    };
+    const bob = createAccount('b');
+    const executor = createExecutor(provider, { [BOB]: bob }, {}, [undeployed, results[1]]);
+
+    await executor.plan({ destinations: DESTINATIONS, tokens: [STRK], splits: 2 });
+    const schedule = await executor.run();
+    expect(schedule.steps.map((step) => [step.status, step.error])).toEqual([
+      ['failed', expect.stringContaining('is not deployed')],
+      ['failed', expect.stringContaining('is not deployed')],
+      ['failed', 'Transfer reverted: u256_sub Overflow'],
+      ['done', undefined],
+    ]);
+  });
+
+  describe('JsonFileWithdrawalScheduleStore', () => {
+    let dir: string | undefined;
+    afterAll(async () => {
+      if (dir) await rm(dir, { recursive: true, force: true });
+    });
+
+    it('persists schedules across instances', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'stealth-withdrawals-'));
+      const path = join(dir, 'withdrawals.json');
+      const schedule = {
+        createdAt: 1,
+        steps: [
+          {
+            id: '0xa:0x4718:0',
+            stealthAddress: ALICE,
+            token: STRK,
+            destination: DESTINATIONS[0],
+            amount: 2n ** 130n,
+            executeAt: 2,
+            status: 'pending' as const,
+          },
+        ],
+      };
+
+      await new JsonFileWithdrawalScheduleStore(path).save('withdrawals', schedule);
+      const store = new JsonFileWithdrawalScheduleStore(path);
+      expect(await store.load('withdrawals')).toEqual(schedule);
+      await store.clear('withdrawals');
+      expect(await store.load('withdrawals')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ec, hash, num } from 'starknet';
+import { StealthFactoryClient } from '../src/factory.js';
+import { StealthScanner } from '../src/scanner.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+import {
+  computeStealthContractAddress,
+  createMetaAddress,
+  generateStealthAddress,
+} from '../src/stealth.js';
+
+const FACTORY = '0x2';
+const CLASS_HASH = '0x1234';
+
+const meta = createMetaAddress(1n, 2n);
+
+/** A factory whose compute_stealth_address uses `classHash` */
+function createProvider(classHash = CLASS_HASH) {
+  return {
+    callContract: vi.fn(async (call: { entrypoint: string; calldata: string[] }) => {
+      switch (call.entrypoint) {
+        case 'get_account_class_hash':
+          return [CLASS_HASH];
+        case 'compute_stealth_address': {
+          const [x, y, salt] = call.calldata.map(BigInt);
+          return [
+            computeStealthContractAddress({
+              classHash,
+              deployerAddress: FACTORY,
+              salt,
+              constructorCalldata: [x, y],
+            }),
+          ];
+        }
+        case 'get_deployment_count':
+          return ['0x7'];
+      }
+      throw new Error(`Unexpected call ${call.entrypoint}`);
+    }),
+    getStorageAt: vi.fn().mockResolvedValue('0x1'),
+    execute: vi.fn().mockResolvedValue({ transaction_hash: '0xabc' }),
+  };
+}
+
+describe('SDK factory client', () => {
+  it('reads the account class hash once', async () => {
+    const provider = createProvider();
+    const factory = new StealthFactoryClient(FACTORY, provider as any);
+
+    expect(await factory.getAccountClassHash()).toBe(CLASS_HASH);
+    expect(await factory.getAccountClassHash()).toBe(CLASS_HASH);
+    expect(await factory.getDeploymentCount()).toBe(7);
+    expect(
+      provider.callContract.mock.calls.filter(
+        ([call]) => call.entrypoint === 'get_account_class_hash'
+      )
+    ).toHaveLength(1);
+  });
+
+  it('cross-checks addresses with the factory', async () => {
+    const result = generateStealthAddress(meta, FACTORY, CLASS_HASH);
+    const factory = new StealthFactoryClient(FACTORY, createProvider() as any, { strict: true });
+
+    await expect(factory.assertStealthAddress(result)).resolves.toBeUndefined();
+    const { stealthAddress, stealthPubkey, salt } = result;
+    expect(await factory.verifyAddress(stealthAddress, stealthPubkey, salt)).toBe(true);
+    await expect(
+      factory.assertStealthAddress({ ...result, stealthAddress: '0x99' })
+    ).rejects.toThrow(`expected 0x99, computed ${stealthAddress}`);
+  });
+
+  it('refuses to deploy in strict mode when the computations disagree', async () => {
+    const result = generateStealthAddress(meta, FACTORY, CLASS_HASH);
+    const provider = createProvider('0x5678');
+
+    const strict = new StealthFactoryClient(FACTORY, provider as any, { strict: true });
+    await expect(strict.deployStealthAccount(result)).rejects.toThrow('computed');
+    expect(provider.execute).not.toHaveBeenCalled();
+
+    const lenient = new StealthFactoryClient(FACTORY, provider as any);
+    await lenient.deployStealthAccount(result);
+    expect(provider.execute).toHaveBeenCalledWith({
+      contractAddress: FACTORY,
+      entrypoint: 'deploy_stealth_account',
+      calldata: [result.stealthPubkey.x, result.stealthPubkey.y, result.salt].map(String),
+    });
+  });
+
+  it('reads deployed accounts from factory storage', async () => {
+    const provider = createProvider();
+    const factory = new StealthFactoryClient(FACTORY, provider as any);
+
+    expect(await factory.isDeployedByFactory('0x123')).toBe(true);
+    const key =
+      num.toBigInt(ec.starkCurve.pedersen(hash.starknetKeccak('deployed_accounts'), 0x123n)) %
+      (2n ** 251n - 256n);
+    expect(provider.getStorageAt.mock.calls[0].slice(0, 2)).toEqual([FACTORY, key]);
+  });
+
+  it('lets the scanner read the class hash from the factory', async () => {
+    const payment = generateStealthAddress(meta, FACTORY, CLASS_HASH);
+    const source = new MemoryAnnouncementSource([
+      {
+        schemeId: 1,
+        ephemeralPubkeyX: payment.ephemeralPubkey.x,
+        ephemeralPubkeyY: payment.ephemeralPubkey.y,
+        viewTag: payment.viewTag,
+        stealthAddress: payment.stealthAddress,
+        metadata: 0n,
+      },
+    ]);
+    const scanner: any = new StealthScanner(
+      {
+        registryAddress: '0x1',
+        factoryAddress: FACTORY,
+        rpcUrl: 'http://localhost:9545',
+        chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+      },
+      { source }
+    );
+    scanner.provider = createProvider();
+    await scanner.initialize();
+
+    const results = await scanner.scan(meta.spendingKey, 2n, 1n);
+    expect(results).toHaveLength(1);
+  });
+});
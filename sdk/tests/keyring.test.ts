@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ec, num } from 'starknet';
+import { StealthKeyring, StealthKeyringSigner } from '../src/keyring.js';
+import { StealthScanner } from '../src/scanner.js';
+import { getScheme } from '../src/schemes.js';
+import { MemoryCheckpointStore } from '../src/checkpoints.js';
+import { createMetaAddress, generateStealthAddress, getPublicKey } from '../src/stealth.js';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941',
+};
+const CLASS_HASH = '0x1234';
+
+function announcementEvent(result: ReturnType<typeof generateStealthAddress>) {
+  return {
+    keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', `0x${result.viewTag.toString(16)}`],
+    data: [
+      `0x${result.ephemeralPubkey.x.toString(16)}`,
+      `0x${result.ephemeralPubkey.y.toString(16)}`,
+      result.stealthAddress,
+      '0x0',
+      '0x0',
+    ],
+  };
+}
+
+describe('SDK stealth keyring', () => {
+  const keys = { spendingKey: 1n, viewingKey: 2n };
+
+  it('claims payments and keeps derived keys behind handles', () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    expect(keyring.metaAddress).toEqual(createMetaAddress(1n, 2n));
+
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+    expect(keyring.checkViewTag(payment.ephemeralPubkey, payment.viewTag)).toBe(true);
+
+    const handle = keyring.claim(
+      payment.ephemeralPubkey,
+      payment.stealthAddress,
+      config.factoryAddress,
+      CLASS_HASH
+    );
+    expect(handle).not.toBeNull();
+    expect(handle!.stealthPubkey).toEqual(payment.stealthPubkey);
+    expect(Object.keys(handle!)).not.toContain('privateKey');
+    expect(getPublicKey(keyring.exportStealthKey(handle!))).toEqual(payment.stealthPubkey);
+  });
+
+  it('matches announcements in a single pass', () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+    const announcement = {
+      schemeId: 1,
+      ephemeralPubkeyX: payment.ephemeralPubkey.x,
+      ephemeralPubkeyY: payment.ephemeralPubkey.y,
+      stealthAddress: payment.stealthAddress,
+      viewTag: payment.viewTag,
+      metadata: 0n,
+    };
+    const scheme = getScheme(1);
+    const ecdh = vi.spyOn(scheme, 'computeSharedSecret');
+    const normalize = vi.spyOn(scheme, 'normalizePrivateKey');
+
+    const { viewTagMatches, keyHandle } = keyring.match(
+      announcement,
+      config.factoryAddress,
+      CLASS_HASH
+    );
+    expect(viewTagMatches).toBe(true);
+    expect(keyHandle!.stealthPubkey).toEqual(payment.stealthPubkey);
+    // No second ECDH and no key normalization, unlike checkViewTag() + claim()
+    expect(ecdh).not.toHaveBeenCalled();
+    expect(normalize).not.toHaveBeenCalled();
+    ecdh.mockRestore();
+    normalize.mockRestore();
+
+    // Same key as claim() derives
+    const claimed = keyring.claim(
+      payment.ephemeralPubkey,
+      payment.stealthAddress,
+      config.factoryAddress,
+      CLASS_HASH
+    )!;
+    expect(keyring.exportStealthKey(keyHandle!)).toBe(keyring.exportStealthKey(claimed));
+
+    expect(
+      keyring.match({ ...announcement, viewTag: (payment.viewTag + 1) % 256 }, '0x2', CLASS_HASH)
+    ).toEqual({ viewTagMatches: false, keyHandle: null });
+    expect(
+      keyring.match({ ...announcement, stealthAddress: '0x99' }, '0x2', CLASS_HASH)
+    ).toEqual({ viewTagMatches: true, keyHandle: null });
+    expect(
+      keyring.match({ ...announcement, ephemeralPubkeyY: 5n }, '0x2', CLASS_HASH).keyHandle
+    ).toBeNull();
+
+    keyring.wipe();
+    expect(() => keyring.match(announcement, '0x2', CLASS_HASH)).toThrow('wiped');
+  });
+
+  it('returns null for payments to someone else', () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const other = generateStealthAddress(createMetaAddress(3n, 4n), config.factoryAddress, CLASS_HASH);
+    expect(
+      keyring.claim(other.ephemeralPubkey, other.stealthAddress, config.factoryAddress, CLASS_HASH)
+    ).toBeNull();
+  });
+
+  it('signs with the stealth key (x-only verification)', async () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+    const handle = keyring.claim(
+      payment.ephemeralPubkey,
+      payment.stealthAddress,
+      config.factoryAddress,
+      CLASS_HASH
+    )!;
+
+    const signer = new StealthKeyringSigner(keyring, handle);
+    expect(await signer.getPubKey()).toBe(num.toHex(payment.stealthPubkey.x));
+
+    const msgHash = '0x1234abcd';
+    const signature = keyring.signHash(handle, msgHash);
+    expect(ec.starkCurve.verify(signature, msgHash, ec.starkCurve.getPublicKey(
+      num.toHex(keyring.exportStealthKey(handle))
+    ))).toBe(true);
+  });
+
+  it('wipes and releases keys', () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+    const handle = keyring.claim(
+      payment.ephemeralPubkey,
+      payment.stealthAddress,
+      config.factoryAddress,
+      CLASS_HASH
+    )!;
+
+    keyring.release(handle);
+    expect(() => keyring.signHash(handle, '0x1')).toThrow('Unknown or released');
+
+    keyring.wipe();
+    expect(keyring.isWiped).toBe(true);
+    expect(() => keyring.checkViewTag(payment.ephemeralPubkey, payment.viewTag)).toThrow('wiped');
+  });
+
+  it('scans with a keyring instead of raw scalars', async () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+
+    const scanner: any = new StealthScanner(config);
+    scanner.registryContract = {};
+    scanner.accountClassHash = CLASS_HASH;
+    scanner.provider = {
+      getEvents: vi.fn().mockResolvedValue({ events: [announcementEvent(payment)] }),
+      getBlockNumber: vi.fn().mockResolvedValue(10),
+    };
+
+    const results = await scanner.scan(keyring);
+    expect(results.length).toBe(1);
+    expect(results[0].spendingKey).toBeUndefined();
+    expect(results[0].keyHandle.stealthAddress).toBe(payment.stealthAddress);
+  });
+
+  it('refuses to scan with a wiped keyring instead of finding nothing', async () => {
+    const keyring = StealthKeyring.fromKeys(keys);
+    const payment = generateStealthAddress(keyring.metaAddress, config.factoryAddress, CLASS_HASH);
+    const store = new MemoryCheckpointStore();
+
+    const scanner: any = new StealthScanner(config, { checkpointStore: store });
+    scanner.registryContract = {};
+    scanner.accountClassHash = CLASS_HASH;
+    scanner.provider = {
+      getEvents: vi.fn().mockResolvedValue({ events: [announcementEvent(payment)] }),
+      getBlockNumber: vi.fn().mockResolvedValue(10),
+      getBlockWithTxHashes: vi.fn().mockResolvedValue({ block_hash: '0x10' }),
+    };
+
+    keyring.wipe();
+    await expect(scanner.scan(keyring)).rejects.toThrow('Keyring has been wiped');
+    expect(() => scanner.watch(keyring)).toThrow('Keyring has been wiped');
+    // The checkpoint does not move past the unscanned blocks
+    expect(await store.load(scanner.getCheckpointKey(keyring))).toBeNull();
+  });
+});
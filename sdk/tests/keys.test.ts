@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { Account, RpcProvider, typedData } from 'starknet';
+import {
+  buildKeyDerivationTypedData,
+  deriveKeysFromSignature,
+  deriveKeysFromSignatureValue,
+  deriveStealthKeys,
+  generateMnemonic,
+  getStealthKeyPath,
+  isValidMnemonic,
+} from '../src/keys.js';
+import { createMetaAddress, getPublicKey, normalizePrivateKey } from '../src/stealth.js';
+
+const SN_SEPOLIA = '0x534e5f5345504f4c4941';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('SDK mnemonic key derivation', () => {
+  it('derives the same keys from the same mnemonic', () => {
+    const a = deriveStealthKeys(MNEMONIC);
+    const b = deriveStealthKeys(MNEMONIC);
+    expect(a.spendingKey).toBe(b.spendingKey);
+    expect(a.viewingKey).toBe(b.viewingKey);
+    expect(a.index).toBe(0);
+  });
+
+  it('derives canonical and distinct spending/viewing keys', () => {
+    const keys = deriveStealthKeys(MNEMONIC);
+    expect(keys.spendingKey).not.toBe(keys.viewingKey);
+    expect(normalizePrivateKey(keys.spendingKey)).toBe(keys.spendingKey);
+    expect(normalizePrivateKey(keys.viewingKey)).toBe(keys.viewingKey);
+  });
+
+  it('separates meta-address indices and passphrases', () => {
+    const first = deriveStealthKeys(MNEMONIC, { index: 0 });
+    const second = deriveStealthKeys(MNEMONIC, { index: 1 });
+    const withPassphrase = deriveStealthKeys(MNEMONIC, { passphrase: 'hunter2' });
+    expect(second.spendingKey).not.toBe(first.spendingKey);
+    expect(withPassphrase.spendingKey).not.toBe(first.spendingKey);
+  });
+
+  it('uses an EIP-2645 path with role and index slots', () => {
+    const spending = getStealthKeyPath('spending', 3);
+    const viewing = getStealthKeyPath('viewing', 3);
+    expect(spending).toMatch(/^m\/2645'\/\d+'\/\d+'\/0'\/0'\/3$/);
+    expect(viewing).toMatch(/^m\/2645'\/\d+'\/\d+'\/1'\/0'\/3$/);
+    expect(() => getStealthKeyPath('spending', -1)).toThrow();
+  });
+
+  it('rejects invalid mnemonics', () => {
+    expect(isValidMnemonic(MNEMONIC)).toBe(true);
+    expect(isValidMnemonic('abandon abandon abandon')).toBe(false);
+    expect(() => deriveStealthKeys('not a real mnemonic phrase')).toThrow('Invalid mnemonic');
+  });
+
+  it('generates mnemonics that round-trip through derivation', () => {
+    const mnemonic = generateMnemonic(128);
+    expect(mnemonic.split(' ').length).toBe(12);
+    expect(isValidMnemonic(mnemonic)).toBe(true);
+  });
+
+  it('creates a dual-key meta-address from a derived key set', () => {
+    const keys = deriveStealthKeys(MNEMONIC);
+    const meta = createMetaAddress(keys);
+    expect(meta.schemeId).toBe(1);
+    expect(meta.spendingKey).toEqual(getPublicKey(keys.spendingKey));
+    expect(meta.viewingKey).toEqual(getPublicKey(keys.viewingKey));
+  });
+});
+
+describe('SDK signature key derivation', () => {
+  const account = new Account(
+    new RpcProvider({ nodeUrl: 'http://localhost:9545' }),
+    '0x123',
+    '0x1'
+  );
+
+  it('builds a valid, fixed SNIP-12 message', () => {
+    const data = buildKeyDerivationTypedData(SN_SEPOLIA);
+    expect(data.domain.version).toBe('1');
+    const hashA = typedData.getMessageHash(data, '0x123');
+    const hashB = typedData.getMessageHash(buildKeyDerivationTypedData(SN_SEPOLIA), '0x123');
+    expect(hashA).toBe(hashB);
+  });
+
+  it('derives the meta-address createMetaAddress produces', async () => {
+    const derived = await deriveKeysFromSignature(account, SN_SEPOLIA);
+    expect(derived.spendingKey).not.toBe(derived.viewingKey);
+    expect(derived.metaAddress).toEqual(
+      createMetaAddress(derived.spendingKey, derived.viewingKey)
+    );
+
+    const again = await deriveKeysFromSignature(account, SN_SEPOLIA);
+    expect(again.spendingKey).toBe(derived.spendingKey);
+  });
+
+  it('binds derived keys to the chain', async () => {
+    const sepolia = await deriveKeysFromSignature(account, SN_SEPOLIA);
+    const mainnet = await deriveKeysFromSignature(account, '0x534e5f4d41494e');
+    expect(mainnet.viewingKey).not.toBe(sepolia.viewingKey);
+  });
+
+  it('rejects non-deterministic signatures', async () => {
+    let counter = 1n;
+    const randomized = {
+      signMessage: async () => [counter++, 2n].map((felt) => `0x${felt.toString(16)}`),
+    };
+    await expect(deriveKeysFromSignature(randomized, SN_SEPOLIA)).rejects.toThrow(
+      'non-deterministic'
+    );
+  });
+
+  it('rejects empty signatures', () => {
+    expect(() => deriveKeysFromSignatureValue([])).toThrow('Empty signature');
+  });
+});
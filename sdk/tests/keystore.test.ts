@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  changeKeystorePassword,
+  decryptKeystore,
+  encryptKeystore,
+  encryptWatchOnlyKeystore,
+} from '../src/keystore.js';
+import { getPublicKey, normalizePrivateKey } from '../src/stealth.js';
+
+// Low scrypt cost keeps the tests fast; production uses the default
+const FAST = { scryptN: 1024 };
+
+describe('SDK encrypted keystore', () => {
+  const keys = { spendingKey: 1n, viewingKey: 2n };
+  const viewingKey = normalizePrivateKey(2n);
+
+  it('round-trips spending and viewing keys through JSON', async () => {
+    const keystore = await encryptKeystore(keys, 'correct horse', FAST);
+    expect(keystore.version).toBe(1);
+    expect(keystore.type).toBe('full');
+    expect(keystore.schemeId).toBe(1);
+    expect(JSON.stringify(keystore)).not.toContain('"0x1"');
+
+    const restored = await decryptKeystore(JSON.parse(JSON.stringify(keystore)), 'correct horse');
+    expect(restored.type).toBe('full');
+    if (restored.type === 'full') {
+      expect(restored.spendingKey).toBe(1n);
+    }
+    expect(restored.viewingKey).toBe(viewingKey);
+    expect(restored.spendingPubkey).toEqual(getPublicKey(1n));
+  });
+
+  it('rejects a wrong password', async () => {
+    const keystore = await encryptKeystore(keys, 'correct horse', FAST);
+    await expect(decryptKeystore(keystore, 'battery staple')).rejects.toThrow(
+      'Invalid password'
+    );
+  });
+
+  it('detects tampering with the public header', async () => {
+    const keystore = await encryptKeystore(keys, 'pw', FAST);
+    await expect(decryptKeystore({ ...keystore, schemeId: 0 }, 'pw')).rejects.toThrow();
+  });
+
+  it('stores only the viewing key in watch-only keystores', async () => {
+    const keystore = await encryptWatchOnlyKeystore(
+      { viewingKey: 2n, spendingPubkey: getPublicKey(1n), schemeId: 1 },
+      'pw',
+      FAST
+    );
+    const restored = await decryptKeystore(keystore, 'pw');
+    expect(restored.type).toBe('watch-only');
+    expect('spendingKey' in restored).toBe(false);
+    expect(restored.viewingKey).toBe(viewingKey);
+  });
+
+  it('refuses scrypt costs above the limits', async () => {
+    await expect(encryptKeystore(keys, 'pw', { scryptN: 2 ** 21 })).rejects.toThrow(
+      'scrypt N must be a power of two'
+    );
+    await expect(encryptKeystore(keys, 'pw', { scryptN: 1000 })).rejects.toThrow(
+      'scrypt N must be a power of two'
+    );
+
+    // A crafted keystore fails fast instead of running scrypt
+    const keystore = await encryptKeystore(keys, 'pw', FAST);
+    const withParams = (params: object) => ({
+      ...keystore,
+      crypto: { ...keystore.crypto, kdfparams: { ...keystore.crypto.kdfparams, ...params } },
+    });
+    await expect(decryptKeystore(withParams({ n: 2 ** 30 }), 'pw')).rejects.toThrow('scrypt N');
+    await expect(decryptKeystore(withParams({ r: 8, p: 2 ** 20 }), 'pw')).rejects.toThrow(
+      'r * p at most 16'
+    );
+    await expect(decryptKeystore(withParams({ r: 0 }), 'pw')).rejects.toThrow('r * p');
+    await expect(decryptKeystore(withParams({ n: 2 ** 20, r: 16 }), 'pw')).rejects.toThrow(
+      'more than 1 GiB'
+    );
+  });
+
+  it('refuses watch-only keystores that could spend', async () => {
+    const spendingPubkey = getPublicKey(1n);
+    // Single-key scheme: the viewing key is the spending key
+    await expect(
+      encryptWatchOnlyKeystore({ viewingKey: 1n, spendingPubkey, schemeId: 0 }, 'pw', FAST)
+    ).rejects.toThrow('dual-key scheme');
+    await expect(
+      encryptWatchOnlyKeystore({ viewingKey: 2n, spendingPubkey, schemeId: 77 }, 'pw', FAST)
+    ).rejects.toThrow('Unsupported scheme_id: 77');
+    await expect(
+      encryptWatchOnlyKeystore({ viewingKey: 1n, spendingPubkey, schemeId: 1 }, 'pw', FAST)
+    ).rejects.toThrow('Viewing key is the spending key');
+  });
+
+  it('rejects unknown keystore types', async () => {
+    const keystore = await encryptKeystore(keys, 'pw', FAST);
+    await expect(
+      decryptKeystore({ ...keystore, type: 'spend-only' as any }, 'pw')
+    ).rejects.toThrow('Unsupported keystore type: spend-only');
+  });
+
+  it('changes the password and keeps the keystore ID', async () => {
+    const keystore = await encryptKeystore(keys, 'old', FAST);
+    const changed = await changeKeystorePassword(keystore, 'old', 'new');
+    expect(changed.id).toBe(keystore.id);
+    expect(changed.crypto.kdfparams.n).toBe(1024);
+    expect(changed.crypto.kdfparams.salt).not.toBe(keystore.crypto.kdfparams.salt);
+
+    await expect(decryptKeystore(changed, 'old')).rejects.toThrow();
+    expect((await decryptKeystore(changed, 'new')).viewingKey).toBe(viewingKey);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { AnnouncementMatcher } from '../src/matcher.js';
+import { getScheme } from '../src/schemes.js';
+import { SECP256K1_SCHEME, createSecp256k1MetaAddress } from '../src/secp256k1.js';
+import {
+  createMetaAddress,
+  deriveStealthPrivateKey,
+  generateStealthAddress,
+  getPublicKey,
+  verifyStealthAddress,
+} from '../src/stealth.js';
+import type { Announcement, StealthMetaAddress } from '../src/types.js';
+
+const FACTORY = '0x2';
+const CLASS_HASH = '0x1234';
+
+function announce(meta: StealthMetaAddress, index = 0): Announcement {
+  const scheme = getScheme(meta.schemeId);
+  const payment = generateStealthAddress(meta, FACTORY, CLASS_HASH);
+  const encoded = scheme.encodeAnnouncementKey(payment.ephemeralPubkey);
+  return {
+    schemeId: meta.schemeId,
+    ephemeralPubkeyX: encoded.x,
+    ephemeralPubkeyY: encoded.y,
+    viewTag: payment.viewTag,
+    stealthAddress: payment.stealthAddress,
+    metadata: 0n,
+    index,
+  };
+}
+
+describe('SDK single-pass matcher', () => {
+  it('derives the same keys as the multi-step path', () => {
+    // Several payments, so both y parities of K + h*G come up
+    for (let i = 0; i < 8; i++) {
+      const spendingKey = 0xabcdefn * BigInt(i + 1);
+      const viewingKey = 0x123457n * BigInt(i + 3);
+      const meta = createMetaAddress(spendingKey, viewingKey);
+      const announcement = announce(meta);
+      const matcher = new AnnouncementMatcher(
+        {
+          spendingPubkey: meta.spendingKey,
+          viewingPrivKey: viewingKey,
+          spendingPrivKey: spendingKey,
+        },
+        FACTORY,
+        CLASS_HASH
+      );
+
+      const { viewTagMatches, match } = matcher.check(announcement);
+      expect(viewTagMatches).toBe(true);
+      const sharedSecret = verifyStealthAddress(
+        meta.spendingKey,
+        viewingKey,
+        { x: announcement.ephemeralPubkeyX, y: announcement.ephemeralPubkeyY },
+        announcement.stealthAddress,
+        FACTORY,
+        CLASS_HASH,
+        getScheme(1)
+      )!;
+      expect(match!.stealthPrivKey).toBe(deriveStealthPrivateKey(spendingKey, sharedSecret));
+      expect(getPublicKey(match!.stealthPrivKey!)).toEqual(match!.stealthPubkey);
+    }
+  });
+
+  it('matches secp256k1 announcements', () => {
+    const meta = createSecp256k1MetaAddress(21n, 22n);
+    const matcher = new AnnouncementMatcher(
+      { spendingPubkey: meta.spendingKey, viewingPrivKey: 22n, spendingPrivKey: 21n },
+      FACTORY,
+      CLASS_HASH
+    );
+    const { match } = matcher.check(announce(meta));
+    expect(SECP256K1_SCHEME.getPublicKey(match!.stealthPrivKey!)).toEqual(match!.stealthPubkey);
+  });
+
+  it('reports view tag collisions and malformed announcements as non-matches', () => {
+    const meta = createMetaAddress(5n, 6n);
+    const matcher = new AnnouncementMatcher(
+      { spendingPubkey: meta.spendingKey, viewingPrivKey: 6n },
+      FACTORY,
+      CLASS_HASH
+    );
+    const announcement = announce(meta);
+
+    expect(matcher.check({ ...announcement, stealthAddress: '0x99' })).toEqual({
+      viewTagMatches: true,
+      match: null,
+    });
+    expect(matcher.check({ ...announcement, viewTag: (announcement.viewTag + 1) % 256 })).toEqual({
+      viewTagMatches: false,
+      match: null,
+    });
+    expect(matcher.check({ ...announcement, ephemeralPubkeyY: 1n }).match).toBeNull();
+    expect(matcher.check({ ...announcement, schemeId: 77 }).match).toBeNull();
+
+    // View-only: no stealth private key
+    const { match } = matcher.check(announcement);
+    expect(match!.stealthPrivKey).toBeUndefined();
+    expect(typeof match!.sharedSecretHash).toBe('bigint');
+  });
+});
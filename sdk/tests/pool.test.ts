@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import ts from 'typescript';
+import { ScanWorkerPool, runScanTask } from '../src/pool.js';
+import type { ScanWorkerLike, ScanWorkerRequest, ScanWorkerResponse } from '../src/pool.js';
+import { StealthKeyring } from '../src/keyring.js';
+import { BatchScanner, StealthScanner } from '../src/scanner.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { Announcement, AnnouncementSource, StealthMetaAddress } from '../src/types.js';
+
+// A four-core machine, as the pool's dynamic import of node:os sees it
+vi.mock('node:os', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:os')>()),
+  availableParallelism: () => 4,
+}));
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const alice = createMetaAddress(1n, 2n);
+const bob = createMetaAddress(3n, 4n);
+const aliceKeys = { spendingPubkey: alice.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+const bobKeys = { spendingPubkey: bob.spendingKey, viewingPrivKey: 4n, spendingPrivKey: 3n };
+
+function payment(meta: StealthMetaAddress, index: number): Announcement {
+  const result = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  return {
+    schemeId: 1,
+    ephemeralPubkeyX: result.ephemeralPubkey.x,
+    ephemeralPubkeyY: result.ephemeralPubkey.y,
+    viewTag: result.viewTag,
+    stealthAddress: result.stealthAddress,
+    metadata: 0n,
+    index,
+    blockNumber: index + 1,
+  };
+}
+
+const announcements = [alice, bob, bob, alice, bob, alice, alice].map(payment);
+
+/**
+ * Runs tasks in-process, replying after a delay that shrinks with each
+ * task, so later chunks finish first
+ */
+function createWorkers(options: { crashOn?: number } = {}) {
+  const requests: ScanWorkerRequest[] = [];
+  let started = 0;
+  const createWorker = (): ScanWorkerLike => {
+    started++;
+    let onResponse: (response: ScanWorkerResponse) => void = () => {};
+    let onError: (error: unknown) => void = () => {};
+    return {
+      postMessage(request) {
+        // What a real worker receives: a structured clone
+        const copy = structuredClone(request);
+        requests.push(copy);
+        setTimeout(() => {
+          if (copy.id === options.crashOn) {
+            onError(new Error('worker crashed'));
+          } else {
+            onResponse(runScanTask(copy));
+          }
+        }, Math.max(0, 20 - 3 * requests.length));
+      },
+      onResponse: (handler) => (onResponse = handler),
+      onError: (handler) => (onError = handler),
+      terminate() {},
+    };
+  };
+  return { createWorker, requests, started: () => started };
+}
+
+function createScanner(source: AnnouncementSource, workerPool?: ScanWorkerPool) {
+  const scanner: any = new StealthScanner(config, { source, workerPool });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  return scanner as StealthScanner;
+}
+
+function createBatchScanner(source: AnnouncementSource, workerPool?: ScanWorkerPool) {
+  const batch: any = new BatchScanner(config, { workerPool });
+  batch.scanner = createScanner(source, workerPool);
+  return batch as BatchScanner;
+}
+
+describe('SDK scan worker pool', () => {
+  it('gives the same results and stats as a single-threaded scan', async () => {
+    const workers = createWorkers();
+    const pool = new ScanWorkerPool({ size: 3, chunkSize: 2, createWorker: workers.createWorker });
+    const source = new MemoryAnnouncementSource(announcements);
+
+    const sequential = createScanner(source);
+    const expected = await sequential.scan(aliceKeys, { pageSize: 5 });
+    const parallel = createScanner(source, pool);
+    const results = await parallel.scan(aliceKeys, { pageSize: 5 });
+    await pool.terminate();
+
+    expect(results.map((result) => result.announcement!.index)).toEqual([0, 3, 5, 6]);
+    expect(results).toEqual(expected);
+    expect({ ...parallel.stats, scanTimeMs: 0 }).toEqual({ ...sequential.stats, scanTimeMs: 0 });
+
+    // Pages of 5 in chunks of 2: 3 + 1 tasks, on no more than 3 workers
+    expect(workers.requests).toHaveLength(4);
+    expect(workers.started()).toBe(3);
+    // Spending keys stay on the calling thread
+    for (const request of workers.requests) {
+      expect(request.recipients[0]).toEqual({
+        spendingPubkey: alice.spendingKey,
+        viewingPrivKey: 2n,
+      });
+    }
+  });
+
+  it('batch scans raw keys in workers and keyrings on the calling thread', async () => {
+    const workers = createWorkers();
+    const pool = new ScanWorkerPool({ size: 2, chunkSize: 3, createWorker: workers.createWorker });
+    const source = new MemoryAnnouncementSource(announcements);
+    const keyring = StealthKeyring.fromKeys({ spendingKey: 3n, viewingKey: 4n });
+
+    const matches: [number, number][] = [];
+    const batch = createBatchScanner(source, pool);
+    for await (const match of batch.scanBatchIter([aliceKeys, keyring, bobKeys])) {
+      matches.push([match.recipient, match.result.announcement!.index!]);
+    }
+    await pool.terminate();
+
+    const sequential = createBatchScanner(source);
+    const expected: [number, number][] = [];
+    for await (const match of sequential.scanBatchIter([aliceKeys, keyring, bobKeys])) {
+      expected.push([match.recipient, match.result.announcement!.index!]);
+    }
+    expect(matches).toEqual(expected);
+    expect(matches.filter(([recipient]) => recipient === 1)).toEqual([
+      [1, 1],
+      [1, 2],
+      [1, 4],
+    ]);
+    expect(workers.requests.every((request) => request.recipients.length === 2)).toBe(true);
+  });
+
+  it('fails the scan when a worker crashes and replaces the worker', async () => {
+    const workers = createWorkers({ crashOn: 2 });
+    const pool = new ScanWorkerPool({ size: 1, chunkSize: 2, createWorker: workers.createWorker });
+    const scanner = createScanner(new MemoryAnnouncementSource(announcements), pool);
+
+    await expect(scanner.scan(aliceKeys)).rejects.toThrow('worker crashed');
+    const results = await scanner.scan(aliceKeys);
+    expect(results).toHaveLength(4);
+    expect(workers.started()).toBe(2);
+
+    await pool.terminate();
+    await expect(scanner.scan(aliceKeys)).rejects.toThrow('Worker pool terminated');
+  });
+
+  it('starts one worker per core less one by default', async () => {
+    // Node before 21 has no navigator
+    vi.stubGlobal('navigator', undefined);
+    try {
+      const nodeWorkers = createWorkers();
+      const nodePool = new ScanWorkerPool({ chunkSize: 1, createWorker: nodeWorkers.createWorker });
+      await nodePool.check(announcements, [aliceKeys], config.factoryAddress, CLASS_HASH);
+      await nodePool.terminate();
+      expect(nodeWorkers.started()).toBe(3);
+
+      vi.stubGlobal('navigator', { hardwareConcurrency: 2 });
+      const webWorkers = createWorkers();
+      const webPool = new ScanWorkerPool({ chunkSize: 1, createWorker: webWorkers.createWorker });
+      await webPool.check(announcements, [aliceKeys], config.factoryAddress, CLASS_HASH);
+      await webPool.terminate();
+      expect(webWorkers.started()).toBe(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('runs the default worker script on worker_threads', async () => {
+    // The default factory loads the compiled scan-worker.js next to pool.js. Emit src as
+    // dist would, under node_modules so the built modules resolve their dependencies.
+    await mkdir('node_modules/.cache', { recursive: true });
+    const dir = await mkdtemp(join(process.cwd(), 'node_modules/.cache/scan-worker-'));
+    try {
+      for (const file of await readdir('src')) {
+        const { outputText } = ts.transpileModule(await readFile(join('src', file), 'utf8'), {
+          compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+        });
+        await writeFile(join(dir, file.replace(/\.ts$/, '.js')), outputText);
+      }
+      const built = await import(join(dir, 'pool.js'));
+      const pool: ScanWorkerPool = new built.ScanWorkerPool({ size: 2, chunkSize: 2 });
+      const recipient = { spendingPubkey: alice.spendingKey, viewingPrivKey: 2n };
+
+      try {
+        const { factoryAddress } = config;
+        const result = await pool.check(announcements, [recipient], factoryAddress, CLASS_HASH);
+        expect(result.matches.map((match) => match.announcement)).toEqual([0, 3, 5, 6]);
+        expect(result.viewTagMatches).toBeGreaterThanOrEqual(4);
+      } finally {
+        await pool.terminate();
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('validates its options', () => {
+    expect(() => new ScanWorkerPool({ size: 0 })).toThrow('positive integer');
+    expect(() => new ScanWorkerPool({ chunkSize: 1.5 })).toThrow('positive integer');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StealthRegistryClient } from '../src/registry.js';
+import { StealthScanner } from '../src/scanner.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import { createSecp256k1MetaAddress } from '../src/secp256k1.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+
+const REGISTRY = '0x1';
+const meta = createMetaAddress(1n, 2n);
+
+const felts = (...values: bigint[]) => values.map((value) => value.toString());
+
+function createProvider(results: Record<string, string[]>) {
+  return {
+    callContract: vi.fn(async (call: { entrypoint: string }) => results[call.entrypoint]),
+  };
+}
+
+describe('SDK registry client', () => {
+  it('builds calldata in ABI order', () => {
+    const registry = new StealthRegistryClient(REGISTRY, createProvider({}) as any);
+
+    expect(registry.buildRegisterCall(meta)).toEqual({
+      contractAddress: REGISTRY,
+      entrypoint: 'register_stealth_meta_address',
+      calldata: felts(
+        meta.spendingKey.x,
+        meta.spendingKey.y,
+        meta.viewingKey.x,
+        meta.viewingKey.y,
+        1n
+      ),
+    });
+    expect(registry.buildUpdateCall(meta).entrypoint).toBe('update_stealth_meta_address');
+
+    const payment = generateStealthAddress(meta, '0x2', '0x1234');
+    const announce = registry.buildAnnounceCall({
+      schemeId: 1,
+      ephemeralPubkeyX: payment.ephemeralPubkey.x,
+      ephemeralPubkeyY: payment.ephemeralPubkey.y,
+      stealthAddress: payment.stealthAddress,
+      viewTag: payment.viewTag,
+    });
+    expect(announce.calldata).toEqual([
+      '1',
+      ...felts(
+        payment.ephemeralPubkey.x,
+        payment.ephemeralPubkey.y,
+        BigInt(payment.stealthAddress)
+      ),
+      String(payment.viewTag),
+      '0',
+    ]);
+  });
+
+  it('rejects meta-addresses the registry cannot store', () => {
+    const registry = new StealthRegistryClient(REGISTRY, createProvider({}) as any);
+    expect(() => registry.buildRegisterCall(createSecp256k1MetaAddress(1n, 2n))).toThrow(
+      'does not store scheme_id 2'
+    );
+    expect(() => registry.buildRegisterCall({ ...meta, schemeId: 0 })).toThrow();
+  });
+
+  it('decodes reads into SDK types', async () => {
+    const provider = createProvider({
+      get_stealth_meta_address: felts(
+        1n,
+        meta.spendingKey.x,
+        meta.spendingKey.y,
+        meta.viewingKey.x,
+        meta.viewingKey.y
+      ),
+      has_meta_address: ['0x1'],
+      get_announcement_count: ['0x2a'],
+    });
+    const registry = new StealthRegistryClient(REGISTRY, provider as any);
+
+    expect(await registry.getStealthMetaAddress('0x123')).toEqual(meta);
+    expect(await registry.hasMetaAddress('0x123')).toBe(true);
+    expect(await registry.getAnnouncementCount()).toBe(42);
+    expect(provider.callContract.mock.calls[0][0]).toMatchObject({
+      contractAddress: REGISTRY,
+      calldata: ['291'],
+    });
+
+    const empty = new StealthRegistryClient(
+      REGISTRY,
+      createProvider({ get_stealth_meta_address: ['0', '0', '0', '0', '0'] }) as any
+    );
+    expect(await empty.getStealthMetaAddress('0x123')).toBeNull();
+  });
+
+  it('sends writes through the account', async () => {
+    const readOnly = new StealthRegistryClient(REGISTRY, createProvider({}) as any);
+    expect(() => readOnly.registerMetaAddress(meta)).toThrow('need an Account');
+
+    const account = { execute: vi.fn().mockResolvedValue({ transaction_hash: '0xabc' }) };
+    const registry = new StealthRegistryClient(REGISTRY, account as any);
+    expect(await registry.registerMetaAddress(meta)).toEqual({ transaction_hash: '0xabc' });
+    expect(account.execute).toHaveBeenCalledWith(registry.buildRegisterCall(meta));
+  });
+
+  it('initializes the scanner with the bundled ABI', async () => {
+    const payment = generateStealthAddress(meta, '0x2', '0x1234');
+    const source = new MemoryAnnouncementSource([
+      {
+        schemeId: 1,
+        ephemeralPubkeyX: payment.ephemeralPubkey.x,
+        ephemeralPubkeyY: payment.ephemeralPubkey.y,
+        viewTag: payment.viewTag,
+        stealthAddress: payment.stealthAddress,
+        metadata: 0n,
+      },
+    ]);
+    const scanner = new StealthScanner(
+      {
+        registryAddress: REGISTRY,
+        factoryAddress: '0x2',
+        rpcUrl: 'http://localhost:9545',
+        chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+      },
+      { source }
+    );
+    await scanner.initialize('0x1234');
+    const results = await scanner.scan(meta.spendingKey, 2n, 1n);
+    expect(results.map((result) => result.stealthAddress)).toEqual([payment.stealthAddress]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { num } from 'starknet';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import {
+  encodePaymentRequest,
+  generateStealthPayment,
+  isPaymentRequestExpired,
+  parsePaymentRequest,
+} from '../src/request.js';
+import type { StealthPaymentRequest } from '../src/types.js';
+
+const SN_SEPOLIA = '0x534e5f5345504f4c4941';
+const SN_MAIN = '0x534e5f4d41494e';
+const STRK = '0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d';
+const FACTORY = '0x2';
+const CLASS_HASH = '0x1234';
+
+const request: StealthPaymentRequest = {
+  metaAddress: createMetaAddress(1n, 2n),
+  chainId: SN_SEPOLIA,
+  token: STRK,
+  amount: 1_500_000_000_000_000_000n,
+  memo: 'Invoice #42: coffee & cake',
+  expiresAt: 1_900_000_000,
+};
+
+describe('SDK payment request URI', () => {
+  it('round-trips every field', () => {
+    const uri = encodePaymentRequest(request);
+    expect(uri).toMatch(/^st:starknet:SN_SEPOLIA:[0-9a-f]+\?t=0x[0-9a-f]+&a=\d+&m=.+&e=\d+&c=[0-9a-f]{8}$/);
+    expect(parsePaymentRequest(uri, SN_SEPOLIA)).toEqual(request);
+  });
+
+  it('omits optional fields', () => {
+    const minimal = { ...request, memo: undefined, expiresAt: undefined };
+    const uri = encodePaymentRequest(minimal);
+    expect(uri).not.toContain('&m=');
+    const parsed = parsePaymentRequest(uri);
+    expect(parsed.memo).toBeUndefined();
+    expect(parsed.expiresAt).toBeUndefined();
+    expect(parsed.amount).toBe(request.amount);
+  });
+
+  it('rejects tampered requests and the wrong chain', () => {
+    const uri = encodePaymentRequest(request);
+    expect(() => parsePaymentRequest(uri.replace('&a=1', '&a=9'))).toThrow('checksum');
+    expect(() => parsePaymentRequest(uri, SN_MAIN)).toThrow('different chain');
+    expect(() => parsePaymentRequest(uri.split('?')[0])).toThrow('Malformed');
+  });
+
+  it('rejects invalid fields', () => {
+    expect(() => encodePaymentRequest({ ...request, amount: 0n })).toThrow('amount');
+    expect(() => encodePaymentRequest({ ...request, token: '0x0' })).toThrow('token');
+    expect(() => encodePaymentRequest({ ...request, memo: 'x'.repeat(129) })).toThrow('Memo');
+  });
+});
+
+describe('SDK payment request to payment', () => {
+  it('builds the transfer and announcement calls', () => {
+    const payment = generateStealthPayment(request, FACTORY, CLASS_HASH, {
+      ephemeralPrivateKey: 7n,
+      registryAddress: '0x1',
+      now: 1_800_000_000,
+    });
+    const expected = generateStealthAddress(request.metaAddress, FACTORY, CLASS_HASH, {
+      ephemeralPrivateKey: 7n,
+    });
+    expect(payment.stealthAddress).toBe(expected.stealthAddress);
+
+    const [transfer, announce] = payment.calls;
+    expect(transfer.contractAddress).toBe(STRK);
+    expect(transfer.entrypoint).toBe('transfer');
+    expect((transfer.calldata as string[]).map(BigInt)).toEqual([
+      BigInt(expected.stealthAddress),
+      request.amount,
+      0n,
+    ]);
+
+    expect(announce.entrypoint).toBe('announce');
+    expect((announce.calldata as string[]).map(BigInt)).toEqual([
+      1n,
+      expected.ephemeralPubkey.x,
+      expected.ephemeralPubkey.y,
+      BigInt(expected.stealthAddress),
+      BigInt(expected.viewTag),
+      0n,
+    ]);
+  });
+
+  it('refuses expired requests', () => {
+    expect(isPaymentRequestExpired(request, 1_900_000_000)).toBe(true);
+    expect(() =>
+      generateStealthPayment(request, FACTORY, CLASS_HASH, { now: 1_900_000_001 })
+    ).toThrow('expired');
+    const payment = generateStealthPayment(request, FACTORY, CLASS_HASH, { now: 1 });
+    expect(payment.calls.length).toBe(1);
+    expect(num.toHex(payment.request.token)).toBe(STRK);
+  });
+});
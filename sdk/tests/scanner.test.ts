@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { BatchScanner, StealthScanner } from '../src/scanner.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { Announcement, AnnouncementSource } from '../src/types.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const alice = createMetaAddress(1n, 2n);
+const bob = createMetaAddress(3n, 4n);
+const aliceKeys = { spendingPubkey: alice.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+const bobKeys = { spendingPubkey: bob.spendingKey, viewingPrivKey: 4n, spendingPrivKey: 3n };
+
+function payment(meta: typeof alice, blockNumber: number, index: number): Announcement {
+  const result = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  return {
+    schemeId: 1,
+    ephemeralPubkeyX: result.ephemeralPubkey.x,
+    ephemeralPubkeyY: result.ephemeralPubkey.y,
+    viewTag: result.viewTag,
+    stealthAddress: result.stealthAddress,
+    metadata: 0n,
+    index,
+    blockNumber,
+  };
+}
+
+function createScanner(source: AnnouncementSource) {
+  const scanner: any = new StealthScanner(config, { source });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  return scanner as StealthScanner;
+}
+
+function createBatchScanner(source: AnnouncementSource) {
+  const batch: any = new BatchScanner(config);
+  batch.scanner = createScanner(source);
+  return batch as BatchScanner;
+}
+
+const announcements = [
+  payment(alice, 1, 0),
+  payment(bob, 2, 1),
+  payment(alice, 3, 2),
+  payment(bob, 4, 3),
+];
+
+describe('SDK streaming scan', () => {
+  it('yields matches before fetching the next page', async () => {
+    const log: string[] = [];
+    const source: AnnouncementSource = {
+      fetchAnnouncements: async () => announcements,
+      getBlockNumber: async () => 4,
+      async *fetchAnnouncementPages(_fromBlock, _toBlock, options) {
+        expect(options?.pageSize).toBe(2);
+        log.push('page 1');
+        yield announcements.slice(0, 2);
+        log.push('page 2');
+        yield announcements.slice(2);
+      },
+    };
+
+    for await (const result of createScanner(source).scanIter(aliceKeys, { pageSize: 2 })) {
+      log.push(`match ${result.announcement!.index}`);
+    }
+    expect(log).toEqual(['page 1', 'match 0', 'page 2', 'match 2']);
+  });
+
+  it('reports progress per page', async () => {
+    const source = new MemoryAnnouncementSource(announcements);
+    const progress: unknown[] = [];
+    const results = await createScanner(source).scan(aliceKeys, {
+      fromBlock: 2,
+      pageSize: 2,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(results.map((result) => result.announcement!.index)).toEqual([2]);
+    expect(progress).toEqual([
+      { pages: 1, announcements: 2, matches: 1, blockNumber: 3 },
+      { pages: 2, announcements: 3, matches: 1, blockNumber: 4 },
+    ]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const source = new MemoryAnnouncementSource(announcements);
+    const controller = new AbortController();
+    const scanner = createScanner(source);
+    const seen: number[] = [];
+
+    const run = async () => {
+      for await (const result of scanner.scanIter(aliceKeys, {
+        pageSize: 1,
+        signal: controller.signal,
+      })) {
+        seen.push(result.announcement!.index!);
+        controller.abort(new Error('user cancelled'));
+      }
+    };
+    await expect(run()).rejects.toThrow('user cancelled');
+    expect(seen).toEqual([0]);
+  });
+
+  it('rejects page sizes that are not positive integers', async () => {
+    const source = new MemoryAnnouncementSource(announcements);
+    for (const pageSize of [0, -1, 1.5]) {
+      await expect(createScanner(source).scan(aliceKeys, { pageSize })).rejects.toThrow(
+        'pageSize must be a positive integer'
+      );
+    }
+  });
+
+  it('keeps the positional scan() signature', async () => {
+    const scanner = createScanner(new MemoryAnnouncementSource(announcements));
+    const results = await scanner.scan(alice.spendingKey, 2n, 1n, 2, 3);
+    expect(results.map((result) => result.announcement!.index)).toEqual([2]);
+  });
+});
+
+describe('SDK streaming batch scan', () => {
+  it('streams matches for every recipient', async () => {
+    const batch = createBatchScanner(new MemoryAnnouncementSource(announcements));
+    const matches: [number, number][] = [];
+    for await (const match of batch.scanBatchIter([aliceKeys, bobKeys], { pageSize: 1 })) {
+      matches.push([match.recipient, match.result.announcement!.index!]);
+    }
+    expect(matches).toEqual([
+      [0, 0],
+      [1, 1],
+      [0, 2],
+      [1, 3],
+    ]);
+
+    const byRecipient = await batch.scanBatch([aliceKeys, bobKeys], { fromBlock: 3 });
+    expect(byRecipient.get(0)!.map((result) => result.announcement!.index)).toEqual([2]);
+    expect(byRecipient.get(1)!.map((result) => result.announcement!.index)).toEqual([3]);
+  });
+});
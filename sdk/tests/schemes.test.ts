@@ -0,0 +1,135 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { poseidonHashMany } from '@scure/starknet';
+import {
+  STARK_DUAL_KEY_SCHEME,
+  STARK_SINGLE_KEY_SCHEME,
+  getScheme,
+  hasScheme,
+  listSchemes,
+  registerScheme,
+  unregisterScheme,
+} from '../src/schemes.js';
+import type { StealthScheme } from '../src/schemes.js';
+import {
+  createMetaAddress,
+  decodeMetaAddress,
+  generateStealthAddress,
+  getPublicKey,
+} from '../src/stealth.js';
+import { StealthScanner } from '../src/scanner.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+
+const CLASS_HASH = '0x1234';
+const CUSTOM_ID = 200;
+
+// STARK dual-key math with a different salt derivation
+const customScheme: StealthScheme = {
+  ...STARK_DUAL_KEY_SCHEME,
+  id: CUSTOM_ID,
+  name: 'test-custom-salt',
+  computeSalt: (ephemeralPubkey) => poseidonHashMany([ephemeralPubkey.x, BigInt(CUSTOM_ID)]),
+};
+
+afterEach(() => {
+  unregisterScheme(CUSTOM_ID);
+});
+
+describe('SDK scheme registry', () => {
+  it('registers the built-in schemes by default', () => {
+    expect(listSchemes()).toEqual([0, 1, 2]);
+    expect(getScheme(0)).toBe(STARK_SINGLE_KEY_SCHEME);
+    expect(getScheme(1)).toBe(STARK_DUAL_KEY_SCHEME);
+    expect(hasScheme(3)).toBe(false);
+  });
+
+  it('rejects unsupported scheme ids', () => {
+    const meta = { ...createMetaAddress(1n, 2n), schemeId: 3 };
+    expect(() => getScheme(3)).toThrow('Unsupported scheme_id: 3');
+    expect(() => generateStealthAddress(meta, config.factoryAddress, CLASS_HASH)).toThrow(
+      'Unsupported scheme_id'
+    );
+    expect(() => decodeMetaAddress('0x1', undefined, '0x1', undefined, 3)).toThrow(
+      'Unsupported scheme_id'
+    );
+  });
+
+  it('rejects duplicate and out-of-range registrations', () => {
+    expect(() => registerScheme(STARK_DUAL_KEY_SCHEME)).toThrow('already registered');
+    expect(() => registerScheme({ ...customScheme, id: 256 })).toThrow('8-bit');
+    expect(() => registerScheme(STARK_DUAL_KEY_SCHEME, { replace: true })).not.toThrow();
+  });
+
+  it('enforces the single-key invariant for scheme 0', () => {
+    const meta = { ...createMetaAddress(1n, 2n), schemeId: 0 };
+    expect(() => generateStealthAddress(meta, config.factoryAddress, CLASS_HASH)).toThrow(
+      'Viewing key must match spending key'
+    );
+  });
+
+  it('dispatches generation and decoding to a registered scheme', () => {
+    registerScheme(customScheme);
+    const meta = { ...createMetaAddress(1n, 2n), schemeId: CUSTOM_ID };
+    const viaCustom = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH, {
+      ephemeralPrivateKey: 3n,
+    });
+    const viaStark = generateStealthAddress(
+      { ...meta, schemeId: 1 },
+      config.factoryAddress,
+      CLASS_HASH,
+      { ephemeralPrivateKey: 3n }
+    );
+
+    expect(viaCustom.stealthPubkey).toEqual(viaStark.stealthPubkey);
+    expect(viaCustom.salt).toBe(poseidonHashMany([getPublicKey(3n).x, BigInt(CUSTOM_ID)]));
+    expect(viaCustom.stealthAddress).not.toBe(viaStark.stealthAddress);
+
+    const decoded = decodeMetaAddress(
+      `0x${meta.spendingKey.x.toString(16)}`,
+      undefined,
+      `0x${meta.viewingKey.x.toString(16)}`,
+      undefined,
+      CUSTOM_ID
+    );
+    expect(decoded).toEqual(meta);
+  });
+
+  it('scans announcements with the scheme they declare', async () => {
+    registerScheme(customScheme);
+    const meta = { ...createMetaAddress(1n, 2n), schemeId: CUSTOM_ID };
+    const payment = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+    const announcement = {
+      schemeId: CUSTOM_ID,
+      ephemeralPubkeyX: payment.ephemeralPubkey.x,
+      ephemeralPubkeyY: payment.ephemeralPubkey.y,
+      stealthAddress: payment.stealthAddress,
+      viewTag: payment.viewTag,
+      metadata: 0n,
+    };
+
+    const scanner: any = new StealthScanner(config);
+    scanner.accountClassHash = CLASS_HASH;
+
+    const found = await scanner.checkAnnouncement(announcement, meta.spendingKey, 2n, 1n);
+    expect(found.isOurs).toBe(true);
+
+    // The same announcement under the STARK scheme does not verify
+    const asStark = await scanner.checkAnnouncement(
+      { ...announcement, schemeId: 1 },
+      meta.spendingKey,
+      2n,
+      1n
+    );
+    expect(asStark.isOurs).toBe(false);
+
+    // Unknown schemes are skipped, not errors
+    unregisterScheme(CUSTOM_ID);
+    const unknown = await scanner.checkAnnouncement(announcement, meta.spendingKey, 2n, 1n);
+    expect(unknown.isOurs).toBe(false);
+  });
+});
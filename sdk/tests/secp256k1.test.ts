@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  SECP256K1_SCHEME,
+  SECP256K1_SCHEME_ID,
+  compressSecp256k1Point,
+  computeEthereumAddress,
+  createSecp256k1MetaAddress,
+  formatErc5564MetaAddress,
+  parseErc5564MetaAddress,
+} from '../src/secp256k1.js';
+import { generateStealthAddress } from '../src/stealth.js';
+import { StealthScanner } from '../src/scanner.js';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+
+const ETH_ACCOUNT_CLASS_HASH = '0x5678';
+
+// Generated with the ERC-5564 reference SDK (@scopelift/stealth-address-sdk 0.2.2)
+const ERC5564_VECTORS = [
+  {
+    name: 'dual key',
+    spendingKey: 0x363e5d0d5bd94b2a4d4e0bb2a8b8d97cbf8c2b4e5f2c1d0e9a8b7c6d5e4f3a21n,
+    viewingKey: 0x0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f9n,
+    ephemeralKey: 0x5c3a0f6e2d1b4a7c9e8f0d1c2b3a4958677869504132231405f6e7d8c9bab0a1n,
+    metaAddress:
+      'st:eth:0x03a125e54a5e82257d0b9309a76514aba682944a6a94369b5e749540bfa977c2c30311527e8407fa8ea5562f48df653d5aef2b87dd7a9322253a6a004812b4336cfb',
+    ephemeralPubkey: '02ee612d2aa3e6a861594d15518d0e0d83966da4b9becaf93ac30cad17424cdc77',
+    viewTag: 0xf1,
+    ethereumAddress: '0xA2f756C353abf6b3b1e47413F772e9EadA812062',
+    stealthKey: 0x27ef79cb4b72fc4f13e729a1c6dc73c72e45f4504fad6b91d0781a7fb26d9251n,
+  },
+  {
+    name: 'single key',
+    spendingKey: 0x7f2e9c4b1a08d6e5f3c2b1a09e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a291807n,
+    viewingKey: 0x7f2e9c4b1a08d6e5f3c2b1a09e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a291807n,
+    ephemeralKey: 0x2b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfen,
+    metaAddress: 'st:eth:0x02b69e0ff055c1115e6dd550fdf89fd9922e50b0c358a230b66623c434cafd5ad7',
+    ephemeralPubkey: '021b6d5a0ee72c1a077b0af91723952bdee620e585bf44ad0f0b633714bfe9b9ca',
+    viewTag: 0x52,
+    ethereumAddress: '0xB03fB31f3A8A9b1723fBEBd5162aA8C6508dA1f8',
+    stealthKey: 0xd19b00075c90e4ac8f24c8b839a858a774cf2fa5ea111dea91654a6a99c28468n,
+  },
+];
+
+describe('SDK secp256k1 scheme (ERC-5564 vectors)', () => {
+  for (const vector of ERC5564_VECTORS) {
+    it(`matches the reference implementation (${vector.name})`, () => {
+      const meta = parseErc5564MetaAddress(vector.metaAddress);
+      expect(meta).toEqual(createSecp256k1MetaAddress(vector.spendingKey, vector.viewingKey));
+
+      const result = generateStealthAddress(meta, config.factoryAddress, ETH_ACCOUNT_CLASS_HASH, {
+        ephemeralPrivateKey: vector.ephemeralKey,
+      });
+      expect(bytesToHex(compressSecp256k1Point(result.ephemeralPubkey))).toBe(
+        vector.ephemeralPubkey
+      );
+      expect(result.viewTag).toBe(vector.viewTag);
+      expect(computeEthereumAddress(result.stealthPubkey)).toBe(vector.ethereumAddress);
+
+      const stealthKey = SECP256K1_SCHEME.deriveStealthPrivateKey(
+        vector.spendingKey,
+        SECP256K1_SCHEME.computeSharedSecret(vector.viewingKey, result.ephemeralPubkey)
+      );
+      expect(stealthKey).toBe(vector.stealthKey);
+      expect(SECP256K1_SCHEME.getPublicKey(stealthKey)).toEqual(result.stealthPubkey);
+    });
+  }
+});
+
+describe('SDK secp256k1 meta-addresses', () => {
+  it('round-trips the st:eth: format', () => {
+    const meta = createSecp256k1MetaAddress(11n, 12n);
+    const uri = formatErc5564MetaAddress(meta);
+    expect(uri).toMatch(/^st:eth:0x[0-9a-f]{132}$/);
+    expect(parseErc5564MetaAddress(uri)).toEqual(meta);
+  });
+
+  it('rejects malformed meta-addresses', () => {
+    expect(() => parseErc5564MetaAddress('st:starknet:0x02')).toThrow('st:eth:');
+    expect(() => parseErc5564MetaAddress('st:eth:0x0211')).toThrow('Malformed');
+    expect(() => parseErc5564MetaAddress(`st:eth:0x04${'11'.repeat(32)}`)).toThrow(
+      'not on secp256k1 curve'
+    );
+  });
+});
+
+describe('SDK secp256k1 payments on Starknet', () => {
+  it('encodes the ephemeral key into two felts', () => {
+    const ephemeral = SECP256K1_SCHEME.getPublicKey(7n);
+    const encoded = SECP256K1_SCHEME.encodeAnnouncementKey(ephemeral);
+    expect(encoded.x < 1n << 136n).toBe(true);
+    expect(encoded.y < 1n << 128n).toBe(true);
+    expect(SECP256K1_SCHEME.decodeAnnouncementKey(encoded.x, encoded.y)).toEqual(ephemeral);
+  });
+
+  it('scans scheme 2 announcements', async () => {
+    const meta = createSecp256k1MetaAddress(21n, 22n);
+    const payment = generateStealthAddress(meta, config.factoryAddress, ETH_ACCOUNT_CLASS_HASH);
+    const encoded = SECP256K1_SCHEME.encodeAnnouncementKey(payment.ephemeralPubkey);
+
+    const scanner: any = new StealthScanner(config);
+    scanner.accountClassHash = ETH_ACCOUNT_CLASS_HASH;
+    const parsed = scanner.parseAnnouncementEvent({
+      keys: [
+        ANNOUNCEMENT_EVENT_SELECTOR,
+        `0x${SECP256K1_SCHEME_ID}`,
+        `0x${payment.viewTag.toString(16)}`,
+      ],
+      data: [
+        `0x${encoded.x.toString(16)}`,
+        `0x${encoded.y.toString(16)}`,
+        payment.stealthAddress,
+        '0x0',
+        '0x1',
+      ],
+    });
+
+    const result = await scanner.checkAnnouncement(parsed, meta.spendingKey, 22n, 21n);
+    expect(result.isOurs).toBe(true);
+    expect(SECP256K1_SCHEME.getPublicKey(result.spendingKey)).toEqual(payment.stealthPubkey);
+
+    const other = await scanner.checkAnnouncement(parsed, meta.spendingKey, 23n, 21n);
+    expect(other.isOurs).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StealthSender } from '../src/sender.js';
+import { AnnouncementMatcher } from '../src/matcher.js';
+import { createSecp256k1MetaAddress } from '../src/secp256k1.js';
+import { computeStealthContractAddress, createMetaAddress } from '../src/stealth.js';
+
+const config = { registryAddress: '0x1', factoryAddress: '0x2' };
+const CLASS_HASH = '0x1234';
+const TOKEN = '0x4718';
+const RECIPIENT = '0x123';
+
+const meta = createMetaAddress(1n, 2n);
+
+/** An account on a chain where RECIPIENT registered `meta` */
+function createAccount(factoryClassHash = CLASS_HASH) {
+  return {
+    callContract: vi.fn(async (call: { entrypoint: string; calldata: string[] }) => {
+      switch (call.entrypoint) {
+        case 'get_stealth_meta_address':
+          return BigInt(call.calldata[0]) === BigInt(RECIPIENT)
+            ? [1n, meta.spendingKey.x, meta.spendingKey.y, meta.viewingKey.x, meta.viewingKey.y]
+                .map(String)
+            : ['0', '0', '0', '0', '0'];
+        case 'get_account_class_hash':
+          return [CLASS_HASH];
+        case 'compute_stealth_address': {
+          const [x, y, salt] = call.calldata.map(BigInt);
+          return [
+            computeStealthContractAddress({
+              classHash: factoryClassHash,
+              deployerAddress: config.factoryAddress,
+              salt,
+              constructorCalldata: [x, y],
+            }),
+          ];
+        }
+      }
+      throw new Error(`Unexpected call ${call.entrypoint}`);
+    }),
+    execute: vi.fn().mockResolvedValue({ transaction_hash: '0xabc' }),
+  };
+}
+
+describe('SDK stealth sender', () => {
+  it('deploys, transfers and announces in one multicall', async () => {
+    const account = createAccount();
+    const sender = new StealthSender(account as any, config, { strict: true });
+
+    const { transactionHash, payment } = await sender.pay({
+      recipient: RECIPIENT,
+      token: TOKEN,
+      amount: 5n,
+      metadata: 9n,
+    });
+    expect(transactionHash).toBe('0xabc');
+    expect(account.execute).toHaveBeenCalledTimes(1);
+    expect(account.execute).toHaveBeenCalledWith(payment.calls);
+    expect(payment.calls.map((call) => call.entrypoint)).toEqual([
+      'deploy_stealth_account',
+      'transfer',
+      'announce',
+    ]);
+    // uint256 amount: low, high
+    expect(payment.calls[1].calldata).toEqual([
+      BigInt(payment.stealthAddress).toString(),
+      '5',
+      '0',
+    ]);
+    expect(payment).toMatchObject({
+      recipientAddress: RECIPIENT,
+      metaAddress: meta,
+      deployed: true,
+    });
+    expect(payment).not.toHaveProperty('sharedSecret');
+
+    // The announcement is one the recipient finds
+    const [schemeId, x, y, stealthAddress, viewTag, metadata] = (
+      payment.calls[2].calldata as string[]
+    ).map(BigInt);
+    const matcher = new AnnouncementMatcher(
+      { spendingPubkey: meta.spendingKey, viewingPrivKey: 2n },
+      config.factoryAddress,
+      CLASS_HASH
+    );
+    const { match } = matcher.check({
+      schemeId: Number(schemeId),
+      ephemeralPubkeyX: x,
+      ephemeralPubkeyY: y,
+      stealthAddress: `0x${stealthAddress.toString(16)}`,
+      viewTag: Number(viewTag),
+      metadata,
+    });
+    expect(match?.stealthPubkey).toEqual(payment.stealthPubkey);
+    expect(metadata).toBe(9n);
+  });
+
+  it('skips deployment for lazy-deploy flows', async () => {
+    const sender = new StealthSender(createAccount() as any, config);
+    const payment = await sender.preparePayment({
+      recipient: meta,
+      token: TOKEN,
+      amount: 5n,
+      deploy: false,
+    });
+    expect(payment.calls.map((call) => call.entrypoint)).toEqual(['transfer', 'announce']);
+    expect(payment.deployed).toBe(false);
+    expect(payment.recipientAddress).toBeUndefined();
+  });
+
+  it('refuses recipients it cannot pay', async () => {
+    const sender = new StealthSender(createAccount() as any, config);
+    await expect(sender.pay({ recipient: '0x456', token: TOKEN, amount: 5n })).rejects.toThrow(
+      'No meta-address registered for 0x456'
+    );
+    await expect(
+      sender.pay({ recipient: createSecp256k1MetaAddress(1n, 2n), token: TOKEN, amount: 5n })
+    ).rejects.toThrow('Cannot pay scheme_id 2');
+  });
+
+  it('does not send funds when strict mode finds a mismatch', async () => {
+    const account = createAccount('0x5678');
+    const sender = new StealthSender(account as any, config, { strict: true });
+    await expect(sender.pay({ recipient: RECIPIENT, token: TOKEN, amount: 5n })).rejects.toThrow(
+      'mismatch'
+    );
+    expect(account.execute).not.toHaveBeenCalled();
+  });
+});
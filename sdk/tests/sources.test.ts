@@ -0,0 +1,302 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ArchiveAnnouncementSource,
+  HttpIndexerAnnouncementSource,
+  MemoryAnnouncementSource,
+  RpcAnnouncementSource,
+  deserializeAnnouncement,
+  formatAnnouncementArchive,
+  serializeAnnouncement,
+} from '../src/sources.js';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
+import { StealthScanner } from '../src/scanner.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { Announcement, AnnouncementSource } from '../src/types.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const meta = createMetaAddress(1n, 2n);
+
+function payment(blockNumber: number, index: number): Announcement {
+  const result = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  return {
+    schemeId: 1,
+    ephemeralPubkeyX: result.ephemeralPubkey.x,
+    ephemeralPubkeyY: result.ephemeralPubkey.y,
+    viewTag: result.viewTag,
+    stealthAddress: result.stealthAddress,
+    metadata: 0n,
+    index,
+    blockNumber,
+    txHash: `0x${index}ff`,
+  };
+}
+
+function createScanner(source: AnnouncementSource) {
+  const scanner: any = new StealthScanner(config, { source });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  return scanner as StealthScanner;
+}
+
+describe('SDK announcement JSON', () => {
+  it('round-trips announcements', () => {
+    const announcement = payment(10, 3);
+    const json = JSON.parse(JSON.stringify(serializeAnnouncement(announcement)));
+    expect(deserializeAnnouncement(json)).toEqual(announcement);
+  });
+
+  it('rejects malformed records', () => {
+    const json = serializeAnnouncement(payment(10, 3));
+    expect(() => deserializeAnnouncement({ ...json, viewTag: '1' })).toThrow('Invalid');
+    expect(() => deserializeAnnouncement({ ...json, metadata: 'zz' })).toThrow('Invalid');
+    expect(() => deserializeAnnouncement(null)).toThrow('Invalid');
+  });
+});
+
+describe('SDK announcement sources', () => {
+  it('scans a memory source with the usual verification', async () => {
+    const ours = payment(5, 0);
+    const other = { ...payment(6, 1), stealthAddress: '0x99' };
+    const source = new MemoryAnnouncementSource([other, ours]);
+    const scanner = createScanner(source);
+
+    const results = await scanner.scan(meta.spendingKey, 2n, 1n);
+    expect(results.map((result) => result.announcement?.index)).toEqual([0]);
+    expect(await source.fetchAnnouncements(6)).toHaveLength(1);
+    expect(await source.getBlockNumber()).toBe(6);
+  });
+
+  it('pages through an HTTP indexer', async () => {
+    const first = serializeAnnouncement(payment(5, 0));
+    const second = serializeAnnouncement(payment(9, 1));
+    const fetch = vi.fn(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      const body =
+        pathname === '/v1/head'
+          ? { block_number: 42 }
+          : searchParams.get('cursor')
+            ? { announcements: [second] }
+            : { announcements: [first], cursor: 'page-2' };
+      return { ok: true, status: 200, json: async () => body };
+    });
+    const source = new HttpIndexerAnnouncementSource({
+      url: 'https://indexer.example/v1/',
+      schemeIds: [0, 1],
+      fetch,
+    });
+
+    const announcements = await source.fetchAnnouncements(3, 20);
+    expect(announcements.map((announcement) => announcement.index)).toEqual([0, 1]);
+    expect(fetch.mock.calls[0][0]).toBe(
+      'https://indexer.example/v1/announcements?from_block=3&to_block=20&scheme_ids=0%2C1'
+    );
+    expect(fetch.mock.calls[1][0]).toContain('cursor=page-2');
+    expect(await source.getBlockNumber()).toBe(42);
+
+    const failing = new HttpIndexerAnnouncementSource({
+      url: 'https://indexer.example',
+      fetch: async () => ({ ok: false, status: 503, json: async () => ({}) }),
+    });
+    await expect(failing.getBlockNumber()).rejects.toThrow('status 503');
+  });
+
+  it('loads NDJSON and JSON archives, including raw events', async () => {
+    const ours = payment(7, 2);
+    const rawEvent = {
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', '0x2a'],
+      data: ['0x11', '0x22', '0x33', '0x44', '0x3'],
+      block_number: 8,
+    };
+    const ndjson = formatAnnouncementArchive([ours]) + `${JSON.stringify(rawEvent)}\n`;
+
+    const archive = ArchiveAnnouncementSource.parse(ndjson);
+    const loaded = await archive.fetchAnnouncements(0);
+    expect(loaded[0]).toEqual(ours);
+    expect(loaded[1].stealthAddress).toBe('0x33');
+
+    const fromJson = ArchiveAnnouncementSource.parse(
+      JSON.stringify([serializeAnnouncement(ours)]),
+      { head: 100 }
+    );
+    expect(await fromJson.getBlockNumber()).toBe(100);
+    expect(() => ArchiveAnnouncementSource.parse('{nope')).toThrow('Malformed');
+
+    const dir = await mkdtemp(join(tmpdir(), 'stealth-archive-'));
+    try {
+      const path = join(dir, 'announcements.ndjson');
+      await writeFile(path, ndjson);
+      const scanner = createScanner(await ArchiveAnnouncementSource.fromFile(path));
+      const results = await scanner.scan(meta.spendingKey, 2n, 1n);
+      expect(results.map((result) => result.stealthAddress)).toEqual([ours.stealthAddress]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads registry events over RPC', async () => {
+    const provider = {
+      getBlockNumber: vi.fn().mockResolvedValue(12),
+      getEvents: vi.fn().mockResolvedValue({
+        events: [
+          {
+            keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x01'],
+            data: ['0x11', '0x22', '0x33', '0x44', '0x1'],
+          },
+        ],
+      }),
+    };
+    const source = new RpcAnnouncementSource({
+      provider: provider as any,
+      registryAddress: config.registryAddress,
+      chunkSize: 50,
+    });
+
+    const announcements = await source.fetchAnnouncements(0, 12);
+    expect(announcements.map((announcement) => announcement.stealthAddress)).toEqual(['0x33']);
+    expect(provider.getEvents.mock.calls[0][0].chunk_size).toBe(50);
+    expect(await source.getBlockNumber()).toBe(12);
+  });
+
+  it('fetches block shards concurrently and merges them in index order', async () => {
+    // Each block has one announcement, two per page; later shards answer first
+    const event = (block: number) => ({
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x01'],
+      data: ['0x11', '0x22', `0x${block.toString(16)}`, '0x0', `0x${block.toString(16)}`],
+      block_number: block,
+    });
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = {
+      getBlockNumber: vi.fn().mockResolvedValue(99),
+      getEvents: vi.fn(async (request: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const from = request.from_block.block_number;
+        const to = request.to_block === 'latest' ? 99 : request.to_block.block_number;
+        const start = request.continuation_token ? Number(request.continuation_token) : from;
+        await new Promise((resolve) => setTimeout(resolve, 100 - from));
+        inFlight--;
+        const end = Math.min(start + request.chunk_size - 1, to);
+        const events = [];
+        for (let block = start; block <= end; block++) {
+          events.push(event(block));
+        }
+        return { events, continuation_token: end < to ? String(end + 1) : undefined };
+      }),
+    };
+    const source = new RpcAnnouncementSource({
+      provider: provider as any,
+      registryAddress: config.registryAddress,
+      chunkSize: 2,
+      shardSize: 5,
+      concurrency: 3,
+    });
+
+    const announcements = await source.fetchAnnouncements(80);
+    expect(announcements.map((announcement) => announcement.index)).toEqual(
+      Array.from({ length: 20 }, (_, i) => 80 + i)
+    );
+    expect(maxInFlight).toBe(3);
+    // The last shard stays open-ended
+    const lastShard = provider.getEvents.mock.calls.find(
+      ([request]) => request.from_block.block_number === 95
+    );
+    expect(lastShard![0].to_block).toBe('latest');
+  });
+
+  it('fetches a few pages ahead per shard and stops when the consumer does', async () => {
+    // One announcement per page, 100 pages in two shards
+    const provider = {
+      getBlockNumber: vi.fn().mockResolvedValue(99),
+      getEvents: vi.fn(async (request: any) => {
+        const block = request.continuation_token
+          ? Number(request.continuation_token)
+          : request.from_block.block_number;
+        const to = request.to_block === 'latest' ? 99 : request.to_block.block_number;
+        return {
+          events: [
+            {
+              keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x01'],
+              data: ['0x11', '0x22', '0x33', '0x0', `0x${block.toString(16)}`],
+              block_number: block,
+            },
+          ],
+          continuation_token: block < to ? String(block + 1) : undefined,
+        };
+      }),
+    };
+    const source = new RpcAnnouncementSource({
+      provider: provider as any,
+      registryAddress: config.registryAddress,
+      chunkSize: 1,
+      shardSize: 50,
+      concurrency: 2,
+    });
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+    const pages = source.fetchAnnouncementPages(0);
+    const first = await pages.next();
+    expect(first.value?.[0].index).toBe(0);
+    await settle();
+    // Each shard waits with a couple of pages buffered instead of reading ahead to its end
+    const fetched = provider.getEvents.mock.calls.length;
+    expect(fetched).toBeLessThanOrEqual(8);
+
+    await pages.return(undefined);
+    await settle();
+    expect(provider.getEvents.mock.calls.length).toBeLessThanOrEqual(fetched + 2);
+    const stopped = provider.getEvents.mock.calls.length;
+    await settle();
+    expect(provider.getEvents.mock.calls.length).toBe(stopped);
+  });
+
+  it('lowers the chunk size when the node rejects it', async () => {
+    const tooBig = Object.assign(new Error('Requested page size is too big'), { code: 31 });
+    const provider = {
+      getBlockNumber: vi.fn().mockResolvedValue(12),
+      getEvents: vi.fn(async (request: any) => {
+        if (request.chunk_size > 250) {
+          throw tooBig;
+        }
+        return { events: [] };
+      }),
+    };
+    const source = new RpcAnnouncementSource({
+      provider: provider as any,
+      registryAddress: config.registryAddress,
+    });
+
+    await source.fetchAnnouncements(0, 12);
+    await source.fetchAnnouncements(0, 12);
+    expect(provider.getEvents.mock.calls.map(([request]) => request.chunk_size)).toEqual([
+      1000, 500, 250, 250,
+    ]);
+
+    const limited = new RpcAnnouncementSource({
+      provider: {
+        getEvents: vi.fn().mockResolvedValue({ events: [], continuation_token: 'more' }),
+      } as any,
+      registryAddress: config.registryAddress,
+      maxPages: 2,
+    });
+    await expect(limited.fetchAnnouncements(0, 12)).rejects.toThrow('pagination limit');
+    expect(
+      () =>
+        new RpcAnnouncementSource({
+          provider: provider as any,
+          registryAddress: config.registryAddress,
+          concurrency: 0,
+        })
+    ).toThrow('concurrency must be a positive integer');
+  });
+});
@@ -10,13 +10,18 @@ import {
   deriveStealthPrivateKey,
   deriveStealthPubkey,
   computeSharedSecret,
+  computeStealthSalt,
   computeViewTag,
+  compressPoint,
+  decompressPoint,
+  generatePrivateKey,
   isPointOnCurve,
   normalizePrivateKey,
   verifyStealthAddress,
   checkViewTag,
 } from '../src/stealth.js';
 import { StealthScanner } from '../src/scanner.js';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
 
 const config = {
   registryAddress: '0x1',
@@ -116,6 +121,52 @@ describe('SDK curve validation', () => {
   });
 });
 
+describe('SDK point compression', () => {
+  it('round-trips canonical public keys', () => {
+    for (const priv of [1n, 2n, 3n, CURVE_ORDER - 1n]) {
+      const pub = getPublicKey(priv);
+      expect(decompressPoint(compressPoint(pub))).toEqual(pub);
+    }
+  });
+
+  it('compresses non-canonical points to the same x', () => {
+    const pub = getPublicKey(2n);
+    const FIELD_PRIME = BigInt(
+      '0x800000000000011000000000000000000000000000000000000000000000001'
+    );
+    expect(compressPoint({ x: pub.x, y: FIELD_PRIME - pub.y })).toBe(pub.x);
+  });
+
+  it('rejects x values that are not on the curve', () => {
+    expect(() => decompressPoint(0n)).toThrow();
+    let offCurve = 1n;
+    while (true) {
+      try {
+        decompressPoint(offCurve);
+        offCurve++;
+      } catch {
+        break;
+      }
+    }
+    expect(() => decompressPoint(offCurve)).toThrow('not on STARK curve');
+    expect(() => decodeMetaAddress(`0x${offCurve.toString(16)}`)).toThrow();
+  });
+
+  it('decodes x-only meta-addresses', () => {
+    const spending = getPublicKey(1n);
+    const viewing = getPublicKey(2n);
+    const meta = decodeMetaAddress(
+      `0x${spending.x.toString(16)}`,
+      undefined,
+      `0x${viewing.x.toString(16)}`,
+      undefined,
+      1
+    );
+    expect(meta.spendingKey).toEqual(spending);
+    expect(meta.viewingKey).toEqual(viewing);
+  });
+});
+
 describe('SDK property tests', () => {
   const keyArb = fc.oneof(
     fc.constant(1n),
@@ -179,11 +230,88 @@ describe('SDK stealth address generation', () => {
   });
 });
 
+describe('SDK reproducible stealth payments', () => {
+  const vectors = [
+    {
+      name: 'Vector A (single-key)',
+      k: 1n,
+      v: 1n,
+      r: 2n,
+      viewTag: 0x0c,
+      salt: 0x3a92647e1f06f120e786c2a58c7a5fe21a30aeb33d84e4dac94eea10550150cn,
+      P: {
+        x: 0x6f13d02826597fdcc7b05df3e77a5d0bdb7676e7166206218e96825f9f94531n,
+        y: 0x31741467d1f817e49b90c7f9490fa61ff47ce12e2ae07f62535b5cc159923ccn,
+      },
+      address: '0x2e3de8ec295c883b011e3249e74c0bfb4011458ecaa945f8011e1abb75a2833',
+    },
+    {
+      name: 'Vector B (dual-key)',
+      k: 1n,
+      v: 2n,
+      r: 3n,
+      viewTag: 0xa6,
+      salt: 0x3ae520b1330d6c941ba044136e0b4ef63b4c8636234b354740b5f0ea2c184a6n,
+      P: {
+        x: 0x2c8d43da90a22a11adb3ae45954994c13cd6c59bca77a10f3c061db367c710fn,
+        y: 0x3b7177ca1e67d94cc23e0358187b30bab20b7044f772877c84a3ceccca23a6bn,
+      },
+      address: '0x31436de7715354e07f55e134d358d2dbd719e8c68effc2e336691dd264777',
+    },
+  ];
+
+  for (const vector of vectors) {
+    it(`matches SNIP.md ${vector.name}`, () => {
+      const meta = createMetaAddress(vector.k, vector.v);
+      const result = generateStealthAddress(meta, '0x5678', '0x1234', {
+        ephemeralPrivateKey: vector.r,
+      });
+      expect(result.viewTag).toBe(vector.viewTag);
+      expect(result.stealthPubkey).toEqual(vector.P);
+
+      // The example address is computed with the salt listed in the vector
+      const address = computeStealthContractAddress({
+        classHash: '0x1234',
+        deployerAddress: '0x5678',
+        salt: vector.salt,
+        constructorCalldata: [result.stealthPubkey.x, result.stealthPubkey.y],
+      });
+      expect(BigInt(address)).toBe(BigInt(vector.address));
+    });
+  }
+
+  it('reproduces Vector A end to end (salt = poseidon(R.x, R.y))', () => {
+    const [vectorA] = vectors;
+    const meta = createMetaAddress(vectorA.k, vectorA.v);
+    const result = generateStealthAddress(meta, '0x5678', '0x1234', {
+      ephemeralPrivateKey: vectorA.r,
+    });
+    expect(result.salt).toBe(vectorA.salt);
+    expect(BigInt(result.stealthAddress)).toBe(BigInt(vectorA.address));
+  });
+
+  it('returns the salt used for the address', () => {
+    const meta = createMetaAddress(1n, 2n);
+    const result = generateStealthAddress(meta, config.factoryAddress, '0x1234');
+    expect(result.salt).toBe(computeStealthSalt(result.ephemeralPubkey));
+  });
+
+  it('uses the injected random source', () => {
+    const rng = (length: number) => new Uint8Array(length).fill(7);
+    const meta = createMetaAddress(1n, 2n);
+    const a = generateStealthAddress(meta, config.factoryAddress, '0x1234', { rng });
+    const b = generateStealthAddress(meta, config.factoryAddress, '0x1234', { rng });
+    expect(a.stealthAddress).toBe(b.stealthAddress);
+    expect(generatePrivateKey(rng)).toBe(generatePrivateKey(rng));
+    expect(() => generatePrivateKey(() => new Uint8Array(8))).toThrow();
+  });
+});
+
 describe('SDK event parsing', () => {
   it('parses Announcement event (current layout)', () => {
     const scanner: any = new StealthScanner(config);
     const event = {
-      keys: ['0xselector', '0x0', '0x2a'],
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x2a'],
       data: ['0x11', '0x22', '0x33', '0x44', '0x5'],
       block_number: 123,
       transaction_hash: '0xabc',
@@ -199,6 +327,18 @@ describe('SDK event parsing', () => {
     expect(parsed.index).toBe(5);
   });
 
+  it('parses Announcement event with an x-only ephemeral key', () => {
+    const scanner: any = new StealthScanner(config);
+    const ephemeral = getPublicKey(5n);
+    const event = {
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', '0x2a'],
+      data: [`0x${ephemeral.x.toString(16)}`, '0x0', '0x33', '0x44', '0x5'],
+    };
+
+    const parsed = scanner.parseAnnouncementEvent(event);
+    expect(parsed.ephemeralPubkeyY).toBe(ephemeral.y);
+  });
+
   it('parses event and verifies stealth address', () => {
     const spendingPrivKey = 1n;
     const spendingPubkey = getPublicKey(spendingPrivKey);
@@ -208,7 +348,7 @@ describe('SDK event parsing', () => {
     const scanner: any = new StealthScanner(config);
 
     const event = {
-      keys: ['0xselector', '0x0', `0x${result.viewTag.toString(16)}`],
+      keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', `0x${result.viewTag.toString(16)}`],
       data: [
         `0x${result.ephemeralPubkey.x.toString(16)}`,
         `0x${result.ephemeralPubkey.y.toString(16)}`,
@@ -258,7 +398,7 @@ describe('SDK pagination', () => {
     const page1 = {
       events: [
         {
-          keys: ['0xselector', '0x0', '0x01'],
+          keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x01'],
           data: ['0x11', '0x22', '0x33', '0x44', '0x1'],
         },
       ],
@@ -267,7 +407,7 @@ describe('SDK pagination', () => {
     const page2 = {
       events: [
         {
-          keys: ['0xselector', '0x0', '0x02'],
+          keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x0', '0x02'],
           data: ['0x55', '0x66', '0x77', '0x88', '0x2'],
         },
       ],
@@ -276,6 +416,7 @@ describe('SDK pagination', () => {
 
     scanner.provider = {
       getEvents: vi.fn().mockResolvedValueOnce(page1).mockResolvedValueOnce(page2),
+      getBlockNumber: vi.fn().mockResolvedValue(10),
     };
 
     const results = await scanner.fetchAnnouncements(0);
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { createMetaAddress } from '../src/stealth.js';
+import { formatMetaAddressUri, parseMetaAddressUri } from '../src/uri.js';
+
+const SN_SEPOLIA = '0x534e5f5345504f4c4941';
+const SN_MAIN = '0x534e5f4d41494e';
+
+/** Re-checksum a tampered payload body so only the key validation can fail */
+function withValidChecksum(prefix: string, bodyHex: string): string {
+  const check = sha256(concatBytes(utf8ToBytes(prefix), hexToBytes(bodyHex))).slice(0, 4);
+  return prefix + bodyHex + bytesToHex(check);
+}
+
+describe('SDK meta-address URI', () => {
+  it('round-trips a dual-key meta-address', () => {
+    const meta = createMetaAddress(1n, 2n);
+    const uri = formatMetaAddressUri(meta, SN_SEPOLIA);
+    expect(uri.startsWith('st:starknet:SN_SEPOLIA:')).toBe(true);
+
+    const parsed = parseMetaAddressUri(uri, SN_SEPOLIA);
+    expect(parsed.metaAddress).toEqual(meta);
+    expect(BigInt(parsed.chainId)).toBe(BigInt(SN_SEPOLIA));
+  });
+
+  it('round-trips a single-key meta-address', () => {
+    const meta = createMetaAddress(3n);
+    const parsed = parseMetaAddressUri(formatMetaAddressUri(meta, SN_MAIN));
+    expect(parsed.metaAddress).toEqual(meta);
+  });
+
+  it('accepts a hex chain ID segment', () => {
+    const meta = createMetaAddress(1n, 2n);
+    const uri = formatMetaAddressUri(meta, SN_SEPOLIA).replace('SN_SEPOLIA', SN_SEPOLIA);
+    expect(parseMetaAddressUri(uri, SN_SEPOLIA).metaAddress).toEqual(meta);
+  });
+
+  it('rejects the wrong chain', () => {
+    const uri = formatMetaAddressUri(createMetaAddress(1n, 2n), SN_SEPOLIA);
+    expect(() => parseMetaAddressUri(uri, SN_MAIN)).toThrow('different chain');
+    // Editing the chain segment breaks the checksum
+    expect(() => parseMetaAddressUri(uri.replace('SN_SEPOLIA', 'SN_MAIN'))).toThrow('checksum');
+  });
+
+  it('rejects a bad checksum', () => {
+    const uri = formatMetaAddressUri(createMetaAddress(1n, 2n), SN_SEPOLIA);
+    const last = uri.slice(-2) === '00' ? '01' : '00';
+    expect(() => parseMetaAddressUri(uri.slice(0, -2) + last)).toThrow('checksum');
+  });
+
+  it('rejects malformed URIs', () => {
+    expect(() => parseMetaAddressUri('st:eth:0xabc')).toThrow();
+    expect(() => parseMetaAddressUri('st:starknet:SN_SEPOLIA:zz')).toThrow('payload');
+  });
+
+  it('rejects a key that is not on the curve', () => {
+    const uri = formatMetaAddressUri(createMetaAddress(1n, 2n), SN_SEPOLIA);
+    const separator = uri.lastIndexOf(':');
+    const body = uri.slice(separator + 1, -8);
+    // Replace the spending key x with 0 (no point on the curve)
+    const tampered = body.slice(0, 4) + '00'.repeat(32) + body.slice(68);
+    const forged = withValidChecksum(uri.slice(0, separator + 1), tampered);
+    expect(() => parseMetaAddressUri(forged)).toThrow('not on STARK curve');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { StealthKeyring } from '../src/keyring.js';
+import { StealthScanner } from '../src/scanner.js';
+import { MemoryAnnouncementSource } from '../src/sources.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import {
+  VIEWING_BUNDLE_VERSION,
+  createViewingBundle,
+  deriveMatchSpendingKey,
+  parseViewingBundle,
+} from '../src/viewing.js';
+import type { Announcement } from '../src/types.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const SPENDING_KEY = 0x1111n;
+const VIEWING_KEY = 0x2222n;
+const meta = createMetaAddress(SPENDING_KEY, VIEWING_KEY);
+
+function payment(index: number): Announcement {
+  const result = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  return {
+    schemeId: 1,
+    ephemeralPubkeyX: result.ephemeralPubkey.x,
+    ephemeralPubkeyY: result.ephemeralPubkey.y,
+    viewTag: result.viewTag,
+    stealthAddress: result.stealthAddress,
+    metadata: 0n,
+    index,
+    blockNumber: index + 1,
+  };
+}
+
+function createScanner(announcements: Announcement[]) {
+  const source = new MemoryAnnouncementSource(announcements);
+  const scanner: any = new StealthScanner(config, { source });
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  return scanner as StealthScanner;
+}
+
+describe('SDK view-only scanning', () => {
+  const announcements = [payment(0), { ...payment(1), stealthAddress: '0x99' }, payment(2)];
+
+  it('finds payments without the spending key', async () => {
+    const scanner = createScanner(announcements);
+    const viewOnly = await scanner.scan({
+      spendingPubkey: meta.spendingKey,
+      viewingPrivKey: VIEWING_KEY,
+    });
+
+    expect(viewOnly.map((result) => result.announcement!.index)).toEqual([0, 2]);
+    for (const result of viewOnly) {
+      expect(result.spendingKey).toBeUndefined();
+      expect(typeof result.sharedSecretHash).toBe('bigint');
+      expect(result.stealthPubkey).toBeDefined();
+    }
+
+    // Deriving later gives the key a full scan would have returned
+    const full = await scanner.scan(meta.spendingKey, VIEWING_KEY, SPENDING_KEY);
+    expect(viewOnly.map((result) => deriveMatchSpendingKey(result, SPENDING_KEY))).toEqual(
+      full.map((result) => result.spendingKey)
+    );
+  });
+
+  it('rejects the wrong spending key', async () => {
+    const [result] = await createScanner([payment(0)]).scan({
+      spendingPubkey: meta.spendingKey,
+      viewingPrivKey: VIEWING_KEY,
+    });
+    expect(() => deriveMatchSpendingKey(result, 0x3333n)).toThrow('does not match');
+    expect(() => deriveMatchSpendingKey({ isOurs: false }, SPENDING_KEY)).toThrow(
+      'no shared secret hash'
+    );
+  });
+});
+
+describe('SDK viewing bundles', () => {
+  const keys = { schemeId: 1, spendingPubkey: meta.spendingKey, viewingKey: VIEWING_KEY };
+
+  it('round-trips through JSON', () => {
+    const bundle = createViewingBundle(keys, {
+      chainId: config.chainId,
+      registryAddress: config.registryAddress,
+      fromBlock: 100,
+    });
+    expect(bundle.version).toBe(VIEWING_BUNDLE_VERSION);
+    expect(bundle).not.toHaveProperty('factoryAddress');
+
+    const decoded = parseViewingBundle(JSON.stringify(bundle));
+    expect(decoded.spendingPubkey).toEqual(meta.spendingKey);
+    expect(decoded.context).toMatchObject({ chainId: config.chainId, fromBlock: 100 });
+    expect(createViewingBundle(decoded, decoded.context)).toEqual(bundle);
+  });
+
+  it('is exported by a keyring without the spending key', () => {
+    const keyring = StealthKeyring.fromKeys({ spendingKey: SPENDING_KEY, viewingKey: VIEWING_KEY });
+    const bundle = keyring.exportViewingBundle();
+    expect(bundle).toEqual(createViewingBundle(keys));
+  });
+
+  it('rejects single-key schemes, unknown versions and malformed bundles', () => {
+    expect(() => createViewingBundle({ ...keys, schemeId: 0 })).toThrow('dual-key');
+    const bundle = createViewingBundle(keys);
+    expect(() => parseViewingBundle({ ...bundle, version: 2 })).toThrow(
+      'Unsupported viewing bundle version: 2'
+    );
+    expect(() => parseViewingBundle({ ...bundle, viewingKey: 'abc' })).toThrow('Invalid');
+    expect(() => parseViewingBundle('{nope')).toThrow('Invalid');
+    expect(() =>
+      parseViewingBundle({ ...bundle, spendingPubkey: { x: '0x1', y: '0x2' } })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ANNOUNCEMENT_EVENT_SELECTOR } from '../src/events.js';
+import { StealthScanner } from '../src/scanner.js';
+import { createMetaAddress, generateStealthAddress } from '../src/stealth.js';
+import type { WebSocketLike } from '../src/watch.js';
+
+const config = {
+  registryAddress: '0x1',
+  factoryAddress: '0x2',
+  rpcUrl: 'http://localhost:9545',
+  chainId: '0x534e5f5345504f4c4941', // SN_SEPOLIA
+};
+const CLASS_HASH = '0x1234';
+
+const meta = createMetaAddress(1n, 2n);
+const recipient = { spendingPubkey: meta.spendingKey, viewingPrivKey: 2n, spendingPrivKey: 1n };
+
+function announce(blockNumber: number, index: number) {
+  const payment = generateStealthAddress(meta, config.factoryAddress, CLASS_HASH);
+  return {
+    keys: [ANNOUNCEMENT_EVENT_SELECTOR, '0x1', `0x${payment.viewTag.toString(16)}`],
+    data: [
+      `0x${payment.ephemeralPubkey.x.toString(16)}`,
+      `0x${payment.ephemeralPubkey.y.toString(16)}`,
+      payment.stealthAddress,
+      '0x0',
+      `0x${index.toString(16)}`,
+    ],
+    block_number: blockNumber,
+    transaction_hash: `0x${index}ff`,
+  };
+}
+
+/** Provider whose chain grows as blocks are added */
+function createChain(head: number) {
+  const chain = { head, events: [] as ReturnType<typeof announce>[] };
+  const provider = {
+    getBlockNumber: vi.fn(async () => chain.head),
+    getEvents: vi.fn(async (filter: any) => ({
+      events: chain.events.filter(
+        (event) =>
+          event.block_number >= filter.from_block.block_number &&
+          event.block_number <= filter.to_block.block_number
+      ),
+    })),
+  };
+  return { chain, provider };
+}
+
+function createScanner(provider: object, options: { reorgWindow?: number } = {}) {
+  const scanner: any = new StealthScanner(config, options);
+  scanner.registryContract = {};
+  scanner.accountClassHash = CLASS_HASH;
+  scanner.provider = provider;
+  return scanner as StealthScanner;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/** In-process stand-in for a WebSocket RPC endpoint */
+class FakeSocket implements WebSocketLike {
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: unknown }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+  sent: any[] = [];
+  closed = false;
+
+  constructor() {
+    setTimeout(() => this.onopen?.(), 0);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  receive(message: object): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe('SDK scanner.watch() polling', () => {
+  it('catches up from fromBlock and emits new payments', async () => {
+    const { chain, provider } = createChain(10);
+    chain.events.push(announce(5, 0));
+    const subscription = createScanner(provider).watch(recipient, {
+      fromBlock: 0,
+      pollIntervalMs: 5,
+    });
+
+    const payments: number[] = [];
+    const progress: number[] = [];
+    subscription.on('payment', (result) => payments.push(result.announcement!.index!));
+    subscription.on('progress', (update) => progress.push(update.blockNumber));
+
+    await waitFor(() => payments.length === 1);
+    expect(subscription.mode).toBe('polling');
+
+    chain.events.push(announce(12, 1));
+    chain.head = 12;
+    await waitFor(() => payments.length === 2);
+    await subscription.stop();
+
+    expect(payments).toEqual([0, 1]);
+    expect(progress.slice(0, 2)).toEqual([10, 12]);
+    // Ranges never overlap
+    expect(provider.getEvents.mock.calls[1][0].from_block).toEqual({ block_number: 11 });
+  });
+
+  it('reports errors and keeps polling', async () => {
+    const { chain, provider } = createChain(10);
+    provider.getEvents.mockRejectedValueOnce(new Error('rpc down'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const subscription = createScanner(provider).watch(recipient, {
+      fromBlock: 0,
+      pollIntervalMs: 5,
+    });
+
+    const errors: unknown[] = [];
+    const payments: unknown[] = [];
+    subscription.on('error', (error) => errors.push(error));
+    subscription.on('payment', (result) => payments.push(result));
+
+    chain.events.push(announce(3, 0));
+    await waitFor(() => payments.length === 1);
+    await subscription.stop();
+    consoleError.mockRestore();
+    expect(errors.length).toBe(1);
+  });
+
+  it('drops errors nobody listens to', async () => {
+    const { chain, provider } = createChain(10);
+    provider.getBlockNumber.mockRejectedValueOnce(new Error('rpc down'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const subscription = createScanner(provider).watch(recipient, {
+      fromBlock: 0,
+      pollIntervalMs: 5,
+    });
+    const payments: unknown[] = [];
+    subscription.on('payment', (result) => payments.push(result));
+
+    chain.events.push(announce(3, 0));
+    await waitFor(() => payments.length === 1);
+    await subscription.stop();
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('only remembers announcements within the reorg window', async () => {
+    const { chain, provider } = createChain(10);
+    for (let block = 1; block <= 10; block++) {
+      chain.events.push(announce(block, block));
+    }
+    const subscription = createScanner(provider, { reorgWindow: 2 }).watch(recipient, {
+      fromBlock: 0,
+      pollIntervalMs: 5,
+    });
+    const payments: number[] = [];
+    subscription.on('payment', (result) => payments.push(result.announcement!.index!));
+
+    await waitFor(() => payments.length === 10);
+    chain.events.push(announce(12, 12));
+    chain.head = 12;
+    await waitFor(() => payments.length === 11);
+    await subscription.stop();
+
+    // Blocks 9 and 10 (before next block 11) and 12
+    expect([...(subscription as any).seen.values()]).toEqual([9, 10, 12]);
+  });
+
+  it('emits nothing after stop()', async () => {
+    const { chain, provider } = createChain(10);
+    const subscription = createScanner(provider).watch(recipient, { pollIntervalMs: 5 });
+    const payment = vi.fn();
+    subscription.on('payment', payment);
+
+    await subscription.stop();
+    chain.events.push(announce(11, 0));
+    chain.head = 11;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(payment).not.toHaveBeenCalled();
+  });
+});
+
+describe('SDK scanner.watch() WebSocket', () => {
+  it('subscribes with starknet_subscribeEvents and checks each event', async () => {
+    const { provider } = createChain(10);
+    let socket!: FakeSocket;
+    const subscription = createScanner(provider).watch(recipient, {
+      wsUrl: 'wss://rpc.example',
+      webSocket: () => (socket = new FakeSocket()),
+    });
+    const payments: number[] = [];
+    subscription.on('payment', (result) => payments.push(result.announcement!.index!));
+
+    await waitFor(() => socket?.sent.length === 1);
+    const request = socket.sent[0];
+    expect(request.method).toBe('starknet_subscribeEvents');
+    expect(request.params.from_address).toBe(config.registryAddress);
+    expect(request.params.keys).toEqual([[ANNOUNCEMENT_EVENT_SELECTOR]]);
+    expect(request.params.block_id).toEqual({ block_number: 11 });
+
+    socket.receive({ jsonrpc: '2.0', id: request.id, result: '0x77' });
+    expect(subscription.mode).toBe('websocket');
+    socket.receive({
+      jsonrpc: '2.0',
+      method: 'starknet_subscriptionEvents',
+      params: { subscription_id: '0x77', result: announce(11, 4) },
+    });
+    // Same event again (e.g. replayed): reported once
+    socket.receive({
+      jsonrpc: '2.0',
+      method: 'starknet_subscriptionEvents',
+      params: { subscription_id: '0x77', result: announce(11, 4) },
+    });
+
+    await waitFor(() => payments.length === 1);
+    await subscription.stop();
+    expect(payments).toEqual([4]);
+    expect(socket.sent[1]).toMatchObject({
+      method: 'starknet_unsubscribe',
+      params: { subscription_id: '0x77' },
+    });
+    expect(socket.closed).toBe(true);
+  });
+
+  it('opens no socket when stopped during the catch-up poll', async () => {
+    const { provider } = createChain(10);
+    let release!: () => void;
+    provider.getEvents.mockImplementationOnce(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return { events: [] };
+    });
+    const webSocket = vi.fn(() => new FakeSocket());
+    const subscription = createScanner(provider).watch(recipient, {
+      fromBlock: 0,
+      wsUrl: 'wss://rpc.example',
+      webSocket,
+    });
+
+    await waitFor(() => provider.getEvents.mock.calls.length === 1);
+    const stopped = subscription.stop();
+    release();
+    await stopped;
+    expect(webSocket).not.toHaveBeenCalled();
+    expect(subscription.mode).toBeNull();
+  });
+
+  it('falls back to polling when subscriptions are unsupported', async () => {
+    const { chain, provider } = createChain(10);
+    let socket!: FakeSocket;
+    const subscription = createScanner(provider).watch(recipient, {
+      wsUrl: 'wss://rpc.example',
+      webSocket: () => (socket = new FakeSocket()),
+      pollIntervalMs: 5,
+    });
+    const payments: unknown[] = [];
+    subscription.on('payment', (result) => payments.push(result));
+
+    await waitFor(() => socket?.sent.length === 1);
+    socket.receive({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } });
+    expect(subscription.mode).toBe('polling');
+    expect(socket.closed).toBe(true);
+
+    chain.events.push(announce(11, 0));
+    chain.head = 11;
+    await waitFor(() => payments.length === 1);
+    await subscription.stop();
+  });
+});